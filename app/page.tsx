@@ -1,13 +1,24 @@
 "use client"
 
 import { initRegPack } from "@/lib/init"
-import { useEffect } from "react"
+import { useEffect, type ComponentType } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import RegPackPreview from "@/components/RegPackPreview"
 import RegPack2Preview from "@/components/RegPack2Preview"
 import CrusherPreview from "@/components/CrusherPreview"
 // Import the CharPackerPreview component
 import CharPackerPreview from "@/components/CharPackerPreview"
+import DwitterPreview from "@/components/DwitterPreview"
+import { getEngineRegistry } from "@/models/EngineRegistry"
+import { TargetSelector } from "@/components/TargetBudget"
+
+// Tabs with a preview of their own, the other tabs show their engines in the generic preview
+const DEDICATED_PREVIEWS: Record<string, ComponentType> = {
+  "Character packers": CharPackerPreview,
+  RegPack: RegPackPreview,
+  "SlowPack (Beam Search)": RegPack2Preview,
+  Dwitter: DwitterPreview,
+}
 
 export default function Home() {
   // Initialize RegPack when the component mounts
@@ -15,27 +26,27 @@ export default function Home() {
     initRegPack()
   }, [])
 
+  const tabs = getEngineRegistry().getTabs()
+
   return (
     <main className="container mx-auto px-4 py-8">
-      <Tabs defaultValue="charpacker" className="w-full">
+      <TargetSelector />
+      <Tabs defaultValue="Character packers" className="w-full">
         <TabsList className="mb-4">
-          <TabsTrigger value="charpacker">Character packers</TabsTrigger>
-          <TabsTrigger value="regpack">RegPack</TabsTrigger>
-          <TabsTrigger value="regpack2">SlowPack (Beam Search)</TabsTrigger>
-          <TabsTrigger value="crusher">Regex Packers</TabsTrigger>
+          {tabs.map((tab) => (
+            <TabsTrigger key={tab.title} value={tab.title}>
+              {tab.title}
+            </TabsTrigger>
+          ))}
         </TabsList>
-        <TabsContent value="regpack">
-          <RegPackPreview />
-        </TabsContent>
-        <TabsContent value="regpack2">
-          <RegPack2Preview />
-        </TabsContent>
-        <TabsContent value="crusher">
-          <CrusherPreview />
-        </TabsContent>
-        <TabsContent value="charpacker">
-          <CharPackerPreview />
-        </TabsContent>
+        {tabs.map((tab) => {
+          const Preview = DEDICATED_PREVIEWS[tab.title]
+          return (
+            <TabsContent key={tab.title} value={tab.title}>
+              {Preview ? <Preview /> : <CrusherPreview engines={tab.engines.map((engine) => engine.id)} />}
+            </TabsContent>
+          )
+        })}
       </Tabs>
     </main>
   )
@@ -0,0 +1,472 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+import { CrusherHeuristic, DEFAULT_PACKER_OPTIONS, PackerData, getEngineRegistry } from "../models"
+import type { PackerOptions, PackerResult } from "../models"
+import {
+  CHAR_STAGE_IDS,
+  DICTIONARY_STAGE_IDS,
+  findBestPipeline,
+  getPipelineObjective,
+  type PipelineResult,
+} from "../models/Pipeline"
+import { COST_TARGETS, type CostTarget, getCostModel } from "../utils/CostModel"
+import { getDeflater, SIZE_OBJECTIVES, type SizeObjective } from "../utils/Deflate"
+import { isSuccessful } from "../utils/PackerStatus"
+import {
+  TARGET_PRESETS,
+  type TargetPreset,
+  applyTargetPreset,
+  getTargetPreset,
+  measureBudget,
+  parseTargetPreset,
+} from "../utils/TargetPresets"
+
+/**
+ * Outcome of running a single engine on the input
+ */
+interface EngineRun {
+  id: string
+  name: string
+  // Size the runs are ranked by : in the unit of the cost target, or zipped under the zipped objective
+  length: number
+  // Unzipped size, in the unit of the cost target
+  size: number
+  chars: number
+  // Size of the output in a zip file
+  zipped: number
+  output: string
+  error?: string
+}
+
+/**
+ * An engine reachable from the command line
+ */
+interface CliEngine {
+  id: string
+  name: string
+  run: (input: string, options: PackerOptions) => PackerResult
+}
+
+const DEFAULT_OPTIONS: PackerOptions = {
+  ...DEFAULT_PACKER_OPTIONS,
+  beamWidth: 5,
+  maxInt: 10,
+}
+
+const USAGE = `Usage: jscg pack <file> [options]
+
+Runs every packer on <file> and prints a size table (on stderr) followed by
+the smallest packed output (on stdout, or in the file given with --output).
+
+Options:
+  -o, --output <file>        Write the winning output to <file>
+  -e, --engines <list>       Comma-separated engine ids (default: all)
+      --options <file>       JSON file with PackerOptions, merged over the defaults
+      --preset <id|file>     Target platform rules (objective, shim, decoders, size limit), a built-in
+                             id or a JSON preset file. The other options override the preset
+      --gain <n>             crushGainFactor (default 2)
+      --length <n>           crushLengthFactor (default 1)
+      --copies <n>           crushCopiesFactor (default 0)
+      --tiebreaker <n>       crushTiebreakerFactor (default 1)
+      --es5                  Use the ES5 "for(i in" unpacking loop
+      --beam-width <n>       Beam width for SlowPack and Replacer (default 5)
+      --max-replacements <n> Maximum replacements for SlowPack
+      --max-int <n>          Token range for Replacer (1-10, default 10)
+      --reassign-vars        Rename one-letter variables to free token characters
+      --keep-vars <letters>  Variables that must not be renamed (globals, shims...)
+      --hash-contexts        Hash the method names of 2D, WebGL and AudioContext objects
+      --context <name:type>  Context provided by the shim, e.g. c:2d (types: 2d, webgl, audio)
+      --target <unit>        What the size is counted in: utf8 bytes (default), utf16 code units
+                             or codepoints. Counting characters lets packers use non-ASCII tokens
+      --objective <name>     What the outputs are ranked by: raw (default) size in the target unit,
+                             or zipped size (js13k). The Zipped column is always shown
+      --optimize-zip         Measure zipped sizes with the slower, advzip-like deflate parse
+      --heuristic <name>     Crusher heuristic (${Object.values(CrusherHeuristic).join(", ")})
+      --chains               Try every dictionary packer followed by every char packer, and output
+                             the smallest chain in the target unit, or zipped under --objective zipped
+      --json                 Print all results as JSON instead of the table
+  -h, --help                 Show this message
+
+Engines: ${getEngineRegistry()
+  .list()
+  .map((engine) => engine.id)
+  .join(", ")}
+
+Presets: ${TARGET_PRESETS.map((preset) => preset.id).join(", ")}`
+
+/**
+ * The registered engines packing for the target, the asynchronous ones running their synchronous search
+ */
+function createEngines(target?: string): CliEngine[] {
+  return getEngineRegistry()
+    .listForTarget(target)
+    .map((engine) => ({
+      id: engine.id,
+      name: engine.name,
+      run: (input, options) =>
+        PackerData.getBestResult(engine.create().runPacker(input, { ...options, useBranchSearch: false })),
+    }))
+}
+
+const ENGINE_IDS = getEngineRegistry()
+  .list()
+  .map((engine) => engine.id)
+
+/**
+ * Runs the selected engines packing for the target of the options, and returns their results, in engine order
+ */
+export function runEngines(
+  input: string,
+  options: PackerOptions,
+  engineIds?: string[],
+  heuristic?: CrusherHeuristic,
+): EngineRun[] {
+  const engines = createEngines(options.target)
+  if (heuristic) {
+    options = { ...options, crusherHeuristic: heuristic }
+  }
+  const selected = engineIds ? engines.filter((engine) => engineIds.includes(engine.id)) : engines
+  return selected.map((engine) => {
+    try {
+      const result = engine.run(input, options)
+      const { output, length } = result
+      const failure = result.error ?? { code: "no-output", message: "no output generated" }
+      const error = isSuccessful(result) ? undefined : failure.code + ": " + failure.message
+      return {
+        id: engine.id,
+        name: engine.name,
+        length,
+        size: getCostModel(options.costTarget).measure(output),
+        chars: getCostModel("codepoints").measure(output),
+        zipped: output ? getDeflater().zipSize(output, options.optimizeZip) : 0,
+        output,
+        error,
+      }
+    } catch (error) {
+      return {
+        id: engine.id,
+        name: engine.name,
+        length: Number.POSITIVE_INFINITY,
+        size: 0,
+        chars: 0,
+        zipped: 0,
+        output: "",
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  })
+}
+
+/**
+ * Returns the successful run with the smallest length (in the unit of the cost target, or zipped), if any
+ */
+export function findWinner(runs: EngineRun[]): EngineRun | null {
+  let winner: EngineRun | null = null
+  for (const run of runs) {
+    if (!run.error && (!winner || run.length < winner.length)) {
+      winner = run
+    }
+  }
+  return winner
+}
+
+function formatTable(input: string, runs: EngineRun[], winner: EngineRun | null, options: PackerOptions): string {
+  const costModel = getCostModel(options.costTarget)
+  const rows = runs.map((run) => [
+    (run === winner ? "* " : "  ") + run.name,
+    run.error ? "-" : String(run.size),
+    run.error ? "-" : String(run.chars),
+    run.error ? "-" : String(run.zipped),
+    run.error ? run.error : "",
+  ])
+  rows.unshift([
+    "  Original",
+    String(costModel.measure(input)),
+    String(getCostModel("codepoints").measure(input)),
+    String(getDeflater().zipSize(input, options.optimizeZip)),
+    "",
+  ])
+  rows.unshift(["  Engine", costModel.unit[0].toUpperCase() + costModel.unit.slice(1), "Chars", "Zipped", ""])
+
+  const widths = [0, 1, 2, 3].map((column) => Math.max(...rows.map((row) => row[column].length)))
+  return rows
+    .map((row) =>
+      [row[0].padEnd(widths[0]), ...[1, 2, 3].map((column) => row[column].padStart(widths[column])), row[4]]
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n")
+}
+
+function formatChainTable(
+  input: string,
+  results: PipelineResult[],
+  best: PipelineResult | null,
+  optimizeZip?: boolean,
+): string {
+  const rows = results.map((result) => [
+    (result === best ? "* " : "  ") + result.name,
+    result.error ? "-" : String(result.bytes),
+    result.error ? "-" : String(result.chars),
+    result.error ? "-" : String(result.zipped),
+    result.error ? result.error : result.steps.map((step) => step.bytes + "B/" + step.chars + "c").join(" > "),
+  ])
+  rows.unshift([
+    "  Original",
+    String(getCostModel("utf8").measure(input)),
+    String(getCostModel("codepoints").measure(input)),
+    String(getDeflater().zipSize(input, optimizeZip)),
+    "",
+  ])
+  rows.unshift(["  Chain", "Bytes", "Chars", "Zipped", "Steps"])
+
+  const widths = [0, 1, 2, 3].map((column) => Math.max(...rows.map((row) => row[column].length)))
+  return rows
+    .map((row) =>
+      [row[0].padEnd(widths[0]), ...[1, 2, 3].map((column) => row[column].padStart(widths[column])), row[4]]
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n")
+}
+
+/**
+ * Returns the size of the winner against the limit of the target
+ */
+function formatBudget(winner: EngineRun | null, preset: TargetPreset): string {
+  if (!winner) return "Target " + preset.name + ": no output"
+  const budget = measureBudget(winner.output, preset)
+  if (!Number.isFinite(budget.limit)) {
+    return `Target ${preset.name}: ${budget.size} ${budget.unit}, no limit`
+  }
+  return (
+    `Target ${preset.name}: ${budget.size} of ${budget.limit} ${budget.unit}, ` +
+    (budget.remaining >= 0 ? `${budget.remaining} left` : `${-budget.remaining} over the limit`)
+  )
+}
+
+/**
+ * Returns the built-in preset with the given id, or the preset read from the given JSON file
+ */
+function loadPreset(value: string): TargetPreset {
+  if (TARGET_PRESETS.some((preset) => preset.id === value) || !existsSync(value)) {
+    return getTargetPreset(value)
+  }
+  return parseTargetPreset(JSON.parse(readFileSync(value, "utf8")))
+}
+
+function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number.parseFloat(value)
+  if (Number.isNaN(parsed)) {
+    throw new Error(`--${name} expects a number, got "${value}"`)
+  }
+  return parsed
+}
+
+function buildOptions(values: Record<string, string | boolean | undefined>, preset?: TargetPreset): PackerOptions {
+  let options: PackerOptions = { ...DEFAULT_OPTIONS }
+  if (typeof values.options === "string") {
+    Object.assign(options, JSON.parse(readFileSync(values.options, "utf8")))
+  }
+  if (preset) {
+    options = applyTargetPreset(options, preset)
+  }
+
+  const numeric: Array<[string, keyof PackerOptions]> = [
+    ["gain", "crushGainFactor"],
+    ["length", "crushLengthFactor"],
+    ["copies", "crushCopiesFactor"],
+    ["tiebreaker", "crushTiebreakerFactor"],
+    ["beam-width", "beamWidth"],
+    ["max-replacements", "maxReplacements"],
+    ["max-int", "maxInt"],
+  ]
+  for (const [flag, key] of numeric) {
+    const value = parseNumber(flag, values[flag] as string | undefined)
+    if (value !== undefined) {
+      Object.assign(options, { [key]: value })
+    }
+  }
+
+  if (values.es5) options.useES6 = false
+  if (values["reassign-vars"]) options.reassignVars = true
+  if (typeof values["keep-vars"] === "string") {
+    options.varsNotReassigned = [...new Set(values["keep-vars"].replace(/[^a-zA-Z]/g, ""))]
+  }
+  if (values["hash-contexts"]) {
+    options.hash2DContext = true
+    options.hashWebGLContext = true
+    options.hashAudioContext = true
+  }
+  if (typeof values.context === "string") {
+    const [name, type = "2d"] = values.context.split(":")
+    if (!name || !["2d", "webgl", "audio"].includes(type)) {
+      throw new Error(`--context expects <name>:<2d|webgl|audio>, got "${values.context}"`)
+    }
+    options.contextVariableName = name
+    options.contextType = type as PackerOptions["contextType"]
+  }
+  if (typeof values.target === "string") {
+    if (!COST_TARGETS.includes(values.target as CostTarget)) {
+      throw new Error(`--target expects one of ${COST_TARGETS.join(", ")}, got "${values.target}"`)
+    }
+    options.costTarget = values.target as CostTarget
+  }
+  if (typeof values.objective === "string") {
+    if (!SIZE_OBJECTIVES.includes(values.objective as SizeObjective)) {
+      throw new Error(`--objective expects one of ${SIZE_OBJECTIVES.join(", ")}, got "${values.objective}"`)
+    }
+    options.objective = values.objective as SizeObjective
+  }
+  if (values["optimize-zip"]) options.optimizeZip = true
+  return options
+}
+
+function parseHeuristic(value: string | undefined): CrusherHeuristic | undefined {
+  if (value === undefined) return undefined
+  if (!Object.values(CrusherHeuristic).includes(value as CrusherHeuristic)) {
+    throw new Error(`Unknown heuristic "${value}"`)
+  }
+  return value as CrusherHeuristic
+}
+
+export function main(argv: string[]): number {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: "string", short: "o" },
+        engines: { type: "string", short: "e" },
+        options: { type: "string" },
+        preset: { type: "string" },
+        gain: { type: "string" },
+        length: { type: "string" },
+        copies: { type: "string" },
+        tiebreaker: { type: "string" },
+        es5: { type: "boolean" },
+        "beam-width": { type: "string" },
+        "max-replacements": { type: "string" },
+        "max-int": { type: "string" },
+        "reassign-vars": { type: "boolean" },
+        "keep-vars": { type: "string" },
+        "hash-contexts": { type: "boolean" },
+        context: { type: "string" },
+        target: { type: "string" },
+        objective: { type: "string" },
+        "optimize-zip": { type: "boolean" },
+        heuristic: { type: "string" },
+        chains: { type: "boolean" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    })
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error))
+    console.error(USAGE)
+    return 2
+  }
+
+  const { values, positionals } = parsed
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (positionals[0] !== "pack" || positionals.length !== 2) {
+    console.error(USAGE)
+    return 2
+  }
+
+  let options: PackerOptions
+  let preset: TargetPreset | undefined
+  let engineIds: string[] | undefined
+  let heuristic: CrusherHeuristic | undefined
+  let input: string
+  try {
+    preset = values.preset ? loadPreset(values.preset) : undefined
+    options = buildOptions(values, preset)
+    heuristic = parseHeuristic(values.heuristic)
+    if (values.engines) {
+      engineIds = values.engines.split(",").map((id) => id.trim())
+      const unknown = engineIds.filter((id) => !ENGINE_IDS.includes(id))
+      if (unknown.length > 0) {
+        throw new Error(`Unknown engine(s): ${unknown.join(", ")}`)
+      }
+      const available = createEngines(options.target).map((engine) => engine.id)
+      const excluded = engineIds.filter((id) => !available.includes(id))
+      if (excluded.length > 0) {
+        throw new Error(
+          `Engine(s) not packing for ${options.target ? "the " + options.target + " target" : "this target"}: ${excluded.join(", ")}`,
+        )
+      }
+    }
+    input = readFileSync(positionals[1], "utf8")
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error))
+    return 2
+  }
+
+  if (values.chains) {
+    // The stages are engines too, left out under a target with engines of its own
+    const available = createEngines(options.target).map((engine) => engine.id)
+    const isSelected = (id: string) => available.includes(id) && (!engineIds || engineIds.includes(id))
+    const dictionaryIds = DICTIONARY_STAGE_IDS.filter(isSelected)
+    const charIds = CHAR_STAGE_IDS.filter(isSelected)
+    const { best, results } = findBestPipeline(input, options, getPipelineObjective(options), dictionaryIds, charIds)
+    if (values.json) {
+      console.log(
+        JSON.stringify({ original: getCostModel("utf8").measure(input), winner: best?.name ?? null, results }, null, 2),
+      )
+    } else {
+      console.error(formatChainTable(input, results, best, options.optimizeZip))
+    }
+    return writeWinner(best ? best.output : null, values.output, values.json)
+  }
+
+  const runs = runEngines(input, options, engineIds, heuristic)
+  const winner = findWinner(runs)
+
+  if (values.json) {
+    const original = getCostModel(options.costTarget).measure(input)
+    const budget = preset && winner ? measureBudget(winner.output, preset) : undefined
+    console.log(
+      JSON.stringify(
+        { original, winner: winner?.id ?? null, target: preset?.id ?? null, budget, results: runs },
+        null,
+        2,
+      ),
+    )
+  } else {
+    console.error(formatTable(input, runs, winner, options))
+    if (preset) console.error(formatBudget(winner, preset))
+    if (
+      options.objective === "zipped" &&
+      winner &&
+      getDeflater().zipSize(input, options.optimizeZip) <= winner.zipped
+    ) {
+      console.error("The unpacked input zips smaller than every packed output")
+    }
+  }
+
+  return writeWinner(winner ? winner.output : null, values.output, values.json)
+}
+
+function writeWinner(output: string | null, outputFile: string | undefined, json: boolean | undefined): number {
+  if (output === null) {
+    console.error("No engine produced a valid output")
+    return 1
+  }
+
+  if (outputFile) {
+    writeFileSync(outputFile, output)
+  } else if (!json) {
+    process.stdout.write(output + "\n")
+  }
+  return 0
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2))
+}
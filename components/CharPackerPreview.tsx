@@ -6,11 +6,11 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { getCharPacker } from "@/models/CharPacker"
 import { useInputStore } from "@/store/useInputStore"
-
-// Helper function to calculate byte size of a string
-function getByteSize(str: string): number {
-  return new Blob([str]).size
-}
+import { useTargetStore } from "@/store/useTargetStore"
+import { getCostModel } from "@/utils/CostModel"
+import { getTargetPreset } from "@/utils/TargetPresets"
+import TargetBudget from "./TargetBudget"
+import { getExecutionVerifier } from "@/utils/ExecutionVerifier"
 
 // Helper function to format byte sizes
 function formatBytes(bytes: number): string {
@@ -19,34 +19,44 @@ function formatBytes(bytes: number): string {
   else return (bytes / (1024 * 1024)).toFixed(2) + " MB"
 }
 
+// Helper function to format sizes in the unit of the cost target, bytes growing into KB and MB
+function formatSize(size: number, unit: string): string {
+  return unit === "bytes" ? formatBytes(size) : size + " " + unit
+}
+
 export default function CharPackerPreview() {
   const { globalInput, setGlobalInput } = useInputStore()
   const input = globalInput
   const setInput = setGlobalInput
+  const { target } = useTargetStore()
+  // Sizes are counted in the unit of the selected target, UTF-8 bytes without one
+  const costModel = getCostModel(target ? getTargetPreset(target).objective : undefined)
 
   const [packerType, setPackerType] = useState<string>("2-1")
   const [output, setOutput] = useState<{ packed: string; mapping?: any }>({ packed: "" })
   const [stats, setStats] = useState<{
     originalLength: number
     packedLength: number
-    originalBytes: number
-    packedBytes: number
+    originalSize: number
+    packedSize: number
     compressionRatio: number
-    byteCompressionRatio: number
+    sizeCompressionRatio: number
     totalSize: number
     savings: number
-    byteSavings: number
+    sizeSavings: number
   }>({
     originalLength: 0,
     packedLength: 0,
-    originalBytes: 0,
-    packedBytes: 0,
+    originalSize: 0,
+    packedSize: 0,
     compressionRatio: 0,
-    byteCompressionRatio: 0,
+    sizeCompressionRatio: 0,
     totalSize: 0,
     savings: 0,
-    byteSavings: 0,
+    sizeSavings: 0,
   })
+  const [verification, setVerification] = useState<string>("")
+  const [roundTrip, setRoundTrip] = useState<{ unpacked: string; mismatch: number } | null>(null)
 
   // Run packing when input or packer type changes
   useEffect(() => {
@@ -55,14 +65,16 @@ export default function CharPackerPreview() {
       setStats({
         originalLength: 0,
         packedLength: 0,
-        originalBytes: 0,
-        packedBytes: 0,
+        originalSize: 0,
+        packedSize: 0,
         compressionRatio: 0,
-        byteCompressionRatio: 0,
+        sizeCompressionRatio: 0,
         totalSize: 0,
         savings: 0,
-        byteSavings: 0,
+        sizeSavings: 0,
       })
+      setVerification("")
+      setRoundTrip(null)
       return
     }
 
@@ -81,30 +93,36 @@ export default function CharPackerPreview() {
       // Calculate stats
       const originalLength = input.length
       const packedLength = [...(safeResult?.packed || "")].length
-      const originalBytes = getByteSize(input)
-      const packedBytes = getByteSize(safeResult.packed)
-      const totalSize = packedBytes
+      const originalSize = costModel.measure(input)
+      const packedSize = costModel.measure(safeResult.packed)
+      const totalSize = packedSize
       const compressionRatio = originalLength > 0 ? packedLength / originalLength : 0
-      const byteCompressionRatio = originalBytes > 0 ? packedBytes / originalBytes : 0
+      const sizeCompressionRatio = originalSize > 0 ? packedSize / originalSize : 0
       const savings = originalLength - packedLength
-      const byteSavings = originalBytes - packedBytes
+      const sizeSavings = originalSize - packedSize
 
       setStats({
         originalLength,
         packedLength,
-        originalBytes,
-        packedBytes,
+        originalSize,
+        packedSize,
         compressionRatio,
-        byteCompressionRatio,
+        sizeCompressionRatio,
         totalSize,
         savings,
-        byteSavings,
+        sizeSavings,
       })
+
+      // Run the packed output and check that it evaluates the input
+      setVerification(getExecutionVerifier().describe(packer.verify(input, safeResult.packed)))
+
+      // Unpack the output to show where it differs from the input
+      setRoundTrip(packer.roundTrip(input, safeResult.packed))
     } catch (error) {
       console.error("Error packing:", error)
       setOutput({ packed: "Error packing input" })
     }
-  }, [input, packerType])
+  }, [input, packerType, target])
 
   // Copy output to clipboard
   const copyOutput = () => {
@@ -193,6 +211,7 @@ export default function CharPackerPreview() {
               <p className="text-sm">Original length: {stats.originalLength} characters</p>
               <p className="text-sm">Packed length: {stats.packedLength} characters</p>
               <p className="text-sm">Compression ratio: {(stats.compressionRatio * 100).toFixed(2)}%</p>
+              {verification && <p className="text-sm">Execution check: {verification}</p>}
               <p className="text-sm font-medium">
                 {stats.savings > 0
                   ? `Character savings: ${stats.savings} characters (${((stats.savings / stats.originalLength) * 100).toFixed(2)}%)`
@@ -203,27 +222,54 @@ export default function CharPackerPreview() {
             </div>
           </div>
           <div>
-            <h3 className="text-sm font-medium mb-2">Byte Statistics</h3>
+            <h3 className="text-sm font-medium mb-2">Size Statistics ({costModel.unit})</h3>
             <div className="bg-blue-50 p-3 rounded-md border border-blue-200">
               <p className="text-sm">
-                Original size: <span className="font-medium">{formatBytes(stats.originalBytes)}</span> (
-                {stats.originalBytes} bytes)
+                Original size: <span className="font-medium">{formatSize(stats.originalSize, costModel.unit)}</span> (
+                {stats.originalSize} {costModel.unit})
               </p>
               <p className="text-sm">
-                Packed size: <span className="font-medium">{formatBytes(stats.packedBytes)}</span> ({stats.packedBytes}{" "}
-                bytes)
+                Packed size: <span className="font-medium">{formatSize(stats.packedSize, costModel.unit)}</span> (
+                {stats.packedSize} {costModel.unit})
               </p>
-              <p className="text-sm">Byte compression ratio: {(stats.byteCompressionRatio * 100).toFixed(2)}%</p>
+              <p className="text-sm">Size compression ratio: {(stats.sizeCompressionRatio * 100).toFixed(2)}%</p>
               <p className="text-sm font-medium">
-                {stats.byteSavings > 0
-                  ? `Byte savings: ${formatBytes(stats.byteSavings)} (${((stats.byteSavings / stats.originalBytes) * 100).toFixed(2)}%)`
-                  : stats.byteSavings < 0
-                    ? `Byte increase: ${formatBytes(Math.abs(stats.byteSavings))} (${((Math.abs(stats.byteSavings) / stats.originalBytes) * 100).toFixed(2)}%)`
-                    : "No byte savings"}
+                {stats.sizeSavings > 0
+                  ? `Size savings: ${formatSize(stats.sizeSavings, costModel.unit)} (${((stats.sizeSavings / stats.originalSize) * 100).toFixed(2)}%)`
+                  : stats.sizeSavings < 0
+                    ? `Size increase: ${formatSize(Math.abs(stats.sizeSavings), costModel.unit)} (${((Math.abs(stats.sizeSavings) / stats.originalSize) * 100).toFixed(2)}%)`
+                    : "No size savings"}
               </p>
+              <TargetBudget output={output?.packed || ""} />
             </div>
           </div>
         </div>
+
+        {roundTrip && (
+          <div className="mt-4">
+            <h3 className="text-sm font-medium mb-2">Round Trip</h3>
+            <div className="bg-gray-100 p-3 rounded-md">
+              {roundTrip.mismatch < 0 ? (
+                <p className="text-sm">Unpacking the output gives back the input.</p>
+              ) : (
+                <>
+                  <p className="text-sm font-medium">
+                    The unpacked output differs from the input at character {roundTrip.mismatch}:
+                  </p>
+                  <p className="text-sm font-mono whitespace-pre-wrap break-all">
+                    Input: {JSON.stringify(input.slice(Math.max(0, roundTrip.mismatch - 20), roundTrip.mismatch + 20))}
+                  </p>
+                  <p className="text-sm font-mono whitespace-pre-wrap break-all">
+                    Unpacked:{" "}
+                    {JSON.stringify(
+                      roundTrip.unpacked.slice(Math.max(0, roundTrip.mismatch - 20), roundTrip.mismatch + 20),
+                    )}
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-between">
         <div>
@@ -232,12 +278,12 @@ export default function CharPackerPreview() {
           </Button>
         </div>
         <div className="text-xs text-gray-500">
-          {stats.originalBytes > 0 && (
+          {stats.originalSize > 0 && (
             <>
-              {stats.byteSavings > 0
-                ? `Reduced from ${formatBytes(stats.originalBytes)} to ${formatBytes(stats.packedBytes)}`
-                : stats.byteSavings < 0
-                  ? `Increased from ${formatBytes(stats.originalBytes)} to ${formatBytes(stats.packedBytes)}`
+              {stats.sizeSavings > 0
+                ? `Reduced from ${formatBytes(stats.originalSize)} to ${formatBytes(stats.packedSize)}`
+                : stats.sizeSavings < 0
+                  ? `Increased from ${formatBytes(stats.originalSize)} to ${formatBytes(stats.packedSize)}`
                   : `No size change`}
             </>
           )}
@@ -1,51 +1,80 @@
 "use client"
 
-import type React from "react"
 import { useState, useEffect, useRef } from "react"
 import { Crusher, CrusherHeuristic } from "../models/Crusher"
-import { RegPack } from "../models/RegPack"
-import { Replacer } from "../models/Replacer"
+import { type Packer, getEngineRegistry } from "../models/EngineRegistry"
 import { PackerOptimizer, type OptimizationResult } from "../models/PackerOptimizer"
+import type { ParameterValue } from "../models/ParameterSchema"
 import { PatternViewer } from "./PatternViewer"
-import type { PackerData } from "../models/PackerData"
-import type { PackerOptions, ProgressInfo, PackerResult } from "../types"
-import type { AbstractPacker } from "../models/AbstractPacker"
+import { PackerData } from "../models/PackerData"
+import {
+  DEFAULT_PACKER_OPTIONS,
+  type PackerEvent,
+  type PackerOptions,
+  type ProgressInfo,
+  type PackerResult,
+} from "../types"
 import { useInputStore } from "@/store/useInputStore"
+import { useTargetStore } from "@/store/useTargetStore"
+import EngineOptionsForm from "./EngineOptionsForm"
+import EventLogTable from "./EventLogTable"
+import { getDeflater } from "../utils/Deflate"
+import { isSuccessful } from "../utils/PackerStatus"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+import TargetBudget from "./TargetBudget"
 
 // Add this import at the top
 import SearchGraphVisualizer from "./SearchGraphVisualizer"
 
-export default function CrusherPreview() {
+interface CrusherPreviewProps {
+  // Ids of the registered engines offered by the encoder list, the first one selected
+  engines: string[]
+}
+
+/**
+ * Result of an engine: the regexp version if available, else the first stage
+ */
+function pickResult(packerData: PackerData): PackerResult | undefined {
+  return packerData.result && (packerData.result[1] ?? packerData.result[0])
+}
+
+export default function CrusherPreview({ engines }: CrusherPreviewProps) {
   const { globalInput, setGlobalInput } = useInputStore()
   const input = globalInput
   const setInput = setGlobalInput
+  const registry = getEngineRegistry()
 
   const [output, setOutput] = useState("")
-  const [regpackOutput, setRegpackOutput] = useState("")
-  const [replacerOutput, setReplacerOutput] = useState("")
+  // Outputs of the engines compared, in registration order, or why they failed
+  const [comparison, setComparison] = useState<
+    Array<{ id: string; name: string; output: string; zipped: number; error?: string }>
+  >(
+    [],
+  )
   const [details, setDetails] = useState("")
+  const [events, setEvents] = useState<PackerEvent[]>([])
   const [options, setOptions] = useState<PackerOptions>({
-    crushGainFactor: 2,
-    crushLengthFactor: 1,
-    crushCopiesFactor: 0,
-    crushTiebreakerFactor: 1,
-    useES6: true,
+    ...DEFAULT_PACKER_OPTIONS,
     useBranchSearch: false,
     branchFactor: 3,
     maxBranchDepth: 5,
     maxStates: 10000,
     beamWidth: 5, // Default beam width
     maxInt: 10, // Add maxInt option with default value
+    crusherHeuristic: CrusherHeuristic.BALANCED,
   })
+  const { target } = useTargetStore()
+  // The rules of the selected target override the options they cover
+  const packerOptions = target ? applyTargetPreset(options, getTargetPreset(target)) : options
   const [packerData, setPackerData] = useState<PackerData | null>(null)
-  const [regpackData, setRegpackData] = useState<PackerData | null>(null)
-  const [replacerData, setReplacerData] = useState<PackerData | null>(null)
   const [patternView, setPatternView] = useState<HTMLElement | null>(null)
   const [activeTab, setActiveTab] = useState("output")
   const [error, setError] = useState<string | null>(null)
   const [comparisonMode, setComparisonMode] = useState(false)
-  const [selectedHeuristic, setSelectedHeuristic] = useState<CrusherHeuristic>(CrusherHeuristic.BALANCED)
-  const [selectedEncoder, setSelectedEncoder] = useState<string>("replacer")
+  const [selectedEncoder, setSelectedEncoder] = useState<string>(engines[0])
+  const engine = registry.get(selectedEncoder)
+  // The engine completes in a worker of its own : it only runs once triggered
+  const usesWorker = engine.capabilities.async && !!options.useBranchSearch
 
   // Branch search state
   const [shouldRunCompression, setShouldRunCompression] = useState(false)
@@ -59,15 +88,19 @@ export default function CrusherPreview() {
   // Add this state variable with the other state variables
   const [showSearchGraph, setShowSearchGraph] = useState(false)
 
-  // Packer instances
-  const regPackRef = useRef<RegPack>(new RegPack())
-  const replacerRef = useRef<Replacer>(new Replacer(options.maxInt || 10))
+  // Packer instances, created on first use
+  const packersRef = useRef<Record<string, Packer>>({})
+  const getPacker = (id: string): Packer => {
+    packersRef.current[id] ??= registry.get(id).create()
+    return packersRef.current[id]
+  }
 
   // Optimization state
   const [isOptimizing, setIsOptimizing] = useState(false)
   const [optimizationProgress, setOptimizationProgress] = useState(0)
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null)
   const optimizerRef = useRef<PackerOptimizer | null>(null)
+  const heuristicAbortRef = useRef<AbortController | null>(null)
 
   // Heuristic optimization state
   const [isOptimizingHeuristic, setIsOptimizingHeuristic] = useState(false)
@@ -76,26 +109,19 @@ export default function CrusherPreview() {
     size: number
   }>()
 
-  // Clean up worker on unmount
+  // Clean up workers on unmount
   useEffect(() => {
     return () => {
-      replacerRef.current.terminate()
+      for (const packer of Object.values(packersRef.current)) {
+        packer.terminate?.()
+      }
     }
   }, [])
 
-  // Update crusher instance when heuristic changes
-  useEffect(() => {
-    replacerRef.current = new Replacer(options.maxInt || 10)
-  }, [options.maxInt])
-
   // Effect to update waiting state when options change
   useEffect(() => {
-    if (selectedEncoder === "replacer" && options.useBranchSearch && !shouldRunCompression) {
-      setIsWaitingForTrigger(true)
-    } else {
-      setIsWaitingForTrigger(false)
-    }
-  }, [selectedEncoder, options.useBranchSearch, shouldRunCompression])
+    setIsWaitingForTrigger(usesWorker && !shouldRunCompression)
+  }, [usesWorker, shouldRunCompression])
 
   // Progress callback for branch search
   const handleBranchSearchProgress = (progressInfo: ProgressInfo) => {
@@ -116,6 +142,7 @@ export default function CrusherPreview() {
     setWorkerResult(result)
     setOutput(result.output)
     setDetails(result.details)
+    setEvents(result.events ?? [])
     setIsBranchSearching(false)
 
     // Update pattern view if we have matchesLookup data
@@ -141,10 +168,10 @@ export default function CrusherPreview() {
     if ((input || "").trim() === "") return
 
     // Skip automatic compression if branch search is enabled and we're in waiting mode
-    if (selectedEncoder === "replacer" && options.useBranchSearch && !shouldRunCompression) {
+    if (usesWorker && !shouldRunCompression) {
       // Just show the waiting message without clearing previous results
       if (!output) {
-        setDetails("Web Worker branch search is ready. Click 'Run Branch Search Compression' to start.")
+        setDetails("Web Worker branch search is ready. Click 'Run Exhaustive Branch Search' to start.")
       }
       return
     }
@@ -152,125 +179,92 @@ export default function CrusherPreview() {
     try {
       setError(null)
 
-      // Set branch searching flag if needed
-      if (selectedEncoder === "replacer" && options.useBranchSearch && shouldRunCompression) {
+      // Reset branch search state if we're explicitly running compression
+      if (usesWorker && shouldRunCompression) {
         setIsBranchSearching(true)
         setBranchSearchProgress(0)
         setBranchSearchMessage("Initializing Web Worker...")
         setWorkerResult(null)
       }
 
-      // Run all packers for comparison
-      const regPack = regPackRef.current
-      const replacer = replacerRef.current
-
-      const regPackResult = regPack.runPacker(input, options)
-
-      // Try to run Replacer, but handle the case where input contains digits
-      let replacerResult: PackerData[] = []
-      try {
-        // Pass the waiting state and progress callback to the Replacer
-        replacerResult = replacer.runPacker(input, {
-          ...options,
-          waitingForTrigger: selectedEncoder === "replacer" && options.useBranchSearch && !shouldRunCompression,
-          onProgress:
-            selectedEncoder === "replacer" && options.useBranchSearch ? handleBranchSearchProgress : undefined,
-          onComplete: selectedEncoder === "replacer" && options.useBranchSearch ? handleWorkerComplete : undefined,
-        })
-
-        if (replacerResult && replacerResult.length > 0) {
-          setReplacerData(replacerResult[0])
-
-          if (replacerResult[0].result && replacerResult[0].result.length >= 1) {
-            // If the result is from a worker and is still running, don't update the output
-            if (replacerResult[0].result[0].isRunning) {
-              // Just store the placeholder result
-              setWorkerResult(replacerResult[0].result[0])
-            } else {
-              setReplacerOutput(replacerResult[0].result[0].output || "")
-            }
+      // Run the selected engine, the asynchronous ones report to the callbacks
+      const best = PackerData.getBest(
+        getPacker(selectedEncoder).runPacker(input, {
+          ...packerOptions,
+          waitingForTrigger: usesWorker && !shouldRunCompression,
+          onProgress: usesWorker ? handleBranchSearchProgress : undefined,
+          onComplete: usesWorker ? handleWorkerComplete : undefined,
+        }),
+      )
+      const result = best && pickResult(best)
+      setPackerData(best ?? null)
+      setEvents(best ? PackerData.getEvents(best) : [])
+
+      if (!result) {
+        setOutput("")
+        setDetails("Error: No valid output generated")
+        setPatternView(null)
+        setError("Failed to generate output")
+      } else if (result.isRunning) {
+        // Just store the placeholder result and wait for the worker to complete
+        setWorkerResult(result)
+        setOutput("Running in Web Worker...")
+        setDetails(result.details || "")
+      } else {
+        setOutput(result.output || "")
+        setDetails(result.details || "")
+
+        // Generate pattern view
+        try {
+          if (engine.capabilities.matchesLookup && best.matchesLookup) {
+            const patternViewer = new PatternViewer()
+            const patternElement = patternViewer.render(input, best.matchesLookup)
+            setPatternView(patternElement)
+          } else {
+            setPatternView(null)
           }
+        } catch (patternError) {
+          console.error("Error generating pattern view:", patternError)
+          setPatternView(null)
         }
-      } catch (replacerError) {
-        console.warn("Replacer error:", replacerError)
-        setReplacerOutput(`Error: ${replacerError instanceof Error ? replacerError.message : String(replacerError)}`)
-        setIsBranchSearching(false)
       }
 
-      // Process results based on selected encoder
-      if (selectedEncoder === "replacer" && replacerResult && replacerResult.length > 0) {
-        // Only update if we're not in waiting mode or if we're explicitly running compression
-        if (!options.useBranchSearch || shouldRunCompression) {
-          setPackerData(replacerResult[0])
-
-          if (replacerResult[0].result && replacerResult[0].result.length >= 1) {
-            // If the result is from a worker and is still running, don't update the output
-            if (replacerResult[0].result[0].isRunning) {
-              // Just store the placeholder result and wait for the worker to complete
-              setOutput("Running in Web Worker...")
-              setDetails(replacerResult[0].result[0].details || "")
+      // Compare with every engine fast enough, each one running synchronously
+      if (comparisonMode) {
+        const compared = registry.listForTarget(
+          target,
+          (other) => other.capabilities.objective === "bytes" && (!other.capabilities.slow || other.id === selectedEncoder),
+        )
+        setComparison(
+          compared.map((other) => {
+            let otherResult: PackerResult | undefined
+            let thrown: string | undefined
+            if (other.id === selectedEncoder && result && !result.isRunning) {
+              otherResult = result
             } else {
-              setOutput(replacerResult[0].result[0].output || "")
-              setDetails(replacerResult[0].result[0].details || "")
-
-              // Generate pattern view
               try {
-                if (replacerResult[0].matchesLookup) {
-                  const patternViewer = new PatternViewer()
-                  const patternElement = patternViewer.render(input, replacerResult[0].matchesLookup)
-                  setPatternView(patternElement)
-                } else {
-                  setPatternView(null)
-                }
-              } catch (patternError) {
-                console.error("Error generating pattern view:", patternError)
-                setPatternView(null)
+                const data = getPacker(other.id).runPacker(input, { ...packerOptions, useBranchSearch: false })
+                otherResult = pickResult(PackerData.getBest(data))
+              } catch (otherError) {
+                thrown = otherError instanceof Error ? otherError.message : String(otherError)
               }
             }
-          } else {
-            setOutput("")
-            setDetails("Error: No valid output generated")
-            setError("Failed to generate output")
-          }
-        }
-      }
-
-      // Process RegPack results for comparison
-      if (regPackResult && regPackResult.length > 0) {
-        setRegpackData(regPackResult[0])
-
-        if (regPackResult[0].result && regPackResult[0].result.length >= 2 && regPackResult[0].result[1]) {
-          setRegpackOutput(regPackResult[0].result[1].output || "")
-        } else if (regPackResult[0].result && regPackResult[0].result.length >= 1 && regPackResult[0].result[0]) {
-          setRegpackOutput(regPackResult[0].result[0].output || "")
-        }
-
-        // Add this block to handle when regpack is selected as the encoder
-        if (selectedEncoder === "regpack") {
-          setPackerData(regPackResult[0])
-
-          if (regPackResult[0].result && regPackResult[0].result.length >= 2 && regPackResult[0].result[1]) {
-            setOutput(regPackResult[0].result[1].output || "")
-            setDetails(regPackResult[0].result[1].details || "")
-          } else if (regPackResult[0].result && regPackResult[0].result.length >= 1 && regPackResult[0].result[0]) {
-            setOutput(regPackResult[0].result[0].output || "")
-            setDetails(regPackResult[0].result[0].details || "")
-          }
-
-          // Generate pattern view for RegPack
-          try {
-            if (regPackResult[0].matchesLookup) {
-              const patternViewer = new PatternViewer()
-              const patternElement = patternViewer.render(input, regPackResult[0].matchesLookup)
-              setPatternView(patternElement)
-            } else {
-              setPatternView(null)
-            }
-          } catch (patternError) {
-            console.error("Error generating pattern view:", patternError)
-            setPatternView(null)
-          }
-        }
+            return otherResult && isSuccessful(otherResult)
+              ? {
+                  id: other.id,
+                  name: other.name,
+                  output: otherResult.output,
+                  zipped: getDeflater().zipSize(otherResult.output, packerOptions.optimizeZip),
+                }
+              : {
+                  id: other.id,
+                  name: other.name,
+                  output: "",
+                  zipped: 0,
+                  error: thrown ?? otherResult?.error?.message ?? "no output",
+                }
+          }),
+        )
       }
     } catch (error) {
       console.error("Error in processing:", error)
@@ -285,14 +279,14 @@ export default function CrusherPreview() {
         setShouldRunCompression(false)
       }
     }
-  }, [input, options, selectedHeuristic, selectedEncoder, shouldRunCompression])
-
-  const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, type, checked } = e.target
-    setOptions((prev) => ({
-      ...prev,
-      [name]: type === "checkbox" ? checked : value === "" ? 0 : Number.parseFloat(value) || 0,
-    }))
+  }, [input, options, target, selectedEncoder, shouldRunCompression, comparisonMode])
+
+  const handleOptionChange = (name: keyof PackerOptions, value: ParameterValue) => {
+    setOptions((prev) => ({ ...prev, [name]: value }))
+    // If turning off branch search, run compression automatically
+    if (name === "useBranchSearch" && !value) {
+      setShouldRunCompression(true)
+    }
   }
 
   const startOptimization = async () => {
@@ -306,33 +300,22 @@ export default function CrusherPreview() {
     setError(null)
 
     try {
-      // Get the current active packer based on selected encoder
-      const activePacker: AbstractPacker = selectedEncoder === "replacer" ? replacerRef.current : regPackRef.current
-
-      // Create a new optimizer with the active packer
-      optimizerRef.current = new PackerOptimizer(activePacker, input, (result) => {
-        setOptimizationProgress(result.progress)
-        setOptimizationResult(result)
-      })
+      // Create a new optimizer for the active packer, its runs are spread over the worker pool
+      optimizerRef.current = new PackerOptimizer(
+        selectedEncoder,
+        input,
+        (result) => {
+          setOptimizationProgress(result.progress)
+          setOptimizationResult(result)
+        },
+        packerOptions,
+      )
 
       // Start the optimization process
       const result = await optimizerRef.current.findBestOptions()
 
-      // Apply the best options
-      setOptions(result.bestOptions)
-
-      // Re-run the active packer with optimized settings
-      const optimizedResult = activePacker.runPacker(input, result.bestOptions)
-
-      if (optimizedResult && optimizedResult.length > 0 && optimizedResult[0].result) {
-        if (optimizedResult[0].result.length >= 2 && optimizedResult[0].result[1]) {
-          setOutput(optimizedResult[0].result[1].output || "")
-          setDetails(optimizedResult[0].result[1].details || "")
-        } else if (optimizedResult[0].result.length >= 1 && optimizedResult[0].result[0]) {
-          setOutput(optimizedResult[0].result[0].output || "")
-          setDetails(optimizedResult[0].result[0].details || "")
-        }
-      }
+      // Apply the best options, on top of the ones the engine does not search : the active packer runs again
+      setOptions((prev) => ({ ...prev, ...result.bestOptions }))
     } catch (error) {
       console.error("Optimization error:", error)
       setError(`Optimization error: ${error instanceof Error ? error.message : String(error)}`)
@@ -348,7 +331,7 @@ export default function CrusherPreview() {
   }
 
   const stopBranchSearch = () => {
-    replacerRef.current.terminate()
+    getPacker(selectedEncoder).terminate?.()
     setIsBranchSearching(false)
     setBranchSearchMessage("Branch search stopped by user")
   }
@@ -367,71 +350,16 @@ export default function CrusherPreview() {
     setError(null)
 
     try {
-      // Create a new instance for each heuristic to avoid state issues
-      const heuristics = [
-        CrusherHeuristic.BALANCED,
-        CrusherHeuristic.MOST_COPIES,
-        CrusherHeuristic.LONGEST,
-        CrusherHeuristic.DENSITY,
-        CrusherHeuristic.ADAPTIVE,
-      ]
-
-      let bestHeuristic = CrusherHeuristic.BALANCED
-      let bestSize = Number.POSITIVE_INFINITY
-      let bestOutput = ""
-      let bestDetails = ""
-
-      // Try each heuristic
-      for (const heuristic of heuristics) {
-        try {
-          // Create a fresh instance for each test
-          const crusher = new Crusher(heuristic)
-
-          // Run the packer with the current heuristic
-          const result = crusher.runPacker(input, options)
-
-          if (result && result.length > 0 && result[0].result) {
-            // Get the size of the packed code
-            let size = Number.POSITIVE_INFINITY
-            let output = ""
-            let details = ""
-
-            // Prefer the second result (regexp version) if available
-            if (result[0].result.length >= 2 && result[0].result[1]) {
-              size = result[0].result[1].length
-              output = result[0].result[1].output || ""
-              details = result[0].result[1].details || ""
-            } else if (result[0].result.length >= 1 && result[0].result[0]) {
-              size = result[0].result[0].length
-              output = result[0].result[0].output || ""
-              details = result[0].result[0].details || ""
-            }
-
-            // Update best result if this is better
-            if (size < bestSize) {
-              bestSize = size
-              bestHeuristic = heuristic
-              bestOutput = output
-              bestDetails = details
-            }
-          }
-        } catch (err) {
-          console.error(`Error testing heuristic ${heuristic}:`, err)
-          // Continue with next heuristic even if this one fails
-        }
-
-        // Add a small delay to allow UI updates
-        await new Promise((resolve) => setTimeout(resolve, 50))
-      }
+      // The heuristics run in parallel on the worker pool
+      heuristicAbortRef.current = new AbortController()
+      const best = await Crusher.findBestHeuristic(input, options, heuristicAbortRef.current.signal)
 
       // Apply the best heuristic
-      setSelectedHeuristic(bestHeuristic)
-      setOutput(bestOutput)
-      setDetails(bestDetails)
+      setOptions((prev) => ({ ...prev, crusherHeuristic: best.heuristic }))
 
       setHeuristicResult({
-        heuristic: bestHeuristic,
-        size: bestSize,
+        heuristic: best.heuristic,
+        size: best.size,
       })
     } catch (error) {
       console.error("Heuristic optimization error:", error)
@@ -449,6 +377,16 @@ export default function CrusherPreview() {
     setShouldRunCompression(true)
   }
 
+  // Smallest output among the compared engines, zipped under the zipped objective
+  const comparedSize = (entry: (typeof comparison)[number]) =>
+    packerOptions.objective === "zipped" ? entry.zipped : entry.output.length
+  const bestCompared = comparison
+    .filter((entry) => !entry.error)
+    .reduce<(typeof comparison)[number] | null>(
+      (best, entry) => (!best || comparedSize(entry) < comparedSize(best) ? entry : best),
+      null,
+    )
+
   return (
     <div className="flex flex-col min-h-screen p-4">
       <h1 className="text-2xl font-bold mb-4">Enhanced JavaScript Packers</h1>
@@ -474,192 +412,64 @@ export default function CrusherPreview() {
                 className="w-full mt-1 p-2 border rounded"
                 disabled={isOptimizing || isBranchSearching}
               >
-                <option value="replacer">Replacer (Digit-based)</option>
-                <option value="regpack">RegPack (Original)</option>
+                {engines.map((id) => (
+                  <option key={id} value={id}>
+                    {registry.get(id).name}
+                  </option>
+                ))}
               </select>
             </label>
-            <p className="text-xs text-gray-500 mt-1">
-              {selectedEncoder === "replacer" &&
-                "Minimal packer using digit replacements (input must not contain digits 0-9)"}
-              {selectedEncoder === "regpack" && "Original RegPack implementation"}
-            </p>
+            <p className="text-xs text-gray-500 mt-1">{engine.description}</p>
           </div>
 
-          {/* Show heuristic selection only for Crusher */}
-
-          {selectedEncoder !== "replacer" && (
-            <div className="grid grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Crush Gain Factor
-                  <input
-                    type="number"
-                    name="crushGainFactor"
-                    value={isNaN(options.crushGainFactor) ? "2" : options.crushGainFactor.toString()}
-                    onChange={handleOptionChange}
-                    step="0.1"
-                    className="w-full mt-1 p-2 border rounded"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                </label>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Crush Length Factor
-                  <input
-                    type="number"
-                    name="crushLengthFactor"
-                    value={isNaN(options.crushLengthFactor) ? "1" : options.crushLengthFactor.toString()}
-                    onChange={handleOptionChange}
-                    step="0.1"
-                    className="w-full mt-1 p-2 border rounded"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                </label>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Crush Copies Factor
-                  <input
-                    type="number"
-                    name="crushCopiesFactor"
-                    value={isNaN(options.crushCopiesFactor) ? "0" : options.crushCopiesFactor.toString()}
-                    onChange={handleOptionChange}
-                    step="0.1"
-                    className="w-full mt-1 p-2 border rounded"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                </label>
-              </div>
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Crush Tiebreaker Factor
-                  <input
-                    type="number"
-                    name="crushTiebreakerFactor"
-                    value={isNaN(options.crushTiebreakerFactor) ? "1" : options.crushTiebreakerFactor.toString()}
-                    onChange={handleOptionChange}
-                    step="1"
-                    className="w-full mt-1 p-2 border rounded"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                </label>
-              </div>
-            </div>
-          )}
-
-          {/* Add branch search option for Replacer */}
-          {selectedEncoder === "replacer" && (
-            <>
-              <div className="mb-4">
-                <label className="block text-sm font-medium mb-1">
-                  Max Integer Range (1-100)
-                  <input
-                    type="number"
-                    name="maxInt"
-                    value={options.maxInt || 10}
-                    onChange={handleOptionChange}
-                    min="1"
-                    max="100"
-                    step="1"
-                    className="w-full mt-1 p-2 border rounded"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                </label>
-                <p className="text-xs text-gray-500">
-                  Number of tokens to use for replacements (default 0-9 = 10 tokens). Higher values allow more
-                  replacements but require larger tokens.
-                </p>
-              </div>
+          <EngineOptionsForm
+            schema={engine.options}
+            options={options}
+            onChange={handleOptionChange}
+            disabled={isOptimizing || isBranchSearching}
+          />
 
-              <div className="mt-2">
-                <label className="flex items-center">
-                  <input
-                    type="checkbox"
-                    name="useBranchSearch"
-                    checked={options.useBranchSearch}
-                    onChange={(e) => {
-                      handleOptionChange(e)
-                      // If turning off branch search, run compression automatically
-                      if (!e.target.checked) {
-                        setShouldRunCompression(true)
-                      }
-                    }}
-                    className="mr-2"
-                    disabled={isOptimizing || isBranchSearching}
-                  />
-                  <span className="text-sm font-medium">Use Web Worker Branch Search (optimal but non-blocking)</span>
-                </label>
-                {options.useBranchSearch && (
-                  <>
-                    {options.useBranchSearch && (
-                      <div>
-                        <label className="block text-sm font-medium mb-1">
-                          Beam Width
-                          <input
-                            type="number"
-                            name="beamWidth"
-                            value={options.beamWidth || 5}
-                            onChange={handleOptionChange}
-                            min="1"
-                            max="20"
-                            step="1"
-                            className="w-full mt-1 p-2 border rounded"
-                            disabled={isOptimizing || isBranchSearching}
-                          />
-                        </label>
-                        <p className="text-xs text-gray-500">
-                          Number of candidate solutions to maintain at each step (higher = more thorough but slower)
-                        </p>
-                      </div>
-                    )}
-
-                    {isBranchSearching ? (
-                      <div className="mt-4 space-y-2">
-                        <div className="flex items-center">
-                          <div className="w-full bg-gray-200 rounded-full h-2.5 mr-2">
-                            <div
-                              className="bg-green-600 h-2.5 rounded-full"
-                              style={{ width: `${branchSearchProgress * 100}%` }}
-                            ></div>
-                          </div>
-                          <span className="text-sm">{Math.round(branchSearchProgress * 100)}%</span>
-                        </div>
-                        <p className="text-sm">{branchSearchMessage}</p>
-                        {branchSearchDetails && <p className="text-xs text-gray-600">{branchSearchDetails}</p>}
-                        <p className="text-xs text-blue-600">Performing exhaustive search for optimal compression</p>
-                        <button
-                          onClick={stopBranchSearch}
-                          className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded"
-                        >
-                          Stop Web Worker
-                        </button>
-                      </div>
-                    ) : (
-                      <button
-                        onClick={triggerCompression}
-                        className="mt-2 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded"
-                        disabled={isOptimizing || isBranchSearching || (input || "").trim() === ""}
-                      >
-                        Run Exhaustive Branch Search
-                      </button>
-                    )}
-                  </>
-                )}
+          {usesWorker &&
+            (isBranchSearching ? (
+              <div className="mt-4 space-y-2">
+                <div className="flex items-center">
+                  <div className="w-full bg-gray-200 rounded-full h-2.5 mr-2">
+                    <div
+                      className="bg-green-600 h-2.5 rounded-full"
+                      style={{ width: `${branchSearchProgress * 100}%` }}
+                    ></div>
+                  </div>
+                  <span className="text-sm">{Math.round(branchSearchProgress * 100)}%</span>
+                </div>
+                <p className="text-sm">{branchSearchMessage}</p>
+                {branchSearchDetails && <p className="text-xs text-gray-600">{branchSearchDetails}</p>}
+                <p className="text-xs text-blue-600">Performing exhaustive search for optimal compression</p>
+                <button onClick={stopBranchSearch} className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 rounded">
+                  Stop Web Worker
+                </button>
               </div>
-            </>
-          )}
+            ) : (
+              <button
+                onClick={triggerCompression}
+                className="mt-2 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded"
+                disabled={isOptimizing || isBranchSearching || (input || "").trim() === ""}
+              >
+                Run Exhaustive Branch Search
+              </button>
+            ))}
 
           <div className="mt-4 flex space-x-2">
             {!isOptimizing && !isOptimizingHeuristic && !isBranchSearching ? (
               <>
-                <button
-                  onClick={startOptimization}
-                  className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
-                  disabled={(input || "").trim() === ""}
-                >
-                  Find Optimal Settings
-                </button>
+                {engine.parameters.length > 0 && (
+                  <button
+                    onClick={startOptimization}
+                    className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+                    disabled={(input || "").trim() === ""}
+                  >
+                    Find Optimal Settings
+                  </button>
+                )}
                 {selectedEncoder === "crusher" && (
                   <button
                     onClick={findBestHeuristic}
@@ -695,6 +505,7 @@ export default function CrusherPreview() {
                     isOptimizing
                       ? stopOptimization
                       : () => {
+                          heuristicAbortRef.current?.abort()
                           setIsOptimizingHeuristic(false)
                           setIsBranchSearching(false)
                         }
@@ -715,15 +526,13 @@ export default function CrusherPreview() {
           {packerData && (
             <div className="bg-gray-100 p-3 rounded">
               <p>Original size: {input.length} bytes</p>
-              <p>
-                Encoder:{" "}
-                {selectedEncoder === "crusher" ? "Crusher" : selectedEncoder === "replacer" ? "Replacer" : "RegPack"}
-              </p>
+              <p>Encoder: {engine.name}</p>
               <p>Output size: {output.length} bytes</p>
+              {output && <p>Zipped size: {getDeflater().zipSize(output, packerOptions.optimizeZip)} bytes</p>}
               <p>Compression ratio: {input.length ? ((output.length / input.length) * 100).toFixed(2) : "0"}%</p>
               <p>Savings: {input.length ? ((1 - output.length / input.length) * 100).toFixed(2) : "0"}%</p>
-              {selectedEncoder === "crusher" && <p>Heuristic: {selectedHeuristic}</p>}
-              {selectedEncoder === "replacer" && options.useBranchSearch && (
+              <TargetBudget output={output} />
+              {usesWorker && (
                 <p>
                   Branch search:{" "}
                   {isBranchSearching
@@ -733,7 +542,7 @@ export default function CrusherPreview() {
                       : "Complete"}
                 </p>
               )}
-              {selectedEncoder === "replacer" && (
+              {engine.capabilities.searchGraph && (
                 <p className="mt-2">
                   {packerData?.searchGraph ? (
                     <button
@@ -754,23 +563,15 @@ export default function CrusherPreview() {
                 <>
                   <div className="mt-3 pt-3 border-t border-gray-300">
                     <p className="font-semibold">Comparison:</p>
-                    <p>RegPack size: {regpackOutput.length} bytes</p>
-                    <p>Replacer size: {replacerOutput.length} bytes</p>
-                    <p>
-                      Best encoder:{" "}
-                      {Math.min(
-                        output.length || Number.POSITIVE_INFINITY,
-                        regpackOutput.length || Number.POSITIVE_INFINITY,
-                        replacerOutput.length || Number.POSITIVE_INFINITY,
-                      ) === output.length
-                        ? selectedEncoder
-                        : Math.min(
-                              regpackOutput.length || Number.POSITIVE_INFINITY,
-                              replacerOutput.length || Number.POSITIVE_INFINITY,
-                            ) === regpackOutput.length
-                          ? "RegPack"
-                          : "Replacer"}
-                    </p>
+                    {comparison.map((entry) => (
+                      <p key={entry.id}>
+                        {entry.name} size:{" "}
+                        {entry.error
+                          ? `failed (${entry.error})`
+                          : `${entry.output.length} bytes, ${entry.zipped} zipped`}
+                      </p>
+                    ))}
+                    <p>Best encoder: {bestCompared ? bestCompared.name : "-"}</p>
                   </div>
                 </>
               )}
@@ -779,12 +580,23 @@ export default function CrusherPreview() {
                 <div className="mt-3 pt-3 border-t border-gray-300">
                   <p className="font-semibold">Optimization Results:</p>
                   <p>Best size: {optimizationResult.bestSize} bytes</p>
-                  <p>Best options:</p>
+                  <p>
+                    Evaluations: {optimizationResult.evaluations} ({optimizationResult.duplicates} duplicates,{" "}
+                    {optimizationResult.failures} failed, {optimizationResult.strategy})
+                  </p>
+                  {optimizationResult.fallbackReason && (
+                    <p className="text-red-600">
+                      Workers unavailable, the runs took place on the main thread: {optimizationResult.fallbackReason}
+                    </p>
+                  )}
+                  <p>Best options, by impact on the size:</p>
                   <ul className="text-sm ml-4">
-                    <li>Gain Factor: {optimizationResult.bestOptions.crushGainFactor}</li>
-                    <li>Length Factor: {optimizationResult.bestOptions.crushLengthFactor}</li>
-                    <li>Copies Factor: {optimizationResult.bestOptions.crushCopiesFactor}</li>
-                    <li>Tiebreaker Factor: {optimizationResult.bestOptions.crushTiebreakerFactor}</li>
+                    {optimizationResult.parameterImpact.map((impact) => (
+                      <li key={impact.name}>
+                        {impact.label}: {String(optimizationResult.bestOptions[impact.name])} (impact {impact.spread}{" "}
+                        bytes, best {impact.bestValue})
+                      </li>
+                    ))}
                   </ul>
                 </div>
               )}
@@ -795,11 +607,17 @@ export default function CrusherPreview() {
                   <p>Best size: {heuristicResult.size} bytes</p>
                 </div>
               )}
-              {workerResult && selectedEncoder === "replacer" && options.useBranchSearch && !isBranchSearching && (
+              {workerResult && usesWorker && !isBranchSearching && (
                 <div className="mt-3 pt-3 border-t border-gray-300">
                   <p className="font-semibold">Web Worker Results:</p>
-                  <p>Output size: {workerResult.length} bytes</p>
-                  <p>Memory-efficient search completed successfully</p>
+                  {isSuccessful(workerResult) ? (
+                    <>
+                      <p>Output size: {workerResult.length} bytes</p>
+                      <p>Memory-efficient search completed successfully</p>
+                    </>
+                  ) : (
+                    <p>Search failed: {workerResult.error?.message}</p>
+                  )}
                 </div>
               )}
             </div>
@@ -834,11 +652,19 @@ export default function CrusherPreview() {
               Details
             </button>
             <button
-              className={`px-4 py-2 ${activeTab === "pattern" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
-              onClick={() => setActiveTab("pattern")}
+              className={`px-4 py-2 ${activeTab === "events" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
+              onClick={() => setActiveTab("events")}
             >
-              Pattern View
+              Events
             </button>
+            {engine.capabilities.matchesLookup && (
+              <button
+                className={`px-4 py-2 ${activeTab === "pattern" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
+                onClick={() => setActiveTab("pattern")}
+              >
+                Pattern View
+              </button>
+            )}
             {comparisonMode && (
               <button
                 className={`px-4 py-2 ${activeTab === "comparison" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
@@ -847,7 +673,7 @@ export default function CrusherPreview() {
                 Comparison
               </button>
             )}
-            {selectedEncoder === "replacer" && packerData?.searchGraph && (
+            {engine.capabilities.searchGraph && packerData?.searchGraph && (
               <button
                 className="ml-auto px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded"
                 onClick={() => setShowSearchGraph(!showSearchGraph)}
@@ -873,6 +699,12 @@ export default function CrusherPreview() {
               </pre>
             )}
 
+            {activeTab === "events" && (
+              <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
+                <EventLogTable events={events} fileName={selectedEncoder + "-events"} />
+              </div>
+            )}
+
             {activeTab === "pattern" && patternView && (
               <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
                 <div dangerouslySetInnerHTML={{ __html: patternView.outerHTML }} />
@@ -882,16 +714,17 @@ export default function CrusherPreview() {
             {activeTab === "comparison" && comparisonMode && (
               <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
                 <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <h3 className="font-semibold mb-2">RegPack Output</h3>
-                    <pre className="text-xs p-2 bg-gray-50 rounded overflow-auto">{regpackOutput}</pre>
-                    <p className="mt-2">Size: {regpackOutput.length} bytes</p>
-                  </div>
-                  <div>
-                    <h3 className="font-semibold mb-2">Replacer Output</h3>
-                    <pre className="text-xs p-2 bg-gray-50 rounded overflow-auto">{replacerOutput}</pre>
-                    <p className="mt-2">Size: {replacerOutput.length} bytes</p>
-                  </div>
+                  {comparison.map((entry) => (
+                    <div key={entry.id}>
+                      <h3 className="font-semibold mb-2">{entry.name} Output</h3>
+                      <pre className="text-xs p-2 bg-gray-50 rounded overflow-auto">{entry.output}</pre>
+                      <p className="mt-2">
+                        {entry.error
+                          ? `Failed: ${entry.error}`
+                          : `Size: ${entry.output.length} bytes (${entry.zipped} zipped)`}
+                      </p>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -925,7 +758,7 @@ export default function CrusherPreview() {
   .depth7 { background-color: #1890ff; border-bottom: 1px solid #003a8c; color: #ffffff; }
   .depth8 { background-color: #096dd9; border-bottom: 1px solid #002766; color: #ffffff; }
   .depth9 { background-color: #0050b3; border-bottom: 1px solid #001d66; color: #ffffff; }
-  
+
   /* Add hover effects */
   span[class^="depth"]:hover {
     filter: brightness(1.1);
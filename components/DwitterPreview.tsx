@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useInputStore } from "@/store/useInputStore"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS } from "../types"
+import { isSuccessful } from "../utils/PackerStatus"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+
+// Canvas given to a dweet
+const WIDTH = 1920
+const HEIGHT = 1080
+// Frames run by the comparison, the pixels being compared every COMPARED_FRAME_STEP frames
+const COMPARED_FRAMES = 120
+const COMPARED_FRAME_STEP = 10
+
+const FRAME_DOCUMENT = `<body style="margin:0;overflow:hidden;background:#fff"><canvas width="${WIDTH}" height="${HEIGHT}" style="width:100%"></canvas></body>`
+
+type Dweet = (t: number) => void
+
+/**
+ * Window of a frame, holding the globals of Dwitter and the dweet defined as u(t)
+ */
+interface DwitterWindow extends Window {
+  c: HTMLCanvasElement
+  x: CanvasRenderingContext2D
+  S: (angle: number) => number
+  C: (angle: number) => number
+  T: (angle: number) => number
+  R: (r: number, g: number, b: number, a?: number) => string
+  u: Dweet
+  Math: Math
+  eval: (code: string) => unknown
+}
+
+/**
+ * Small seeded generator (mulberry32), standing for Math.random in both frames
+ */
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let r = Math.imul(seed ^ (seed >>> 15), seed | 1)
+    r ^= r + Math.imul(r ^ (r >>> 7), r | 61)
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Gives a frame the globals of Dwitter (c, x, S, C, T, R) and defines the dweet in it as u(t).
+ * Math.random is seeded, so that the original and the packed dweet draw the same frames.
+ */
+function loadDweet(frame: HTMLIFrameElement, code: string): Dweet {
+  const win = frame.contentWindow as DwitterWindow
+  const canvas = win.document.querySelector("canvas")!
+  win.c = canvas
+  win.x = canvas.getContext("2d")!
+  win.S = win.Math.sin
+  win.C = win.Math.cos
+  win.T = win.Math.tan
+  win.R = (r: number, g: number, b: number, a = 1) => `rgba(${r | 0},${g | 0},${b | 0},${a})`
+  win.Math.random = seededRandom(1)
+  win.eval("function u(t){" + code + "\n}")
+  return (t) => win.u(t)
+}
+
+/**
+ * Pixels of the canvas of a frame, at its current size (a dweet may resize it)
+ */
+function readPixels(frame: HTMLIFrameElement): Uint8ClampedArray {
+  const canvas = (frame.contentWindow as DwitterWindow).c
+  return canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height).data
+}
+
+function samePixels(a: Uint8ClampedArray, b: Uint8ClampedArray): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; ++i) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+/**
+ * Dwitter tab : packs the dweet, lists the size of every candidate, and runs the original and the packed dweet
+ * side by side, each in a frame of its own, to check that they draw the same frames
+ */
+export default function DwitterPreview() {
+  const { globalInput, setGlobalInput } = useInputStore()
+  const input = globalInput
+
+  const [candidates, setCandidates] = useState<Array<{ name: string; size: number; details: string; error?: string }>>(
+    [],
+  )
+  const [output, setOutput] = useState("")
+  const [details, setDetails] = useState("")
+  const [playing, setPlaying] = useState(false)
+  // Bumped to reload both frames, restarting the dweets from the first frame
+  const [runId, setRunId] = useState(0)
+  const [loaded, setLoaded] = useState(0)
+  const [comparison, setComparison] = useState("")
+  const [frameError, setFrameError] = useState("")
+
+  const originalFrameRef = useRef<HTMLIFrameElement>(null)
+  const packedFrameRef = useRef<HTMLIFrameElement>(null)
+  const dweetsRef = useRef<{ original: Dweet; packed: Dweet } | null>(null)
+  const frameCountRef = useRef(0)
+  const compareOnLoadRef = useRef(false)
+
+  // Pack the dweet
+  useEffect(() => {
+    if (!input || input.trim() === "") {
+      setCandidates([])
+      setOutput("")
+      setDetails("")
+      return
+    }
+    const options = applyTargetPreset(DEFAULT_PACKER_OPTIONS, getTargetPreset("dwitter"))
+    const packerDataList = getEngineRegistry().get("dwitter").create().runPacker(input, options)
+    setCandidates(
+      packerDataList.map((packerData) => {
+        const result = packerData.result[0]
+        return {
+          name: packerData.name,
+          size: result.length,
+          details: result.details,
+          error: isSuccessful(result) ? undefined : result.error?.message,
+        }
+      }),
+    )
+    const best = PackerData.getBest(packerDataList)
+    setOutput(isSuccessful(best.result[0]) ? best.result[0].output : "")
+    setDetails(best.result[0]?.details ?? "")
+    setRunId((id) => id + 1)
+  }, [input])
+
+  // Both frames reloaded : define the dweets in them
+  useEffect(() => {
+    if (loaded < 2 || !originalFrameRef.current || !packedFrameRef.current) return
+    frameCountRef.current = 0
+    try {
+      dweetsRef.current = {
+        original: loadDweet(originalFrameRef.current, input),
+        packed: loadDweet(packedFrameRef.current, output),
+      }
+      setFrameError("")
+    } catch (error) {
+      dweetsRef.current = null
+      setFrameError(error instanceof Error ? error.message : String(error))
+      return
+    }
+    if (compareOnLoadRef.current) {
+      compareOnLoadRef.current = false
+      compareFrames()
+    } else {
+      drawFrame()
+    }
+  }, [loaded])
+
+  // Animation, both dweets receiving the same t
+  useEffect(() => {
+    if (!playing || loaded < 2) return
+    let request = 0
+    const step = () => {
+      if (drawFrame()) request = requestAnimationFrame(step)
+    }
+    request = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(request)
+  }, [playing, loaded])
+
+  /**
+   * Draws the next frame of both dweets, returns false if one of them threw
+   */
+  const drawFrame = (): boolean => {
+    const dweets = dweetsRef.current
+    if (!dweets) return false
+    const t = frameCountRef.current++ / 60
+    try {
+      dweets.original(t)
+      dweets.packed(t)
+      return true
+    } catch (error) {
+      setFrameError("Frame " + (frameCountRef.current - 1) + ": " + (error instanceof Error ? error.message : error))
+      setPlaying(false)
+      return false
+    }
+  }
+
+  /**
+   * Runs both dweets from the first frame, comparing their pixels every few frames
+   */
+  const compareFrames = () => {
+    const originalFrame = originalFrameRef.current
+    const packedFrame = packedFrameRef.current
+    if (!originalFrame || !packedFrame) return
+    for (let frame = 0; frame < COMPARED_FRAMES; ++frame) {
+      if (!drawFrame()) {
+        setComparison("Stopped at frame " + frame + ", a dweet threw")
+        return
+      }
+      if (frame % COMPARED_FRAME_STEP === 0 && !samePixels(readPixels(originalFrame), readPixels(packedFrame))) {
+        setComparison("The frames differ from frame " + frame + " (t = " + (frame / 60).toFixed(2) + ")")
+        return
+      }
+    }
+    setComparison("Same pixels on the " + COMPARED_FRAMES + " frames compared")
+  }
+
+  // Reload both frames, then compare them once the dweets are defined again
+  const startComparison = () => {
+    setPlaying(false)
+    setComparison("Comparing...")
+    compareOnLoadRef.current = true
+    setRunId((id) => id + 1)
+  }
+
+  // Reloading the frames resets the globals the dweets left behind
+  useEffect(() => {
+    setLoaded(0)
+  }, [runId])
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h2 className="text-lg font-semibold mb-2">Dweet</h2>
+          <p className="text-xs text-gray-500 mb-1">
+            Body of u(t), with c (canvas), x (2D context), S, C, T (Math.sin, cos, tan) and R (rgba) provided
+          </p>
+          <textarea
+            value={input}
+            onChange={(e) => setGlobalInput(e.target.value)}
+            className="w-full h-32 p-2 border rounded font-mono text-sm"
+            placeholder="c.width|=0;for(i=0;i<300;i++)x.fillRect(960+S(i+t)*i*2,540+C(i+t)*i,9,9)"
+          />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold mb-2">Packed dweet</h2>
+          <textarea value={output} readOnly className="w-full h-32 p-2 border rounded font-mono text-sm" />
+          <pre className="text-xs whitespace-pre-wrap">{details}</pre>
+        </div>
+      </div>
+
+      {candidates.length > 0 && (
+        <div className="bg-gray-100 p-3 rounded text-sm">
+          {candidates.map((candidate) => (
+            <p key={candidate.name}>
+              {candidate.name}: {candidate.error ? `failed (${candidate.error})` : `${candidate.size} characters`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={() => setPlaying(!playing)}
+          className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded"
+          disabled={!output}
+        >
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button
+          onClick={() => setRunId((id) => id + 1)}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded"
+          disabled={!output}
+        >
+          Restart
+        </button>
+        <button
+          onClick={startComparison}
+          className="bg-purple-500 hover:bg-purple-600 text-white px-4 py-2 rounded"
+          disabled={!output}
+        >
+          Compare Frames
+        </button>
+      </div>
+      {comparison && <p className="text-sm">{comparison}</p>}
+      {frameError && <p className="text-sm text-red-600">{frameError}</p>}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <h3 className="font-semibold mb-2">Original</h3>
+          <iframe
+            key={"original" + runId}
+            ref={originalFrameRef}
+            srcDoc={FRAME_DOCUMENT}
+            onLoad={() => setLoaded((count) => count + 1)}
+            className="w-full aspect-video border"
+            title="Original dweet"
+          />
+        </div>
+        <div>
+          <h3 className="font-semibold mb-2">Packed</h3>
+          <iframe
+            key={"packed" + runId}
+            ref={packedFrameRef}
+            srcDoc={FRAME_DOCUMENT}
+            onLoad={() => setLoaded((count) => count + 1)}
+            className="w-full aspect-video border"
+            title="Packed dweet"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
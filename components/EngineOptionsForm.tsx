@@ -0,0 +1,100 @@
+"use client"
+
+import type { ParameterDefinition, ParameterSchema, ParameterValue } from "../models/ParameterSchema"
+import type { PackerOptions } from "../types"
+
+interface EngineOptionsFormProps {
+  schema: ParameterSchema
+  options: PackerOptions
+  onChange: (name: keyof PackerOptions, value: ParameterValue) => void
+  disabled?: boolean
+}
+
+/**
+ * Option form generated from the option schema of an engine : a number field per range,
+ * a drop-down list per enum and a checkbox per flag
+ */
+export default function EngineOptionsForm({ schema, options, onChange, disabled }: EngineOptionsFormProps) {
+  const fields = schema.filter((definition) => definition.type !== "boolean")
+  const flags = schema.filter((definition) => definition.type === "boolean")
+
+  const renderField = (definition: ParameterDefinition) => {
+    const value = options[definition.name] as ParameterValue | undefined
+    if (definition.type === "enum") {
+      return (
+        <select
+          name={definition.name}
+          value={value === undefined ? "" : String(value)}
+          onChange={(e) => {
+            // Enum values keep their type : numbers are not sent back as strings
+            const selected = definition.values.find((option) => String(option) === e.target.value)
+            if (selected !== undefined) onChange(definition.name, selected)
+          }}
+          className="w-full mt-1 p-2 border rounded"
+          disabled={disabled}
+        >
+          {value === undefined && <option value="">Default</option>}
+          {definition.values.map((option) => (
+            <option key={String(option)} value={String(option)}>
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    if (definition.type === "range") {
+      return (
+        <input
+          type="number"
+          name={definition.name}
+          value={value === undefined || Number.isNaN(value) ? "" : String(value)}
+          onChange={(e) => onChange(definition.name, e.target.value === "" ? 0 : Number.parseFloat(e.target.value) || 0)}
+          min={definition.min}
+          max={definition.max}
+          step={definition.integer ? 1 : 0.1}
+          className="w-full mt-1 p-2 border rounded"
+          disabled={disabled}
+        />
+      )
+    }
+    return null
+  }
+
+  return (
+    <>
+      {fields.length > 0 && (
+        <div className="grid grid-cols-2 gap-4">
+          {fields.map((definition) => (
+            <div key={definition.name}>
+              <label className="block text-sm font-medium mb-1">
+                {definition.label}
+                {definition.type === "range" && (
+                  <span className="text-xs text-gray-500">
+                    {" "}
+                    ({definition.min}-{definition.max})
+                  </span>
+                )}
+                {renderField(definition)}
+              </label>
+            </div>
+          ))}
+        </div>
+      )}
+      {flags.map((definition) => (
+        <div key={definition.name} className="mt-2">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              name={definition.name}
+              checked={Boolean(options[definition.name])}
+              onChange={(e) => onChange(definition.name, e.target.checked)}
+              className="mr-2"
+              disabled={disabled}
+            />
+            <span className="text-sm font-medium">{definition.label}</span>
+          </label>
+        </div>
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useState } from "react"
+import type { PackerEvent } from "../types"
+
+interface EventLogTableProps {
+  events: PackerEvent[]
+  // Name of the exported file, without extension
+  fileName?: string
+}
+
+// Columns of the table, each event filling the ones that apply to it
+const COLUMNS = ["#", "Event", "Token", "String", "Gain", "Copies", "Score", "Info"] as const
+type Column = (typeof COLUMNS)[number]
+type Cell = string | number | undefined
+
+/**
+ * Cells of an event, by column
+ */
+function toRow(event: PackerEvent, index: number): Record<Column, Cell> {
+  const row: Record<Column, Cell> = {
+    "#": index + 1,
+    Event: event.type,
+    Token: undefined,
+    String: undefined,
+    Gain: undefined,
+    Copies: undefined,
+    Score: undefined,
+    Info: undefined,
+  }
+  switch (event.type) {
+    case "token-assigned":
+      return {
+        ...row,
+        Token: event.token,
+        String: event.string,
+        Gain: event.gain,
+        Copies: event.copies,
+        Score: event.score,
+      }
+    case "candidate-rejected":
+      return {
+        ...row,
+        String: event.string,
+        Gain: event.gain,
+        Copies: event.copies,
+        Score: event.score,
+        Info: event.reason,
+      }
+    case "near-miss":
+      return {
+        ...row,
+        String: event.string,
+        Gain: event.gain,
+        Copies: event.copies,
+        Score: event.score,
+        Info: `gain ${event.gainWithOneMore} with one more copy`,
+      }
+    case "range-chosen":
+      return { ...row, Token: event.charClass, Info: `${event.first}-${event.last}, ${event.cost} chars` }
+    case "verification":
+      return { ...row, Info: event.message }
+    case "stage-timing":
+      return { ...row, Info: `${event.stage} : ${event.duration} ms` }
+  }
+}
+
+/**
+ * Event log of a result as a table : a click on a header sorts the rows by that column,
+ * the export button saves the events as JSON
+ */
+export default function EventLogTable({ events, fileName = "events" }: EventLogTableProps) {
+  const [sort, setSort] = useState<{ column: Column; ascending: boolean }>({ column: "#", ascending: true })
+
+  const rows = events.map(toRow)
+  rows.sort((a, b) => {
+    const x = a[sort.column]
+    const y = b[sort.column]
+    // Empty cells go last in both directions
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1
+    const order = typeof x === "number" && typeof y === "number" ? x - y : String(x).localeCompare(String(y))
+    return sort.ascending ? order : -order
+  })
+
+  const sortBy = (column: Column) =>
+    setSort((prev) => ({ column, ascending: prev.column === column ? !prev.ascending : true }))
+
+  const exportJSON = () => {
+    const blob = new Blob([JSON.stringify(events, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName + ".json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (events.length === 0) {
+    return <p className="text-gray-500">No events recorded</p>
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm text-gray-600">{events.length} events</span>
+        <button onClick={exportJSON} className="bg-gray-200 hover:bg-gray-300 px-3 py-1 rounded text-sm">
+          Export JSON
+        </button>
+      </div>
+      <table className="w-full text-xs font-mono border-collapse">
+        <thead>
+          <tr>
+            {COLUMNS.map((column) => (
+              <th
+                key={column}
+                onClick={() => sortBy(column)}
+                className="text-left border-b p-1 cursor-pointer select-none whitespace-nowrap"
+              >
+                {column}
+                {sort.column === column ? (sort.ascending ? " ▲" : " ▼") : ""}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row["#"]} className="border-b hover:bg-gray-50">
+              {COLUMNS.map((column) => (
+                <td key={column} className="p-1 align-top whitespace-pre-wrap break-all">
+                  {row[column] ?? ""}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
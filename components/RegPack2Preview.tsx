@@ -5,15 +5,20 @@ import { useState, useEffect, useRef } from "react"
 import { SlowPack } from "../models/SlowPack"
 import { PatternViewer } from "./PatternViewer"
 import SearchGraphVisualizer from "./SearchGraphVisualizer"
-import type { PackerData } from "../models/PackerData"
+import { PackerData } from "../models/PackerData"
 import type { PackerOptions } from "../types"
-import { getByteCount } from "../utils/StringHelper"
+import { getCostModel } from "../utils/CostModel"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+import TargetBudget from "./TargetBudget"
 import { useInputStore } from "@/store/useInputStore"
+import { useTargetStore } from "@/store/useTargetStore"
+import EventLogTable from "./EventLogTable"
 
 export default function RegPack2Preview() {
   const { globalInput, setGlobalInput } = useInputStore()
   const input = globalInput
   const setInput = setGlobalInput
+  const { target } = useTargetStore()
 
   const [output, setOutput] = useState("")
   const [details, setDetails] = useState("")
@@ -26,6 +31,9 @@ export default function RegPack2Preview() {
     crushCopiesFactor: 1,
     crushTiebreakerFactor: 1,
   })
+  // Options the worker runs with : the selected target overrides the objective and the decoders
+  const packerOptions = target ? applyTargetPreset(options, getTargetPreset(target)) : options
+  const costModel = getCostModel(packerOptions.costTarget)
   const [packerData, setPackerData] = useState<PackerData | null>(null)
   const [patternView, setPatternView] = useState<HTMLElement | null>(null)
   const [activeTab, setActiveTab] = useState("output")
@@ -73,14 +81,16 @@ export default function RegPack2Preview() {
                 setProgressMessage(progress.message)
                 if (progress.details) setProgressDetails(progress.details)
             } else if (type === "result") {
-                setPackerData(data[0])
+                // Keep the smallest of the preprocessed variants
+                const best = PackerData.getBest(data)
+                setPackerData(best)
                  // Process results
-                if (data[0].result && data[0].result.length >= 2 && data[0].result[1]) {
-                    setOutput(data[0].result[1].output || "")
-                    setDetails(data[0].result[1].details || "")
-                } else if (data[0].result && data[0].result.length >= 1 && data[0].result[0]) {
-                    setOutput(data[0].result[0].output || "")
-                    setDetails(data[0].result[0].details || "")
+                if (best.result && best.result.length >= 2 && best.result[1]) {
+                    setOutput(best.result[1].output || "")
+                    setDetails(best.result[1].details || "")
+                } else if (best.result && best.result.length >= 1 && best.result[0]) {
+                    setOutput(best.result[0].output || "")
+                    setDetails(best.result[0].details || "")
                 } else {
                     setOutput("")
                     setDetails("Error: No valid output generated")
@@ -92,9 +102,9 @@ export default function RegPack2Preview() {
 
                 // Generate pattern view
                 try {
-                    if (data[0].matchesLookup) {
+                    if (best.matchesLookup) {
                         const patternViewer = new PatternViewer()
-                        const patternElement = patternViewer.render(input, data[0].matchesLookup)
+                        const patternElement = patternViewer.render(best.contents, best.matchesLookup)
                         setPatternView(patternElement)
                     } else {
                         setPatternView(null)
@@ -115,7 +125,7 @@ export default function RegPack2Preview() {
         worker.postMessage({
             type: "init",
             input,
-            options
+            options: packerOptions
         })
         
     } catch (e) {
@@ -134,6 +144,16 @@ export default function RegPack2Preview() {
     }))
   }
 
+  const handleCountCharactersChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const costTarget = e.target.checked ? "codepoints" : undefined
+    setOptions((prev) => ({ ...prev, costTarget }))
+  }
+
+  const handleVarsNotReassignedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const letters = e.target.value.replace(/[^a-zA-Z]/g, "")
+    setOptions((prev) => ({ ...prev, varsNotReassigned: [...new Set(letters)] }))
+  }
+
   const toggleSearchGraph = () => {
     setShowSearchGraph(!showSearchGraph)
   }
@@ -242,6 +262,69 @@ export default function RegPack2Preview() {
               />
               <span className="text-sm font-medium">Use ES6 Features</span>
             </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="costTarget"
+                checked={options.costTarget === "codepoints"}
+                onChange={handleCountCharactersChange}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium">Count characters instead of bytes (non-ASCII tokens)</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="reassignVars"
+                checked={options.reassignVars || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium">Reassign variable names</span>
+            </label>
+            {options.reassignVars && (
+              <label className="block text-sm font-medium ml-6">
+                Variables not reassigned
+                <input
+                  type="text"
+                  name="varsNotReassigned"
+                  value={(options.varsNotReassigned || []).join("")}
+                  onChange={handleVarsNotReassignedChange}
+                  placeholder="e.g. abc"
+                  className="w-full mt-1 p-2 border rounded font-mono"
+                />
+              </label>
+            )}
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hash2DContext"
+                checked={options.hash2DContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium">Hash 2D context methods</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hashWebGLContext"
+                checked={options.hashWebGLContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium">Hash WebGL context methods</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hashAudioContext"
+                checked={options.hashAudioContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+              />
+              <span className="text-sm font-medium">Hash AudioContext methods</span>
+            </label>
             <label className="flex items-center">
               <input
                 type="checkbox"
@@ -262,10 +345,11 @@ export default function RegPack2Preview() {
           <h2 className="text-lg font-semibold mb-2">Statistics</h2>
           {packerData && (
             <div className="bg-gray-100 p-3 rounded">
-              <p>Original size: {getByteCount(input)} bytes</p>
-              <p>Packed size: {getByteCount(output)} bytes</p>
-              <p>Compression ratio: {getByteCount(input) ? ((getByteCount(output) / getByteCount(input)) * 100).toFixed(2) : "0"}%</p>
-              <p>Savings: {getByteCount(input) ? ((1 - getByteCount(output) / getByteCount(input)) * 100).toFixed(2) : "0"}%</p>
+              <p>Original size: {costModel.measure(input)} {costModel.unit}</p>
+              <p>Packed size: {costModel.measure(output)} {costModel.unit}</p>
+              <p>Compression ratio: {costModel.measure(input) ? ((costModel.measure(output) / costModel.measure(input)) * 100).toFixed(2) : "0"}%</p>
+              <p>Savings: {costModel.measure(input) ? ((1 - costModel.measure(output) / costModel.measure(input)) * 100).toFixed(2) : "0"}%</p>
+              <TargetBudget output={output} />
               <p>Beam width: {options.beamWidth || 5}</p>
               {searchGraphData && (
                 <div className="mt-2">
@@ -310,6 +394,12 @@ export default function RegPack2Preview() {
             >
               Details
             </button>
+            <button
+              className={`px-4 py-2 ${activeTab === "events" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
+              onClick={() => setActiveTab("events")}
+            >
+              Events
+            </button>
             <button
               className={`px-4 py-2 ${activeTab === "pattern" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
               onClick={() => setActiveTab("pattern")}
@@ -334,6 +424,12 @@ export default function RegPack2Preview() {
               </pre>
             )}
 
+            {activeTab === "events" && (
+              <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
+                <EventLogTable events={packerData ? PackerData.getEvents(packerData) : []} fileName="slowpack-events" />
+              </div>
+            )}
+
             {activeTab === "pattern" && patternView && (
               <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
                 <div dangerouslySetInnerHTML={{ __html: patternView.outerHTML }} />
@@ -5,25 +5,30 @@ import { useState, useEffect, useRef } from "react"
 import { RegPack } from "../models/RegPack"
 import { PackerOptimizer, type OptimizationResult } from "../models/PackerOptimizer"
 import { PatternViewer } from "./PatternViewer"
-import type { PackerData } from "../models/PackerData"
-import type { PackerOptions } from "../types"
-import { getByteCount } from "../utils/StringHelper"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS, type PackerOptions } from "../types"
+import { getDeflater } from "../utils/Deflate"
+import { getCostModel } from "../utils/CostModel"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+import TargetBudget from "./TargetBudget"
 import { useInputStore } from "@/store/useInputStore"
+import { useTargetStore } from "@/store/useTargetStore"
+import EventLogTable from "./EventLogTable"
 
 export default function RegPackPreview() {
   const { globalInput, setGlobalInput } = useInputStore()
   const input = globalInput
   const setInput = setGlobalInput
+  const { target } = useTargetStore()
   
   const [output, setOutput] = useState<string>("")
   const [details, setDetails] = useState<string>("")
-  const [options, setOptions] = useState<PackerOptions>({
-    crushGainFactor: 2,
-    crushLengthFactor: 1,
-    crushCopiesFactor: 0,
-    crushTiebreakerFactor: 1,
-    useES6: true,
-  })
+  const [options, setOptions] = useState<PackerOptions>({ ...DEFAULT_PACKER_OPTIONS })
+  // Options the packer runs with : the selected target overrides the objective and the decoders
+  const packerOptions = target ? applyTargetPreset(options, getTargetPreset(target)) : options
+  const costModel = getCostModel(packerOptions.costTarget)
+  // Unit of the sizes the optimizer ranks the runs by
+  const rankedUnit = packerOptions.objective === "zipped" ? "zipped bytes" : costModel.unit
   const [packerData, setPackerData] = useState<PackerData | null>(null)
   const [patternView, setPatternView] = useState<HTMLElement | null>(null)
   const [activeTab, setActiveTab] = useState("output")
@@ -49,18 +54,20 @@ export default function RegPackPreview() {
     try {
       setError(null)
       const regPack = regPackRef.current
-      const result = regPack.runPacker(input, options)
+      const result = regPack.runPacker(input, packerOptions)
 
       if (result && result.length > 0) {
-        setPackerData(result[0])
+        // Keep the smallest of the preprocessed variants
+        const best = PackerData.getBest(result)
+        setPackerData(best)
 
         // Process results
-        if (result[0].result && result[0].result.length >= 2 && result[0].result[1]) {
-          setOutput(result[0].result[1].output || "")
-          setDetails(result[0].result[1].details || "")
-        } else if (result[0].result && result[0].result.length >= 1 && result[0].result[0]) {
-          setOutput(result[0].result[0].output || "")
-          setDetails(result[0].result[0].details || "")
+        if (best.result && best.result.length >= 2 && best.result[1]) {
+          setOutput(best.result[1].output || "")
+          setDetails(best.result[1].details || "")
+        } else if (best.result && best.result.length >= 1 && best.result[0]) {
+          setOutput(best.result[0].output || "")
+          setDetails(best.result[0].details || "")
         } else {
           setOutput("")
           setDetails("Error: No valid output generated")
@@ -69,9 +76,9 @@ export default function RegPackPreview() {
 
         // Generate pattern view
         try {
-          if (result[0].matchesLookup) {
+          if (best.matchesLookup) {
             const patternViewer = new PatternViewer()
-            const patternElement = patternViewer.render(input, result[0].matchesLookup)
+            const patternElement = patternViewer.render(best.contents, best.matchesLookup)
             setPatternView(patternElement)
           } else {
             setPatternView(null)
@@ -93,7 +100,7 @@ export default function RegPackPreview() {
       setPatternView(null)
       setError(`Error: ${error instanceof Error ? error.message : String(error)}`)
     }
-  }, [input, options])
+  }, [input, options, target])
 
   const handleOptionChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value, type, checked } = e.target
@@ -103,6 +110,21 @@ export default function RegPackPreview() {
     }))
   }
 
+  const handleCountCharactersChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const costTarget = e.target.checked ? "codepoints" : undefined
+    setOptions((prev) => ({ ...prev, costTarget }))
+  }
+
+  const handleRankByZippedSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const objective = e.target.checked ? "zipped" : undefined
+    setOptions((prev) => ({ ...prev, objective }))
+  }
+
+  const handleVarsNotReassignedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const letters = e.target.value.replace(/[^a-zA-Z]/g, "")
+    setOptions((prev) => ({ ...prev, varsNotReassigned: [...new Set(letters)] }))
+  }
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const newValue = e.target.value
     setInput(newValue || "")
@@ -119,17 +141,22 @@ export default function RegPackPreview() {
     setError(null)
 
     try {
-      // Create a new optimizer with the RegPack instance
-      optimizerRef.current = new PackerOptimizer(regPackRef.current, input, (result) => {
-        setOptimizationProgress(result.progress)
-        setOptimizationResult(result)
-      })
+      // Create a new optimizer for RegPack, its runs are spread over the worker pool
+      optimizerRef.current = new PackerOptimizer(
+        "regpack",
+        input,
+        (result) => {
+          setOptimizationProgress(result.progress)
+          setOptimizationResult(result)
+        },
+        packerOptions,
+      )
 
       // Start the optimization process
       const result = await optimizerRef.current.findBestOptions()
 
       // Apply the best options
-      setOptions(result.bestOptions)
+      setOptions((prev) => ({ ...prev, ...result.bestOptions }))
       setOutput(result.bestOutput)
       setDetails(result.bestDetails)
     } catch (error) {
@@ -233,6 +260,88 @@ export default function RegPackPreview() {
               />
               <span className="text-sm font-medium">Use ES6 Features</span>
             </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="costTarget"
+                checked={options.costTarget === "codepoints"}
+                onChange={handleCountCharactersChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Count characters instead of bytes (non-ASCII tokens)</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="objective"
+                checked={options.objective === "zipped"}
+                onChange={handleRankByZippedSizeChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Rank by zipped size (js13k)</span>
+            </label>
+          </div>
+          <div className="mt-2">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="reassignVars"
+                checked={!!options.reassignVars}
+                onChange={handleOptionChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Reassign variable names</span>
+            </label>
+            {options.reassignVars && (
+              <label className="block text-sm font-medium mt-1">
+                Variables not reassigned
+                <input
+                  type="text"
+                  name="varsNotReassigned"
+                  value={(options.varsNotReassigned || []).join("")}
+                  onChange={handleVarsNotReassignedChange}
+                  placeholder="e.g. abc"
+                  className="w-full mt-1 p-2 border rounded font-mono"
+                  disabled={isOptimizing}
+                />
+              </label>
+            )}
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hash2DContext"
+                checked={options.hash2DContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Hash 2D context methods</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hashWebGLContext"
+                checked={options.hashWebGLContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Hash WebGL context methods</span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                name="hashAudioContext"
+                checked={options.hashAudioContext || false}
+                onChange={handleOptionChange}
+                className="mr-2"
+                disabled={isOptimizing}
+              />
+              <span className="text-sm font-medium">Hash AudioContext methods</span>
+            </label>
           </div>
 
           <div className="mt-4">
@@ -267,22 +376,37 @@ export default function RegPackPreview() {
           <h2 className="text-lg font-semibold mb-2">Statistics</h2>
           {packerData && hasValidInput ? (
             <div className="bg-gray-100 p-3 rounded">
-              <p>Original size: {getByteCount(input)} bytes</p>
-              <p>Packed size: {getByteCount(output)} bytes</p>
-              <p>Compression ratio: {getByteCount(input) ? ((getByteCount(output) / getByteCount(input)) * 100).toFixed(2) : "0"}%</p>
-              <p>Savings: {getByteCount(input) ? ((1 - getByteCount(output) / getByteCount(input)) * 100).toFixed(2) : "0"}%</p>
+              <p>Original size: {costModel.measure(input)} {costModel.unit}</p>
+              <p>Packed size: {costModel.measure(output)} {costModel.unit}</p>
+              <p>
+                Zipped size: {getDeflater().zipSize(output, options.optimizeZip)} bytes (original{" "}
+                {getDeflater().zipSize(input, options.optimizeZip)} bytes)
+              </p>
+              <p>Compression ratio: {costModel.measure(input) ? ((costModel.measure(output) / costModel.measure(input)) * 100).toFixed(2) : "0"}%</p>
+              <p>Savings: {costModel.measure(input) ? ((1 - costModel.measure(output) / costModel.measure(input)) * 100).toFixed(2) : "0"}%</p>
+              <TargetBudget output={output} />
 
               {optimizationResult && (
                 <div className="mt-3 pt-3 border-t border-gray-300">
                   <p className="font-semibold">Optimization Results:</p>
-                  <p>Best size: {optimizationResult.bestSize} bytes</p>
-                  <p>Best options:</p>
+                  <p>Best size: {optimizationResult.bestSize} {rankedUnit}</p>
+                  <p>
+                    Evaluations: {optimizationResult.evaluations} ({optimizationResult.duplicates} duplicates,{" "}
+                    {optimizationResult.failures} failed, {optimizationResult.strategy})
+                  </p>
+                  {optimizationResult.fallbackReason && (
+                    <p className="text-red-600">
+                      Workers unavailable, the runs took place on the main thread: {optimizationResult.fallbackReason}
+                    </p>
+                  )}
+                  <p>Best options, by impact on the size:</p>
                   <ul className="text-sm ml-4">
-                    <li>Gain Factor: {optimizationResult.bestOptions.crushGainFactor}</li>
-                    <li>Length Factor: {optimizationResult.bestOptions.crushLengthFactor}</li>
-                    <li>Copies Factor: {optimizationResult.bestOptions.crushCopiesFactor}</li>
-                    <li>Tiebreaker Factor: {optimizationResult.bestOptions.crushTiebreakerFactor}</li>
-                    <li>ES6: {optimizationResult.bestOptions.useES6 ? "Yes" : "No"}</li>
+                    {optimizationResult.parameterImpact.map((impact) => (
+                      <li key={impact.name}>
+                        {impact.label}: {String(optimizationResult.bestOptions[impact.name])} (impact {impact.spread}{" "}
+                        {rankedUnit}, best {impact.bestValue})
+                      </li>
+                    ))}
                   </ul>
                 </div>
               )}
@@ -321,6 +445,12 @@ export default function RegPackPreview() {
             >
               Details
             </button>
+            <button
+              className={`px-4 py-2 ${activeTab === "events" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
+              onClick={() => setActiveTab("events")}
+            >
+              Events
+            </button>
             <button
               className={`px-4 py-2 ${activeTab === "pattern" ? "border-b-2 border-blue-500 font-semibold" : ""}`}
               onClick={() => setActiveTab("pattern")}
@@ -345,6 +475,12 @@ export default function RegPackPreview() {
               </pre>
             )}
 
+            {activeTab === "events" && (
+              <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
+                <EventLogTable events={packerData ? PackerData.getEvents(packerData) : []} fileName="regpack-events" />
+              </div>
+            )}
+
             {activeTab === "pattern" && (
               <div className="w-full h-full min-h-[300px] p-3 border rounded overflow-auto">
                 {patternView ? (
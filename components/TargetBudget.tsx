@@ -0,0 +1,73 @@
+"use client"
+
+import { useTargetStore } from "@/store/useTargetStore"
+import { TARGET_PRESETS, getTargetPreset, measureBudget } from "../utils/TargetPresets"
+
+interface TargetBudgetProps {
+  // Packed entry measured against the selected target
+  output: string
+}
+
+/**
+ * Size of the packed entry against the limit of the selected target : a bar filled up to the size,
+ * red once the entry is over the limit. Renders nothing when no target is selected.
+ */
+export default function TargetBudget({ output }: TargetBudgetProps) {
+  const { target } = useTargetStore()
+  if (!target || !output) return null
+
+  const preset = getTargetPreset(target)
+  const budget = measureBudget(output, preset)
+  if (!Number.isFinite(budget.limit)) {
+    return (
+      <p>
+        {preset.name}: {budget.size} {budget.unit}, no limit
+      </p>
+    )
+  }
+
+  const isOver = budget.remaining < 0
+  return (
+    <div className="mt-2">
+      <p className={isOver ? "text-red-600 font-medium" : ""}>
+        {preset.name} budget: {budget.size} / {budget.limit} {budget.unit},{" "}
+        {isOver ? `${-budget.remaining} over the limit` : `${budget.remaining} left`}
+      </p>
+      <div className="w-full bg-gray-200 rounded-full h-2.5">
+        <div
+          className={(isOver ? "bg-red-600" : "bg-green-600") + " h-2.5 rounded-full"}
+          style={{ width: `${Math.min(1, budget.size / budget.limit) * 100}%` }}
+        ></div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Drop-down list selecting the target preset shared by all the tabs
+ */
+export function TargetSelector() {
+  const { target, setTarget } = useTargetStore()
+  const selected = target ? getTargetPreset(target) : null
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium mb-1">
+        Target
+        <select
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="w-full mt-1 p-2 border rounded"
+        >
+          <option value="">None</option>
+          {TARGET_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selected && <p className="text-xs text-gray-500">{selected.description}</p>}
+    </div>
+  )
+}
@@ -6,7 +6,7 @@ export const DEFAULT_CONFIG = {
   maxPatterns: 100,
   lookAheadDepth: 2,
   enabledOptimizations: true,
-  compressionLevel: "medium", // 'low', 'medium', 'high'
+  target: "", // Id of the target preset selected at startup (see utils/TargetPresets), empty for none
   useWorkers: true,
   debugMode: false,
 }
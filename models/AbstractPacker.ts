@@ -1,4 +1,7 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type OccurrenceCounter, getOccurrenceCounter } from "../utils/OccurrenceCounter"
+import { RepeatIndex } from "../utils/RepeatIndex"
 import type { PackerData } from "./PackerData"
 import type { PackerOptions } from "../types"
 
@@ -8,6 +11,8 @@ import type { PackerOptions } from "../types"
  */
 export abstract class AbstractPacker {
   protected stringHelper: StringHelper
+  protected costModel: CostModel
+  protected occurrenceCounter: OccurrenceCounter
 
   // Common configuration for search strategies
   protected maxBranchingFactor = 5 // Maximum number of branches to explore at each level
@@ -16,6 +21,8 @@ export abstract class AbstractPacker {
 
   constructor() {
     this.stringHelper = StringHelper.getInstance()
+    this.costModel = getCostModel()
+    this.occurrenceCounter = getOccurrenceCounter()
   }
 
   /**
@@ -26,20 +33,6 @@ export abstract class AbstractPacker {
    */
   public abstract runPacker(input: string, options: PackerOptions): PackerData[]
 
-  /**
-   * Returns the total byte length of a string "as is" (with no further escaping)
-   */
-  protected getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
-  }
-
-  /**
-   * Returns the byte length of a string after escaping
-   */
-  protected getEscapedByteLength(inString: string): number {
-    return this.getByteLength(inString.replace(/\\/g, "\\\\"))
-  }
-
   /**
    * Escape special characters in a string for use in a regular expression
    */
@@ -53,30 +46,9 @@ export abstract class AbstractPacker {
   protected findAllPotentialMatches(s: string): Record<string, number> {
     const matches: Record<string, number> = {}
 
-    // Find all substrings that appear at least twice
-    let found = true
-    for (let t = 2; found; ++t) {
-      found = false
-      for (let i = 0; i < s.length - t; ++i) {
-        const beginCode = s.charCodeAt(i)
-        const endCode = s.charCodeAt(i + t - 1)
-
-        // If the first character is a low surrogate or the last character is a high surrogate, skip it
-        if ((beginCode < 0xdc00 || beginCode > 0xdfff) && (endCode < 0xd800 || endCode > 0xdbff)) {
-          const x = s.substr(i, t)
-          if (!matches[x]) {
-            let j = s.indexOf(x, i + t)
-            if (j !== -1) {
-              found = true
-              matches[x] = 1
-              while (j !== -1) {
-                matches[x]++
-                j = s.indexOf(x, j + t)
-              }
-            }
-          }
-        }
-      }
+    // Find the maximal repeats, appearing at least twice
+    for (const repeat of new RepeatIndex(s).findRepeats()) {
+      matches[repeat.string] = repeat.count
     }
 
     return matches
@@ -102,12 +74,7 @@ export abstract class AbstractPacker {
       const updatedPattern = pattern.split(replacedPattern).join(token)
 
       // Count occurrences in the new string
-      let count = 0
-      let pos = -1
-      while ((pos = newString.indexOf(updatedPattern, pos + 1)) !== -1) {
-        count++
-      }
-
+      const count = this.occurrenceCounter.count(newString, updatedPattern)
       if (count >= 2) {
         newMatches[updatedPattern] = count
       }
@@ -122,12 +89,7 @@ export abstract class AbstractPacker {
         if (newMatches[pattern] !== undefined) continue
 
         // Count occurrences
-        let count = 0
-        let pos = -1
-        while ((pos = newString.indexOf(pattern, pos + 1)) !== -1) {
-          count++
-        }
-
+        const count = this.occurrenceCounter.count(newString, pattern)
         if (count >= 2) {
           newMatches[pattern] = count
         }
@@ -152,7 +114,8 @@ export abstract class AbstractPacker {
    * Calculate the score for a pattern using the provided options
    */
   protected calculateScore(pattern: string, copies: number, options: PackerOptions): { gain: number; score: number } {
-    const patternLength = this.getEscapedByteLength(pattern)
+    this.costModel = getCostModel(options.costTarget)
+    const patternLength = this.costModel.measureEscaped(pattern)
     const gain = copies * patternLength - copies - patternLength - 2
 
     if (gain <= 0) {
@@ -1,6 +1,11 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
 import { PackerData } from "./PackerData"
-import type { PackerOptions, PackerResult, Match } from "../types"
+import type { PackerEvent, PackerOptions, PackerResult, Match } from "../types"
+import { verificationEvent } from "../utils/PackerEvents"
+import { verifiedResult } from "../utils/PackerStatus"
 import { PatternAnalyzer } from "./PatternAnalyzer"
 import { GainPredictor } from "./GainPredictor"
 
@@ -18,8 +23,50 @@ interface State {
   lastGain: number
 }
 
+/**
+ * State explored by a search, drawn by the search graph visualizer
+ */
+export interface SearchGraphNode {
+  id: string
+  text: string
+  replacements: string[]
+  size: number
+  depth: number
+  totalGain?: number
+  isBestSolution?: boolean
+  predictedGain?: number
+  // Branch search : whether the state was kept in the beam, and its rank there
+  inBeam?: boolean
+  beamRank?: number
+}
+
+/**
+ * Replacement leading from a state to the next one
+ */
+export interface SearchGraphEdge {
+  source: string
+  target: string
+  pattern: string
+  gain: number
+  predictedGain?: number
+}
+
+/**
+ * States explored by a search engine, and the path to the best one
+ */
+export interface SearchGraph {
+  nodes: SearchGraphNode[]
+  edges: SearchGraphEdge[]
+  maxDepth: number
+  // Ids of the nodes on the path to the best solution
+  bestPath: string[]
+}
+
 export class BeamSearchSolver {
   private stringHelper: StringHelper
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
   private patternAnalyzer: PatternAnalyzer
   private gainPredictor: GainPredictor
   private maxBeamWidth = 5
@@ -27,41 +74,21 @@ export class BeamSearchSolver {
   private lookAheadDepth = 150
   private maxReplacements = 100
 
-  private searchGraph: {
-    nodes: Array<{
-      id: string
-      text: string
-      replacements: string[]
-      size: number
-      depth: number
-      isBestSolution?: boolean
-      predictedGain?: number
-    }>
-    edges: Array<{
-      source: string
-      target: string
-      pattern: string
-      gain: number
-      predictedGain?: number
-    }>
-    maxDepth: number
-    bestPath: string[]
-  } = { nodes: [], edges: [], maxDepth: 0, bestPath: [] }
+  private searchGraph: SearchGraph = { nodes: [], edges: [], maxDepth: 0, bestPath: [] }
 
   constructor() {
     this.stringHelper = StringHelper.getInstance()
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
     this.patternAnalyzer = new PatternAnalyzer()
     this.gainPredictor = new GainPredictor()
   }
 
-  public getSearchGraph() {
+  public getSearchGraph(): SearchGraph {
     return this.searchGraph
   }
 
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
-  }
-
   private sortCandidates(candidates: State[], options: PackerOptions): void {
     candidates.sort((a, b) => {
       if (options.prioritizeHighestGain) {
@@ -92,6 +119,8 @@ export class BeamSearchSolver {
   }
 
   public findOptimalReplacements(packerData: PackerData, options: PackerOptions): PackerResult {
+    this.costModel = getCostModel(options.costTarget)
+    this.patternAnalyzer.setCostModel(this.costModel)
     this.searchGraph = { nodes: [], edges: [], maxDepth: 0, bestPath: [] }
     this.gainPredictor.clearCache()
 
@@ -101,17 +130,12 @@ export class BeamSearchSolver {
 
     let s = packerData.contents
     packerData.matchesLookup = []
-    let details = ""
+    let details = packerData.log
 
     const delimiterCode = packerData.packedStringDelimiter.charCodeAt(0)
-    const Q: string[] = []
-    for (let i = 1; i < 127; i++) {
-      if (i !== 96 && i !== 13 && i !== delimiterCode && i !== 92) {
-        Q.push(String.fromCharCode(i))
-      }
-    }
+    const Q = this.stringHelper.getTokenCandidates(delimiterCode, this.costModel.countsCharacters)
 
-    const initialPatterns = this.patternAnalyzer.findAllPotentialPatterns(s)
+    const initialPatterns = this.patternAnalyzer.findAllPotentialPatterns(s, packerData.packedStringDelimiter)
 
     const startState: State = {
       id: "root",
@@ -155,7 +179,7 @@ export class BeamSearchSolver {
           continue
         }
 
-        const newPatterns = this.patternAnalyzer.findAllPotentialPatterns(state.text)
+        const newPatterns = this.patternAnalyzer.findAllPotentialPatterns(state.text, packerData.packedStringDelimiter)
 
         const existingStrings = new Set(state.availablePatterns.map((p) => p.string))
         const mergedPatterns: Match[] = [...state.availablePatterns]
@@ -189,12 +213,7 @@ export class BeamSearchSolver {
           const pattern = mergedPatterns[i]
           if (pattern.gain <= 0) continue
 
-          let c = ""
-          for (let j = 122; !c && j > 0; j--) {
-            if (j < Q.length && state.text.indexOf(Q[j]) === -1) {
-              c = Q[j]
-            }
-          }
+          const c = Q.find((token) => state.text.indexOf(token) === -1) || ""
 
           if (!c) continue
 
@@ -298,64 +317,49 @@ export class BeamSearchSolver {
     s = bestSolution.text
     const tokens = bestSolution.tokens
     packerData.matchesLookup = bestSolution.replacements
+    const events: PackerEvent[] = []
 
     for (const match of bestSolution.replacements) {
       details += `${match.token.charCodeAt(0)}(${match.token}) : gain=${match.gain}, N=${match.copies}, str = ${match.string}\n`
+      events.push({
+        type: "token-assigned",
+        token: match.token,
+        string: match.string,
+        gain: match.gain,
+        copies: match.copies,
+        score: match.score,
+      })
     }
 
-    const loopInitCode = options.useES6 ? ";for(i of" : ";for(i in G="
-    const loopMemberCode = options.useES6 ? "i" : "G[i]"
-
-    let packedString = this.stringHelper.matchAndReplaceAll(s, false, "\\", "\\\\", "", "", 0, [])
-    packedString = this.stringHelper.matchAndReplaceAll(
-      packedString,
-      false,
-      packerData.packedStringDelimiter,
-      "\\" + packerData.packedStringDelimiter,
-      "",
-      "",
-      0,
-      [],
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "token-list",
+      tokens.length,
+      { varName: packerData.packedCodeVarName, payload: s, tokens, init: packerData.wrappedInit },
+      options,
     )
-
-    const unpackBlock1 = packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const unpackBlock2 =
-      packerData.packedStringDelimiter +
-      loopInitCode +
-      packerData.packedStringDelimiter +
-      tokens +
-      packerData.packedStringDelimiter +
-      ")with(" +
-      packerData.packedCodeVarName +
-      ".split(" +
-      loopMemberCode +
-      "))" +
-      packerData.packedCodeVarName +
-      "=join(pop("
-    const unpackBlock3 = "));"
-
-    const outputStr =
-      unpackBlock1 +
-      packedString +
-      unpackBlock2 +
-      packerData.wrappedInit +
-      unpackBlock3 +
-      packerData.environment +
-      packerData.interpreterCall
+    const outputStr = decoder.code + packerData.environment + packerData.interpreterCall
 
     details += "\n------------------------\n"
-    details += `Original size: ${packerData.contents.length} bytes\n`
-    details += `Compressed size: ${s.length} bytes\n`
-    details += `Decoder size: ${unpackBlock1.length + unpackBlock2.length + unpackBlock3.length} bytes\n`
-    details += `Total size: ${outputStr.length} bytes\n`
-    details += `Compression ratio: ${((outputStr.length / packerData.contents.length) * 100).toFixed(2)}%\n`
+    details += `Original size: ${this.costModel.measure(packerData.contents)} ${this.costModel.unit}\n`
+    details += `Compressed size: ${this.costModel.measure(s)} ${this.costModel.unit}\n`
+    details += `Decoder size: ${this.costModel.measure(outputStr) - this.costModel.measure(s)} ${this.costModel.unit} (${decoder.template.name})\n`
+    details += `Total size: ${this.costModel.measure(outputStr)} ${this.costModel.unit}\n`
+    details += `Compression ratio: ${((this.costModel.measure(outputStr) / this.costModel.measure(packerData.contents)) * 100).toFixed(2)}%\n`
     details += `Algorithm: SlowPack (Beam Search width=${this.maxBeamWidth}, Max Replacements=${this.maxReplacements})\n`
     details += `Search graph: ${this.searchGraph.nodes.length} nodes, ${this.searchGraph.edges.length} edges\n`
-
-    return {
-      length: this.getByteLength(outputStr),
-      output: outputStr,
-      details,
-    }
+    const verification = this.executionVerifier.verify(outputStr, packerData.contents)
+    events.push(verificationEvent(verification))
+    details += `Final check: ${this.executionVerifier.describe(verification)}.\n`
+
+    return verifiedResult(
+      {
+        length: this.costModel.measure(outputStr),
+        output: outputStr,
+        details,
+        events,
+      },
+      verification,
+    )
   }
 }
@@ -1,4 +1,5 @@
 import { twoOnePlus } from "./2To1plus"
+import { type VerificationResult, getExecutionVerifier } from "../utils/ExecutionVerifier"
 
 /**
  * Character Packer implementations
@@ -13,13 +14,61 @@ export abstract class CharPacker {
   // Pack the input string
   abstract pack(input: string): { packed: string; mapping?: any }
 
-  // Unpack the packed string (for verification)
-  abstract unpack(packed: string): string
+  // Unpack either the full packed program or its raw payload (the packer mapping is then needed by some packers)
+  // and return the source, followed by the padding the packer may have added
+  abstract unpack(packed: string, mapping?: RegExp | string): string
 
-  // Generate the decoder function as a string
+  // Generate the decoder function as a string, returning the code the packed program evaluates
   abstract getDecoderCode(varName: string): string
+
+  // Run the packed program in the sandbox and check that it evaluates the input
+  verify(input: string, packed: string): VerificationResult {
+    const result = getExecutionVerifier().run(packed)
+    return { ...result, success: result.executed !== null && this.evaluatesInput(result.executed, input) }
+  }
+
+  // Unpack the packed program and locate the first difference with the input, -1 if it round-trips
+  roundTrip(input: string, packed: string): { unpacked: string; mismatch: number } {
+    const unpacked = this.unpack(packed)
+    if (this.matchesInput(unpacked, input)) {
+      return { unpacked, mismatch: -1 }
+    }
+    const expected = this.expectedSource(input)
+    let mismatch = 0
+    while (mismatch < expected.length && unpacked[mismatch] === expected[mismatch]) ++mismatch
+    return { unpacked, mismatch }
+  }
+
+  // Tell whether an unpacked source is the input, followed by padding
+  matchesInput(unpacked: string, input: string): boolean {
+    const expected = this.expectedSource(input)
+    return unpacked.startsWith(expected) && this.isPadding(unpacked.slice(expected.length))
+  }
+
+  // Source actually packed for an input, packers rewriting the input override it
+  protected expectedSource(input: string): string {
+    return input
+  }
+
+  // Tell whether the end of an unpacked source is padding added by the packer
+  protected isPadding(tail: string): boolean {
+    return tail === ""
+  }
+
+  // Compare the code evaluated by the packed program with the input
+  protected evaluatesInput(executed: string, input: string): boolean {
+    return this.matchesInput(executed, input)
+  }
+
+  // Value of a template literal written by the packers, from its raw contents
+  protected cookTemplate(raw: string): string {
+    return raw.replace(/\\([\s\S])/g, (match, char) => (char === "r" ? "\r" : char === "n" ? "\n" : char))
+  }
 }
 
+// Contents of a template literal, escaped characters included
+const TEMPLATE_CONTENTS = "((?:[^`\\\\]|\\\\[\\s\\S])*)"
+
 // 2-1 Packer: Packs 2 characters into 1 using a simple mapping
 export class Packer2To1 extends CharPacker {
   name = "2-1 Packer"
@@ -53,15 +102,22 @@ export class Packer2To1 extends CharPacker {
   }
 
   unpack(packed: string): string {
-    // This is just for demonstration - in real usage, we'd need the mapping
-    return packed
+    const program = new RegExp("^eval\\(unescape\\(escape`" + TEMPLATE_CONTENTS + "`\\.replace\\(").exec(packed)
+    const payload = program ? this.cookTemplate(program[1]) : packed
+    // Each character escapes to %uXXXX, dropping the "uX" leaves the %XX escape of one source character
+    return unescape(escape(payload).replace(/u../g, ""))
   }
 
   getDecoderCode(varName: string): string {
     return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(${varName}) {
-  return eval(unescape(escape\`${varName}\`.replace(/u../g,'')));
+  return unescape(escape(${varName}).replace(/u../g,''));
 }`
   }
+
+  // Odd-length inputs are padded with a space
+  protected isPadding(tail: string): boolean {
+    return tail === "" || tail === " "
+  }
 }
 
 // 2-1 Plus Packer: Enhanced version with better pair selection
@@ -69,18 +125,29 @@ export class Packer2To1Plus extends CharPacker {
   name = "2-1+ Packer"
   description = "Enhanced 2-1 packer with frequency-based pair selection"
 
+  // Emitted program, capturing the payload and the regular expression removing the escape prefixes
+  private static PROGRAM = new RegExp(
+    "^eval\\(unescape\\(escape`" + TEMPLATE_CONTENTS + "`\\.replace\\(/((?:[^/\\\\]|\\\\.)*)/g,``\\)\\)\\)$",
+  )
+
   pack(input: string): { packed: string; mapping?: any } {
-    return { packed: twoOnePlus(input, true) }
+    const packed = twoOnePlus(input, false)
+    // The mapping is the regular expression selected for this input
+    const program = Packer2To1Plus.PROGRAM.exec(packed)
+    return { packed, mapping: program ? new RegExp(program[2], "g") : undefined }
   }
 
-  unpack(packed: string): string {
-    // This is just for demonstration - in real usage, we'd need the mapping
-    return packed
+  // The mapping is the regular expression of the program, /uD./g is assumed for a raw payload without it
+  unpack(packed: string, mapping?: RegExp): string {
+    const program = Packer2To1Plus.PROGRAM.exec(packed)
+    const payload = program ? this.cookTemplate(program[1]) : packed
+    const regex = program ? new RegExp(program[2], "g") : mapping || /uD./g
+    return unescape(escape(payload).replace(regex, ""))
   }
 
   getDecoderCode(varName: string): string {
-    return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(${varName}) {
-  return eval(unescape(escape\`${varName}\`.replace(/u../g,'')));
+    return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(${varName}, regex = /uD./g) {
+  return unescape(escape(${varName}).replace(regex,''));
 }`
   }
 }
@@ -110,23 +177,42 @@ export class Packer3To1 extends CharPacker {
     return { packed: `for(_=i=98;i--;)for(c of\`${u}\`)_+=String.fromCharCode(c.codePointAt()%i+32);eval(_)` }
   }
 
+  // Newlines come back as \n escapes, the packer rewrites them so that the code fits in printable characters
   unpack(packed: string): string {
-    // This is just for demonstration - in real usage, we'd need the mapping
-    return packed
+    const program = new RegExp("^for\\(_=i=98;i--;\\)for\\(c of`" + TEMPLATE_CONTENTS + "`\\)").exec(packed)
+    const payload = [...(program ? this.cookTemplate(program[1]) : packed)]
+    // The passes modulo 97, 96 and 95 yield the first, second and last third of the code
+    let code = ""
+    for (let i = 98; --i > 94;) {
+      for (const c of payload) {
+        code += String.fromCharCode((c.codePointAt(0)! % i) + 32)
+      }
+    }
+    return code.replace(/^;/, "").replace(/\/\/ *$/, "")
   }
 
   getDecoderCode(varName: string): string {
     return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(${varName}) {
-  let _ = "";
-  let i = 98;
-  while (i--) {
+  let _ = 98;
+  for (let i = 98; i--; ) {
     for (let c of ${varName}) {
       _ += String.fromCharCode(c.codePointAt(0) % i + 32);
     }
   }
-  return eval(_);
+  return _;
 }`
   }
+
+  protected expectedSource(input: string): string {
+    return input.replace(/(\r\n|\n|\r)/gm, "\\n")
+  }
+
+  // The decoded code starts with the initial value of _ and a semicolon,
+  // and it ends with a comment holding the padding and the output of the remaining decoding passes
+  protected evaluatesInput(executed: string, input: string): boolean {
+    const expected = "98;" + this.expectedSource(input) + "//"
+    return executed.startsWith(expected) && !/[\n\r\u2028\u2029]/.test(executed.slice(expected.length))
+  }
 }
 
 // 4-1 Packer: Packs 4 characters into 1
@@ -145,30 +231,49 @@ export class Packer4To1 extends CharPacker {
       S += q ? W.indexOf(q) << ((i % 2) * 5) : 0
       i % 2 ? ((V += String.fromCharCode(((i % 4 == 1 ? 54 : 55) << 10) + S)), (S = 0)) : 0
     }
+    // The mapping is the charset, indexed by the 5-bit values of the payload.
+    // In the template literal, backquotes, backslashes and the $ opening a substitution are escaped
     return {
-      packed: `for(I=O="";I<1e5;)O+=\`${W.replace(/`/g, "\\`")}\`["${V}".charCodeAt(I/2)>>I++%2*5&31];eval(O)`,
+      packed: `for(I=O="";I<1e5;)O+=\`${W.replace(/[`\\]|\$(?=\{)/g, "\\$&")}\`["${V}".charCodeAt(I/2)>>I++%2*5&31];eval(O)`,
+      mapping: W,
     }
   }
 
-  unpack(packed: string): string {
-    // This is just for demonstration - in real usage, we'd need the mapping
-    return packed
+  // The mapping (charset) is required to unpack a raw payload
+  unpack(packed: string, mapping?: string): string {
+    const program = new RegExp('^for\\(I=O="";I<1e5;\\)O\\+=`' + TEMPLATE_CONTENTS + '`\\["([^"]*)"').exec(packed)
+    const charset = program ? this.cookTemplate(program[1]) : mapping
+    const payload = program ? program[2] : packed
+    if (charset === undefined) {
+      throw new Error("The charset is needed to unpack a 4-1 payload")
+    }
+    // Each character holds two indices, only the indices stored in the payload are decoded, not the filler
+    let code = ""
+    for (let I = 0; I < payload.length * 2; ++I) {
+      code += charset[(payload.charCodeAt(I >> 1) >> ((I % 2) * 5)) & 31]
+    }
+    return code.replace(/^;/, "")
   }
 
   getDecoderCode(varName: string): string {
-    return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(${varName}) {
-  const parts = ${varName}.split(';');
-  const charset = parts[0];
-  const encoded = parts[1];
-  let output = "";
-  for (let I = 0; I < 1e5 && output.length < 1e5; I++) {
-    const charIndex = encoded.charCodeAt(I/2) >> (I++ % 2 * 5) & 31;
-    if (charIndex >= charset.length) break;
-    output += charset[charIndex];
-  }
-  return output;
+    return `function unpack${this.name.replace(/[^a-zA-Z0-9]/g, "")}(charset, ${varName}) {
+  let O = "";
+  for (let I = 0; I < 1e5; ) {
+    O += charset[${varName}.charCodeAt(I / 2) >> I++ % 2 * 5 & 31];
+  }
+  return O;
 }`
   }
+
+  // The input is padded with semicolons (charset index 0) to a multiple of 4 characters
+  protected isPadding(tail: string): boolean {
+    return /^;{0,3}$/.test(tail)
+  }
+
+  // The decoded code starts with a semicolon, and index 0 fills the rest of the 1e5 characters
+  protected evaluatesInput(executed: string, input: string): boolean {
+    return executed.startsWith(";" + input) && /^;*$/.test(executed.slice(input.length + 1))
+  }
 }
 
 // Factory to get the appropriate packer
@@ -0,0 +1,516 @@
+import { PackerData } from "./PackerData"
+
+export type ContextType = "2d" | "webgl" | "audio"
+
+/**
+ * Context object found in the code, or declared through the options for a shim
+ */
+export interface ContextDeclaration {
+  type: ContextType
+  variableName: string
+  // Declaration statement ("c=a.getContext('2d')") and its position, empty for a predefined context
+  declaration: string
+  offset: number
+}
+
+/**
+ * Hash expression retained for a context, with the renaming it implies
+ */
+export interface ContextHash {
+  context: ContextDeclaration
+  indexes: number[]
+  loopVariable: string
+  loop: string
+  renaming: Record<string, string>
+  gain: number
+}
+
+/**
+ * Enumerable members of each context, as listed by for..in in current browsers.
+ * Only names starting with a lowercase letter are listed : the hash always includes
+ * the first character, so the uppercase WebGL constants can not collide with a method.
+ */
+const CONTEXT_2D_MEMBERS = [
+  "canvas",
+  "globalAlpha",
+  "globalCompositeOperation",
+  "filter",
+  "imageSmoothingEnabled",
+  "imageSmoothingQuality",
+  "strokeStyle",
+  "fillStyle",
+  "shadowOffsetX",
+  "shadowOffsetY",
+  "shadowBlur",
+  "shadowColor",
+  "lineWidth",
+  "lineCap",
+  "lineJoin",
+  "miterLimit",
+  "lineDashOffset",
+  "font",
+  "textAlign",
+  "textBaseline",
+  "direction",
+  "fontKerning",
+  "fontStretch",
+  "fontVariantCaps",
+  "letterSpacing",
+  "textRendering",
+  "wordSpacing",
+  "clip",
+  "createConicGradient",
+  "createImageData",
+  "createLinearGradient",
+  "createPattern",
+  "createRadialGradient",
+  "drawFocusIfNeeded",
+  "drawImage",
+  "fill",
+  "fillText",
+  "getContextAttributes",
+  "getImageData",
+  "getLineDash",
+  "getTransform",
+  "isContextLost",
+  "isPointInPath",
+  "isPointInStroke",
+  "measureText",
+  "putImageData",
+  "reset",
+  "roundRect",
+  "save",
+  "scale",
+  "setLineDash",
+  "setTransform",
+  "stroke",
+  "strokeText",
+  "transform",
+  "translate",
+  "arc",
+  "arcTo",
+  "beginPath",
+  "bezierCurveTo",
+  "clearRect",
+  "closePath",
+  "ellipse",
+  "fillRect",
+  "lineTo",
+  "moveTo",
+  "quadraticCurveTo",
+  "rect",
+  "resetTransform",
+  "restore",
+  "rotate",
+  "strokeRect",
+  "scrollPathIntoView",
+]
+
+const CONTEXT_WEBGL_MEMBERS = [
+  "canvas",
+  "drawingBufferWidth",
+  "drawingBufferHeight",
+  "drawingBufferColorSpace",
+  "unpackColorSpace",
+  "activeTexture",
+  "attachShader",
+  "bindAttribLocation",
+  "bindBuffer",
+  "bindFramebuffer",
+  "bindRenderbuffer",
+  "bindTexture",
+  "blendColor",
+  "blendEquation",
+  "blendEquationSeparate",
+  "blendFunc",
+  "blendFuncSeparate",
+  "bufferData",
+  "bufferSubData",
+  "checkFramebufferStatus",
+  "clear",
+  "clearColor",
+  "clearDepth",
+  "clearStencil",
+  "colorMask",
+  "compileShader",
+  "compressedTexImage2D",
+  "compressedTexSubImage2D",
+  "copyTexImage2D",
+  "copyTexSubImage2D",
+  "createBuffer",
+  "createFramebuffer",
+  "createProgram",
+  "createRenderbuffer",
+  "createShader",
+  "createTexture",
+  "cullFace",
+  "deleteBuffer",
+  "deleteFramebuffer",
+  "deleteProgram",
+  "deleteRenderbuffer",
+  "deleteShader",
+  "deleteTexture",
+  "depthFunc",
+  "depthMask",
+  "depthRange",
+  "detachShader",
+  "disable",
+  "disableVertexAttribArray",
+  "drawArrays",
+  "drawElements",
+  "drawingBufferStorage",
+  "enable",
+  "enableVertexAttribArray",
+  "finish",
+  "flush",
+  "framebufferRenderbuffer",
+  "framebufferTexture2D",
+  "frontFace",
+  "generateMipmap",
+  "getActiveAttrib",
+  "getActiveUniform",
+  "getAttachedShaders",
+  "getAttribLocation",
+  "getBufferParameter",
+  "getContextAttributes",
+  "getError",
+  "getExtension",
+  "getFramebufferAttachmentParameter",
+  "getParameter",
+  "getProgramInfoLog",
+  "getProgramParameter",
+  "getRenderbufferParameter",
+  "getShaderInfoLog",
+  "getShaderParameter",
+  "getShaderPrecisionFormat",
+  "getShaderSource",
+  "getSupportedExtensions",
+  "getTexParameter",
+  "getUniform",
+  "getUniformLocation",
+  "getVertexAttrib",
+  "getVertexAttribOffset",
+  "hint",
+  "isBuffer",
+  "isContextLost",
+  "isEnabled",
+  "isFramebuffer",
+  "isProgram",
+  "isRenderbuffer",
+  "isShader",
+  "isTexture",
+  "lineWidth",
+  "linkProgram",
+  "makeXRCompatible",
+  "pixelStorei",
+  "polygonOffset",
+  "readPixels",
+  "renderbufferStorage",
+  "sampleCoverage",
+  "scissor",
+  "shaderSource",
+  "stencilFunc",
+  "stencilFuncSeparate",
+  "stencilMask",
+  "stencilMaskSeparate",
+  "stencilOp",
+  "stencilOpSeparate",
+  "texImage2D",
+  "texParameterf",
+  "texParameteri",
+  "texSubImage2D",
+  "uniform1f",
+  "uniform1fv",
+  "uniform1i",
+  "uniform1iv",
+  "uniform2f",
+  "uniform2fv",
+  "uniform2i",
+  "uniform2iv",
+  "uniform3f",
+  "uniform3fv",
+  "uniform3i",
+  "uniform3iv",
+  "uniform4f",
+  "uniform4fv",
+  "uniform4i",
+  "uniform4iv",
+  "uniformMatrix2fv",
+  "uniformMatrix3fv",
+  "uniformMatrix4fv",
+  "useProgram",
+  "validateProgram",
+  "vertexAttrib1f",
+  "vertexAttrib1fv",
+  "vertexAttrib2f",
+  "vertexAttrib2fv",
+  "vertexAttrib3f",
+  "vertexAttrib3fv",
+  "vertexAttrib4f",
+  "vertexAttrib4fv",
+  "vertexAttribPointer",
+  "viewport",
+]
+
+const CONTEXT_AUDIO_MEMBERS = [
+  "baseLatency",
+  "outputLatency",
+  "sinkId",
+  "onsinkchange",
+  "onerror",
+  "destination",
+  "currentTime",
+  "sampleRate",
+  "listener",
+  "state",
+  "onstatechange",
+  "audioWorklet",
+  "close",
+  "createMediaElementSource",
+  "createMediaStreamDestination",
+  "createMediaStreamSource",
+  "getOutputTimestamp",
+  "resume",
+  "setSinkId",
+  "suspend",
+  "createAnalyser",
+  "createBiquadFilter",
+  "createBuffer",
+  "createBufferSource",
+  "createChannelMerger",
+  "createChannelSplitter",
+  "createConstantSource",
+  "createConvolver",
+  "createDelay",
+  "createDynamicsCompressor",
+  "createGain",
+  "createIIRFilter",
+  "createOscillator",
+  "createPanner",
+  "createPeriodicWave",
+  "createScriptProcessor",
+  "createStereoPanner",
+  "createWaveShaper",
+  "decodeAudioData",
+  "addEventListener",
+  "dispatchEvent",
+  "removeEventListener",
+]
+
+// Attributes are copied by value by the hashing loop, only method calls can be renamed
+const CONTEXT_MEMBERS: Record<ContextType, { members: string[]; attributes: string[] }> = {
+  "2d": {
+    members: CONTEXT_2D_MEMBERS,
+    attributes: CONTEXT_2D_MEMBERS.slice(0, CONTEXT_2D_MEMBERS.indexOf("clip")),
+  },
+  webgl: {
+    members: CONTEXT_WEBGL_MEMBERS,
+    attributes: CONTEXT_WEBGL_MEMBERS.slice(0, CONTEXT_WEBGL_MEMBERS.indexOf("activeTexture")),
+  },
+  audio: {
+    members: CONTEXT_AUDIO_MEMBERS,
+    attributes: CONTEXT_AUDIO_MEMBERS.slice(0, CONTEXT_AUDIO_MEMBERS.indexOf("close")),
+  },
+}
+
+const GET_CONTEXT_DECLARATION =
+  /(^|[^\w$.])([A-Za-z_$][\w$]*)\s*=\s*[\w$.[\]]+\.getContext\(\s*(["'`])(2d|webgl|experimental-webgl)\3[^)]*\)/g
+const AUDIO_CONTEXT_DECLARATION =
+  /(^|[^\w$.])([A-Za-z_$][\w$]*)\s*=\s*new\s*(\(\s*(window\.)?(webkit)?AudioContext\s*\|\|\s*(window\.)?(webkit)?AudioContext\s*\)|(window\.)?(webkit)?AudioContext)(\s*\(\s*\))?/g
+
+// Candidate indexes for the characters following the first one in the hash
+const MAX_HASH_INDEX = 20
+
+/**
+ * ContextHasher - shortens the method calls on 2D, WebGL and AudioContext objects.
+ * A loop copies every member under a short hashed name (c.fillRect => c.fc),
+ * `for(p in c)c[p[0]+p[6]]=c[p]`, then the calls in the code are rewritten to use the hashes.
+ */
+export class ContextHasher {
+  /**
+   * Lists the context objects declared in the code
+   * @param code The code to analyze
+   * @param enabledTypes The context types to look for
+   * @return One declaration per context variable, in order of appearance
+   */
+  public findContexts(code: string, enabledTypes: ContextType[]): ContextDeclaration[] {
+    const contexts: ContextDeclaration[] = []
+    const patterns: Array<[RegExp, (match: RegExpExecArray) => ContextType]> = [
+      [GET_CONTEXT_DECLARATION, (match) => (match[4] === "2d" ? "2d" : "webgl")],
+      [AUDIO_CONTEXT_DECLARATION, () => "audio"],
+    ]
+
+    for (const [pattern, getType] of patterns) {
+      pattern.lastIndex = 0
+      let match: RegExpExecArray | null
+      while ((match = pattern.exec(code))) {
+        const type = getType(match)
+        const variableName = match[2]
+        if (!enabledTypes.includes(type) || contexts.some((context) => context.variableName === variableName)) {
+          continue
+        }
+        // The hashing loop goes after the declaration : it must end a statement, or head the code
+        const offset = match.index + match[1].length
+        const following = code.substring(match.index + match[0].length)
+        if (!/^\s*(;|\n|$)/.test(following) && !(offset === 0 && /^\s*,/.test(following))) {
+          continue
+        }
+        contexts.push({ type, variableName, declaration: match[0].substring(match[1].length), offset })
+      }
+    }
+
+    return contexts.sort((a, b) => a.offset - b.offset)
+  }
+
+  /**
+   * Finds the shortest hash expression that keeps the members of the context apart
+   * @param code The code using the context
+   * @param context The context to hash
+   * @param loopVariable Variable iterating over the members in the hashing loop
+   * @return The hash with the best gain, or null if no hash saves any byte
+   */
+  public findBestHash(code: string, context: ContextDeclaration, loopVariable: string): ContextHash | null {
+    const { members, attributes } = CONTEXT_MEMBERS[context.type]
+    const callCounts = this.countMethodCalls(code, context.variableName, members, attributes)
+    const calledMethods = Object.keys(callCounts)
+    if (calledMethods.length === 0) return null
+
+    let best: ContextHash | null = null
+    const candidates: number[][] = []
+    for (let first = 1; first <= MAX_HASH_INDEX; ++first) {
+      candidates.push([0, first])
+    }
+    for (let first = 1; first <= MAX_HASH_INDEX; ++first) {
+      for (let second = first + 1; second <= MAX_HASH_INDEX; ++second) {
+        candidates.push([0, first, second])
+      }
+    }
+
+    for (const indexes of candidates) {
+      // The loop writes every member under its hash : a hash must not overwrite another member
+      const hashCount = new Map<string, number>()
+      let overwrites = false
+      for (const member of members) {
+        const hash = this.hash(member, indexes)
+        hashCount.set(hash, (hashCount.get(hash) || 0) + 1)
+        if (hash !== member && members.includes(hash)) {
+          overwrites = true
+          break
+        }
+      }
+      if (overwrites) continue
+
+      // Rename the methods whose hash is unique and shorter, the others keep their name
+      const renaming: Record<string, string> = {}
+      let gain = 0
+      for (const method of calledMethods) {
+        const hash = this.hash(method, indexes)
+        if (hashCount.get(hash) === 1 && hash.length < method.length && /^[A-Za-z_$][\w$]*$/.test(hash)) {
+          renaming[method] = hash
+          gain += callCounts[method] * (method.length - hash.length)
+        }
+      }
+      if (Object.keys(renaming).length === 0) continue
+
+      const loop = this.buildLoop(context.variableName, loopVariable, indexes)
+      gain -= loop.length
+      if (!best || gain > best.gain) {
+        best = { context, indexes, loopVariable, loop, renaming, gain }
+      }
+    }
+
+    return best && best.gain > 0 ? best : null
+  }
+
+  /**
+   * Hashes the contexts of a variant, in place
+   * @param packerData The variant to transform, its contents, wrappedInit and environment are updated
+   * @param hashes The hashes to apply, as returned by findBestHash
+   */
+  public applyHashes(packerData: PackerData, hashes: ContextHash[]): void {
+    let code = packerData.contents
+    for (const hash of hashes) {
+      code = this.renameMethodCalls(code, hash.context.variableName, hash.renaming)
+    }
+
+    // The hashing loop must run after the context is created
+    for (const hash of [...hashes].reverse()) {
+      const { context } = hash
+      const offset = code.indexOf(context.declaration)
+      if (!context.declaration) {
+        // Predefined context (shim) : hash it before the code runs
+        packerData.environment = hash.loop + packerData.environment
+      } else if (offset === 0 && /^\s*[;,\n]/.test(code.substring(context.declaration.length))) {
+        // Declaration heading the code : moved into the unpacking loop, hashing runs right after
+        code = code.substring(context.declaration.length).replace(/^\s*[;,\n]/, "")
+        packerData.wrappedInit = context.declaration + (packerData.wrappedInit ? "," + packerData.wrappedInit : "")
+        packerData.initialDeclarationOffset = 0
+        packerData.environment = hash.loop + packerData.environment
+      } else {
+        // Declaration inside the code : the loop follows its statement
+        const end = offset + context.declaration.length
+        code = code.substring(0, end) + ";" + hash.loop.replace(/;$/, "") + code.substring(end)
+      }
+    }
+
+    packerData.contents = code
+  }
+
+  /**
+   * Counts the method calls (context.method(...)) per method name
+   */
+  private countMethodCalls(
+    code: string,
+    variableName: string,
+    members: string[],
+    attributes: string[],
+  ): Record<string, number> {
+    const counts: Record<string, number> = {}
+    const pattern = this.methodCallPattern(variableName)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(code))) {
+      const method = match[2]
+      if (members.includes(method) && !attributes.includes(method)) {
+        counts[method] = (counts[method] || 0) + 1
+      }
+    }
+    return counts
+  }
+
+  private renameMethodCalls(code: string, variableName: string, renaming: Record<string, string>): string {
+    return code.replace(this.methodCallPattern(variableName), (match, prefix: string, method: string) =>
+      method in renaming ? prefix + variableName + "." + renaming[method] + match.substring(match.indexOf("(")) : match,
+    )
+  }
+
+  private methodCallPattern(variableName: string): RegExp {
+    const escapedName = variableName.replace(/\$/g, "\\$")
+    return new RegExp("(^|[^\\w$.])" + escapedName + "\\s*\\.\\s*([A-Za-z_$][\\w$]*)\\s*\\(", "g")
+  }
+
+  /**
+   * Computes the hash the loop will produce, with the semantics of JavaScript (out of range reads "undefined")
+   */
+  private hash(member: string, indexes: number[]): string {
+    return indexes.map((index) => (index < member.length ? member[index] : "undefined")).join("")
+  }
+
+  private buildLoop(variableName: string, loopVariable: string, indexes: number[]): string {
+    const hashExpression = indexes.map((index) => loopVariable + "[" + index + "]").join("+")
+    return (
+      "for(" +
+      loopVariable +
+      " in " +
+      variableName +
+      ")" +
+      variableName +
+      "[" +
+      hashExpression +
+      "]=" +
+      variableName +
+      "[" +
+      loopVariable +
+      "];"
+    )
+  }
+}
@@ -0,0 +1,288 @@
+import { PackerData } from "./PackerData"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { type StringEmitter, getStringEmitter } from "../utils/StringEmitter"
+import type { PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { caughtFailure, verifiedResult } from "../utils/PackerStatus"
+import { Preprocessor } from "./Preprocessor"
+
+/**
+ * Model parameters, shared by the encoder and the generated decoder
+ */
+export interface ContextMixerParameters {
+  // Number of previous bytes hashed into the context of each model
+  orders: number[]
+  // Mixer learning rate
+  learningRate: number
+  // Maximum adaptation count of a model slot, lower adapts faster to changes
+  countLimit: number
+}
+
+/**
+ * Result of encoding the input with one set of parameters
+ */
+interface EncodedStream {
+  parameters: ContextMixerParameters
+  data: string
+  bits: number
+}
+
+// Model slots are addressed by 22-bit hashes
+const HASH_SHIFT = 10
+const TABLE_SIZE = 1 << (32 - HASH_SHIFT)
+// The range is renormalized 6 bits at a time, each step consumes one character of the data
+const RANGE_BOTTOM = 1 << 24
+const PROBABILITY_SCALE = 4096
+
+// Parameter sets tried by default, the smallest output is kept
+const DEFAULT_PARAMETERS: ContextMixerParameters[] = [
+  { orders: [0, 1, 2, 3, 4, 6], learningRate: 0.02, countLimit: 60 },
+  { orders: [0, 1, 2, 3, 5], learningRate: 0.02, countLimit: 60 },
+  { orders: [1, 2, 3, 4, 6, 8], learningRate: 0.015, countLimit: 250 },
+  { orders: [0, 1, 2, 4, 6, 12], learningRate: 0.03, countLimit: 30 },
+]
+
+/**
+ * ContextMixer - a Roadroller-style packer : the input is compressed bit by bit with
+ * an arithmetic coder, driven by several hashed order-n context models blended by a logistic mixer.
+ * The decoder replays the same model, so it is tiny but slow : this only pays off on large inputs.
+ *
+ * The decoder relies on Math.exp and Math.log returning the same values as in the packer,
+ * which holds in current browsers and Node.
+ */
+export class ContextMixer {
+  private preprocessor: Preprocessor
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
+  private stringEmitter: StringEmitter
+
+  constructor() {
+    this.preprocessor = new Preprocessor()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
+    this.stringEmitter = getStringEmitter()
+  }
+
+  /**
+   * Main entry point for the packer
+   * @param input A string containing the program to pack
+   * @param options An object detailing the different options for the preprocessor and packer
+   * @return An array of PackerData, one per preprocessed variant, each holding a single result
+   */
+  public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
+    try {
+      const inputList = this.preprocessor.preprocessCode(input, options, "ContextMixer")
+
+      for (const inputData of inputList) {
+        inputData.result.push(timeStage("context mixing", () => this.compress(inputData)))
+      }
+
+      return inputList
+    } catch (error) {
+      console.error("Error in ContextMixer:", error)
+      const errorData = new PackerData("Error", input)
+      const errorResult = caughtFailure(error)
+      errorData.result.push(errorResult)
+      return [errorData]
+    }
+  }
+
+  /**
+   * Compresses the contents with every parameter set, and keeps the shortest verified output
+   */
+  private compress(packerData: PackerData, parameterSets = DEFAULT_PARAMETERS): PackerResult {
+    let details = packerData.log
+    const isAscii = !/[^\x00-\x7f]/.test(packerData.contents)
+    const bytes = this.toBytes(packerData.contents, isAscii)
+    details += "Input: " + bytes.length + " bytes, coded on " + (isAscii ? 7 : 8) + " bits\n"
+
+    let best: { length: number; output: string } | null = null
+    for (const parameters of parameterSets) {
+      const stream = this.encode(bytes, isAscii ? 7 : 8, parameters)
+      const decoder = this.buildDecoder(packerData, stream, bytes.length, isAscii)
+      const output = this.buildOutput(packerData, decoder)
+      const length = this.costModel.measure(output)
+      details +=
+        "orders [" +
+        parameters.orders.join(",") +
+        "], rate " +
+        parameters.learningRate +
+        ", limit " +
+        parameters.countLimit +
+        " : " +
+        stream.bits +
+        " bits, " +
+        length +
+        " " +
+        this.costModel.unit +
+        "\n"
+      if (!best || length < best.length) {
+        best = { length, output }
+      }
+    }
+
+    // Final check: run the retained output and compare the evaluated code with the input
+    const verification = this.executionVerifier.verify(best!.output, packerData.contents)
+    details += "------------------------\nFinal check: " + this.executionVerifier.describe(verification) + ".\n"
+    const events = [verificationEvent(verification)]
+    return verifiedResult({ length: best!.length, output: best!.output, details, events }, verification)
+  }
+
+  /**
+   * Converts the input to the bytes actually coded : char codes for ASCII, UTF-8 otherwise
+   */
+  private toBytes(input: string, isAscii: boolean): number[] {
+    const byteString = isAscii ? input : unescape(encodeURIComponent(input))
+    const bytes: number[] = []
+    for (let i = 0; i < byteString.length; ++i) {
+      bytes.push(byteString.charCodeAt(i))
+    }
+    return bytes
+  }
+
+  /**
+   * Runs the model over the input and arithmetic codes each bit.
+   * Any change here must be mirrored in the decoder built by buildDecoder.
+   */
+  public encode(bytes: number[], bitsPerByte: number, parameters: ContextMixerParameters): EncodedStream {
+    const { orders, learningRate, countLimit } = parameters
+    const probabilities = new Float64Array(TABLE_SIZE).fill(0.5)
+    const counts = new Uint8Array(TABLE_SIZE)
+    const weights = orders.map(() => 0.3)
+    const slots: number[] = []
+    const stretched: number[] = []
+    const digits: number[] = []
+    let low = 0
+    let range = 1
+    let bits = 0
+
+    for (let n = 0; n < bytes.length; ++n) {
+      for (let partial = 1, position = bitsPerByte - 1; position >= 0; --position) {
+        // Renormalize, one 6-bit digit at a time
+        while (range < RANGE_BOTTOM) {
+          range *= 64
+          low *= 64
+          digits.push(Math.floor(low / 2 ** 30))
+          low %= 2 ** 30
+        }
+
+        let dot = 0
+        for (let j = 0; j < orders.length; ++j) {
+          let hash = j
+          for (let k = 1; k <= orders[j]; ++k) {
+            hash = Math.imul(hash ^ (n - k >= 0 ? bytes[n - k] : 0), 2654435761)
+          }
+          slots[j] = Math.imul(hash ^ partial, 2246822519) >>> HASH_SHIFT
+          const p = probabilities[slots[j]]
+          stretched[j] = Math.log(p / (1 - p))
+          dot += weights[j] * stretched[j]
+        }
+        const mixed = 1 / (1 + Math.exp(-dot))
+        const split = ((range * ((mixed * (PROBABILITY_SCALE - 2) + 1) | 0)) / PROBABILITY_SCALE) | 0
+
+        const bit = (bytes[n] >> position) & 1
+        if (bit) {
+          range = split
+        } else {
+          low += split
+          range -= split
+          if (low >= 2 ** 30) {
+            // Propagate the carry into the digits already output
+            low -= 2 ** 30
+            let i = digits.length - 1
+            while (digits[i] === 63) {
+              digits[i--] = 0
+            }
+            ++digits[i]
+          }
+        }
+        bits -= Math.log2(bit ? mixed : 1 - mixed)
+
+        for (let j = 0; j < orders.length; ++j) {
+          const slot = slots[j]
+          const p = probabilities[slot]
+          counts[slot] = Math.min(counts[slot] + 1, countLimit)
+          probabilities[slot] = p + (bit - p) / (counts[slot] + 1.5)
+          weights[j] += learningRate * (bit - mixed) * stretched[j]
+        }
+        partial = partial * 2 + bit
+      }
+    }
+
+    // Flush the low end of the final interval, trailing zeros are implicit in the decoder
+    for (let i = 0; i < 5; ++i) {
+      digits.push(Math.floor(low / 2 ** 24))
+      low = (low % 2 ** 24) * 64
+    }
+    // The first five digits stand for the initial window and are always zero
+    const significant = digits.slice(5)
+    while (significant.length > 0 && significant[significant.length - 1] === 0) {
+      significant.pop()
+    }
+
+    return {
+      parameters,
+      data: significant.map((digit) => this.digitToChar(digit)).join(""),
+      bits: Math.ceil(bits),
+    }
+  }
+
+  /**
+   * Maps a 6-bit digit to a character c with c&63 == digit, avoiding \ ` and DEL in the template literal
+   */
+  private digitToChar(digit: number): string {
+    const code = digit + 64
+    return String.fromCharCode(code === 92 || code === 96 || code === 127 ? digit : code)
+  }
+
+  /**
+   * Builds the decoding loop. The decoded string ends up in the packed code variable.
+   * Uppercase names are used so that the globals of a shim (a, b, c...) are left untouched.
+   */
+  private buildDecoder(packerData: PackerData, stream: EncodedStream, length: number, isAscii: boolean): string {
+    const { orders, learningRate, countLimit } = stream.parameters
+    const v = packerData.packedCodeVarName
+    const top = isAscii ? 128 : 256
+    return (
+      "for(A=" +
+      this.stringEmitter.quote(stream.data, packerData.packedStringDelimiter) +
+      ",Z=[" +
+      orders.join(",") +
+      "],W=Z.map(J=>.3),F=[],E=[],Q=[],S=[],R=1,X=I=0," +
+      v +
+      '="";' +
+      v +
+      ".length<" +
+      length +
+      ";" +
+      v +
+      "+=String.fromCharCode(C-" +
+      top +
+      "))for(C=1;C<" +
+      top +
+      ";C=C*2+Y){for(;R<16777216;R*=64)X=X*64+(A.charCodeAt(I++)&63);for(D=J=0;J<Z.length;D+=W[J]*S[J++]){for(H=J,K=0;K<Z[J];)H=Math.imul(H^" +
+      v +
+      ".charCodeAt(" +
+      v +
+      ".length-++K),2654435761);Q[J]=H=Math.imul(H^C,2246822519)>>>" +
+      HASH_SHIFT +
+      ";S[J]=Math.log((T=F[H]||.5)/(1-T))}M=R*((P=1/(1+Math.exp(-D)))*" +
+      (PROBABILITY_SCALE - 2) +
+      "+1|0)/" +
+      PROBABILITY_SCALE +
+      "|0;(Y=X<M)?R=M:(X-=M,R-=M);for(J=0;J<Z.length;W[J]+=" +
+      String(learningRate).replace(/^0\./, ".") +
+      "*(Y-P)*S[J++])T=F[H=Q[J]]||.5,E[H]=Math.min((E[H]|0)+1," +
+      countLimit +
+      "),F[H]=T+(Y-T)/(E[H]+1.5)}" +
+      (isAscii ? "" : v + "=decodeURIComponent(escape(" + v + "));")
+    )
+  }
+
+  private buildOutput(packerData: PackerData, decoder: string): string {
+    const init = packerData.wrappedInit ? packerData.wrappedInit + ";" : ""
+    return decoder + init + packerData.environment + packerData.interpreterCall
+  }
+}
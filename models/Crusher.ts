@@ -1,6 +1,15 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, type VerificationResult, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { RepeatIndex } from "../utils/RepeatIndex"
 import { PackerData } from "./PackerData"
-import type { PackerOptions, PackerResult } from "../types"
+import type { PackerEvent, PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { PackerError, caughtFailure, failedResult, verifiedResult } from "../utils/PackerStatus"
+import { Preprocessor } from "./Preprocessor"
+import { runEvaluation } from "./PackerEvaluation"
+import { CRUSH_PARAMETERS, type ParameterSchema } from "./ParameterSchema"
 
 /**
  * Enum defining different heuristic strategies for pattern selection
@@ -24,18 +33,46 @@ export enum CrusherHeuristic {
  * 5. Adaptive dictionary compression
  */
 export class Crusher {
+  // Options searched by the optimizer
+  public static readonly parameters: ParameterSchema = [
+    ...CRUSH_PARAMETERS,
+    {
+      name: "crusherHeuristic",
+      label: "Heuristic",
+      type: "enum",
+      values: [
+        CrusherHeuristic.BALANCED,
+        CrusherHeuristic.MOST_COPIES,
+        CrusherHeuristic.LONGEST,
+        CrusherHeuristic.DENSITY,
+        CrusherHeuristic.ADAPTIVE,
+      ],
+    },
+    { name: "useES6", label: "ES6", type: "boolean" },
+  ]
+
   private stringHelper: StringHelper
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
   private maxIterations = 100
   private safetyCounter = 0
   private maxSafetyCount = 10000
   private tokenIndex = 0
+  private preprocessor: Preprocessor
+  // Delimiter of the packed string being compressed, its escapes count in the pattern lengths
+  private delimiter = ""
 
   // Add this property to the Crusher class
   private heuristic: CrusherHeuristic = CrusherHeuristic.BALANCED
 
   constructor(heuristic: CrusherHeuristic = CrusherHeuristic.BALANCED) {
     this.stringHelper = StringHelper.getInstance()
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
     this.heuristic = heuristic
+    this.preprocessor = new Preprocessor()
   }
 
   /**
@@ -46,30 +83,30 @@ export class Crusher {
    * @return An array of PackerData, each containing the code packed with different settings
    */
   public runPacker(input: string, options: PackerOptions, heuristic?: CrusherHeuristic): PackerData[] {
-    if (heuristic) {
-      this.heuristic = heuristic
+    this.costModel = getCostModel(options.costTarget)
+    const selectedHeuristic = heuristic ?? options.crusherHeuristic
+    if (selectedHeuristic) {
+      this.heuristic = selectedHeuristic
     }
 
     try {
-      const inputData = new PackerData("Crusher", input)
+      const inputList = this.preprocessor.preprocessCode(input, options, "Crusher")
 
-      // First stage: enhanced pattern detection and compression
-      const output = this.compressWithPatterns(inputData, options)
-      inputData.result.push(output)
+      for (const inputData of inputList) {
+        // First stage: enhanced pattern detection and compression
+        const output = timeStage("crusher", () => this.compressWithPatterns(inputData, options))
+        inputData.result.push(output)
 
-      // Second stage: optimize token usage and convert to regexp
-      const output2 = this.optimizeAndPackToRegexp(inputData, options)
-      inputData.result.push(output2)
+        // Second stage: optimize token usage and convert to regexp
+        const output2 = timeStage("regexp", () => this.optimizeAndPackToRegexp(inputData, options))
+        inputData.result.push(output2)
+      }
 
-      return [inputData]
+      return inputList
     } catch (error) {
       console.error("Error in Crusher:", error)
       const errorData = new PackerData("Error", input)
-      const errorResult: PackerResult = {
-        length: 0,
-        output: "",
-        details: `Error: ${error instanceof Error ? error.message : String(error)}`,
-      }
+      const errorResult = caughtFailure(error)
       errorData.result.push(errorResult)
       errorData.result.push(errorResult)
       return [errorData]
@@ -77,14 +114,16 @@ export class Crusher {
   }
 
   /**
-   * Find the best heuristic strategy for a given input
+   * Find the best heuristic strategy for a given input, the heuristics running in parallel on the worker pool
    * @param input The input string to compress
    * @param options The packer options to use
+   * @param signal Aborts the runs still queued or running
    * @returns The best heuristic strategy and its result
    */
   public static async findBestHeuristic(
     input: string,
     options: PackerOptions,
+    signal?: AbortSignal,
   ): Promise<{
     heuristic: CrusherHeuristic
     size: number
@@ -99,45 +138,28 @@ export class Crusher {
       CrusherHeuristic.ADAPTIVE, // Add the adaptive approach to the list
     ]
 
+    const evaluations = await Promise.all(
+      heuristics.map((crusherHeuristic) =>
+        runEvaluation({ engine: "crusher", input, options: { ...options, crusherHeuristic } }, signal),
+      ),
+    )
+
     let bestHeuristic = CrusherHeuristic.BALANCED
     let bestSize = Number.POSITIVE_INFINITY
     let bestOutput = ""
     let bestDetails = ""
 
-    // Try each heuristic
-    for (const heuristic of heuristics) {
-      const crusher = new Crusher(heuristic)
-      const result = crusher.runPacker(input, options)
-
-      if (result && result.length > 0 && result[0].result) {
-        // Get the size of the packed code
-        let size = Number.POSITIVE_INFINITY
-        let output = ""
-        let details = ""
-
-        // Prefer the second result (regexp version) if available
-        if (result[0].result.length >= 2 && result[0].result[1]) {
-          size = result[0].result[1].length
-          output = result[0].result[1].output || ""
-          details = result[0].result[1].details || ""
-        } else if (result[0].result.length >= 1 && result[0].result[0]) {
-          size = result[0].result[0].length
-          output = result[0].result[0].output || ""
-          details = result[0].result[0].details || ""
-        }
-
-        // Update best result if this is better
-        if (size < bestSize) {
-          bestSize = size
-          bestHeuristic = heuristic
-          bestOutput = output
-          bestDetails = details
-        }
-
-        // Add a small delay to allow UI updates
-        await new Promise((resolve) => setTimeout(resolve, 0))
+    evaluations.forEach((evaluation, i) => {
+      // Failed runs are left out, whatever their size
+      if (evaluation.error) return
+      // Update best result if this is better
+      if (evaluation.size < bestSize) {
+        bestSize = evaluation.size
+        bestHeuristic = heuristics[i]
+        bestOutput = evaluation.output
+        bestDetails = evaluation.details
       }
-    }
+    })
 
     return {
       heuristic: bestHeuristic,
@@ -147,20 +169,6 @@ export class Crusher {
     }
   }
 
-  /**
-   * Returns the total byte length of a string "as is" (with no further escaping)
-   */
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
-  }
-
-  /**
-   * Returns the byte length of a string after escaping
-   */
-  private getEscapedByteLength(inString: string): number {
-    return this.getByteLength(inString.replace(/\\/g, "\\\\"))
-  }
-
   /**
    * Calculate entropy of a string - used for better pattern selection
    * Higher entropy means more information content (less compressible)
@@ -191,30 +199,24 @@ export class Crusher {
   private compressWithPatterns(packerData: PackerData, options: PackerOptions): PackerResult {
     let s = packerData.contents
     packerData.matchesLookup = []
-    let details = ""
+    let details = packerData.log
+    const events: PackerEvent[] = []
+    this.delimiter = packerData.packedStringDelimiter
 
-    // Get available tokens
+    // Get available tokens, non-ASCII ones only when characters are counted
     const delimiterCode = packerData.packedStringDelimiter.charCodeAt(0)
-    const Q: string[] = []
-    for (let i = 0; ++i < 127; ) {
-      if (i - 96 && i - 13 && i - delimiterCode && i - 92) {
-        Q.push(String.fromCharCode(i))
-      }
-    }
+    const Q = this.stringHelper.getTokenCandidates(delimiterCode, this.costModel.countsCharacters)
 
     const matches: Record<string, number> = {}
     let tokens = ""
+    const initialIndex = new RepeatIndex(s)
+    let repeatIndex = initialIndex
     this.safetyCounter = 0
 
     // Enhanced pattern detection - multi-pass with context awareness
     while (this.safetyCounter++ < this.maxSafetyCount) {
       // Find an unused character to use as a token
-      let c = ""
-      for (let i = 122; !c && i > 0; i--) {
-        if (i < Q.length && s.indexOf(Q[i]) === -1) {
-          c = Q[i]
-        }
-      }
+      const c = Q.find((token) => s.indexOf(token) === -1) || ""
 
       // If no unused character is found, break the loop
       if (!c) break
@@ -224,9 +226,9 @@ export class Crusher {
 
       // Find patterns with advanced detection
       if (tokens.length === 1) {
-        this.findInitialPatterns(s, matches)
+        this.findInitialPatterns(repeatIndex, matches)
       } else {
-        this.updatePatternMatches(s, matches)
+        this.updatePatternMatches(repeatIndex, matches)
       }
 
       // Find the best match using the selected or adaptive heuristic strategy
@@ -279,7 +281,11 @@ export class Crusher {
         bestMatch = this.findBestMatch(matches, options, s.length)
       }
 
-      if (!bestMatch) break
+      if (!bestMatch) {
+        // The token found no match, leave it out of the unpacking loop
+        tokens = tokens.substr(1)
+        break
+      }
 
       const { pattern, score, gain, copies } = bestMatch
 
@@ -292,6 +298,7 @@ export class Crusher {
 
       // Apply the compression to the string
       s = this.stringHelper.matchAndReplaceAll(s, false, pattern, c, "", c + pattern, 0, [])
+      repeatIndex = repeatIndex.substitute(pattern, c, c + pattern)
 
       packerData.matchesLookup.push({
         token: c,
@@ -301,7 +308,7 @@ export class Crusher {
         usedBy: "",
         gain,
         copies,
-        len: this.getEscapedByteLength(pattern),
+        len: this.costModel.measureEscaped(pattern, this.delimiter),
         score,
         cleared: false,
         newOrder: 9999,
@@ -320,6 +327,7 @@ export class Crusher {
         ", str = " +
         pattern +
         "\n"
+      events.push({ type: "token-assigned", token: c, string: pattern, gain, copies, score })
     }
 
     // Analyze remaining potential patterns
@@ -331,19 +339,14 @@ export class Crusher {
     // Update matches count one last time
     const newMatches: Record<string, number> = {}
     for (const x in matches) {
-      let j = packerData.contents.indexOf(x)
-      newMatches[x] = 0
-      while (j !== -1) {
-        newMatches[x]++
-        j = packerData.contents.indexOf(x, j + x.length)
-      }
+      newMatches[x] = initialIndex.count(x)
     }
     Object.assign(matches, newMatches)
 
     // Analyze patterns with potential gain
     let firstLine = true
     for (const i in matches) {
-      const j = this.getEscapedByteLength(i)
+      const j = this.costModel.measureEscaped(i, this.delimiter)
       const R = matches[i]
       const Z = R * j - R - j - 2
 
@@ -354,6 +357,14 @@ export class Crusher {
         }
         const value = options.crushGainFactor * Z + options.crushLengthFactor * j + options.crushCopiesFactor * R
         details += "..( ) : val=" + value + ", gain=" + Z + ", N=" + R + ", str = " + i + "\n"
+        events.push({
+          type: "candidate-rejected",
+          string: i,
+          gain: Z,
+          copies: R,
+          score: value,
+          reason: "no token left",
+        })
         packerData.matchesLookup!.push({
           token: "",
           string: i,
@@ -373,7 +384,7 @@ export class Crusher {
     // Analyze patterns that are almost gains
     firstLine = true
     for (const i in matches) {
-      const j = this.getEscapedByteLength(i)
+      const j = this.costModel.measureEscaped(i, this.delimiter)
       const R = matches[i]
       const Z = R * j - R - j - 2
       const Z1 = (R + 1) * j - (R + 1) - j - 2
@@ -386,109 +397,51 @@ export class Crusher {
         const value = options.crushGainFactor * Z1 + options.crushLengthFactor * j + options.crushCopiesFactor * R
         details +=
           "   val=" + value + ", gain=" + Z + "->" + Z1 + " (+" + (Z1 - Z) + "), N=" + R + ", str = " + i + "\n"
+        events.push({ type: "near-miss", string: i, gain: Z, gainWithOneMore: Z1, copies: R, score: value })
       }
     }
 
-    // Prepare the packed string
-    const loopInitCode = options.useES6 ? ";for(i of" : ";for(i in G="
-    const loopMemberCode = options.useES6 ? "i" : "G[i]"
-
-    // Escape the backslashes present in the code
-    let packedString = this.stringHelper.matchAndReplaceAll(s, false, "\\", "\\\\", "", "", 0, [])
-
-    // Escape the occurrences of the string delimiter present in the code
-    packedString = this.stringHelper.matchAndReplaceAll(
-      packedString,
-      false,
-      packerData.packedStringDelimiter,
-      "\\" + packerData.packedStringDelimiter,
-      "",
-      "",
-      0,
-      [],
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "token-list",
+      tokens.length,
+      { varName: packerData.packedCodeVarName, payload: s, tokens, init: packerData.wrappedInit },
+      options,
+    )
+    const output = decoder.code + packerData.environment + packerData.interpreterCall
+    details += "Decoder: " + decoder.template.name + "\n"
+
+    const verification = this.executionVerifier.verify(output, packerData.contents)
+    events.push(verificationEvent(verification))
+    details += "------------------------\nFinal check: " + this.executionVerifier.describe(verification) + ".\n"
+
+    return verifiedResult(
+      {
+        length: this.costModel.measure(output),
+        output,
+        details,
+        events,
+      },
+      verification,
     )
-
-    // Put everything together
-    const unpackBlock1 = packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const unpackBlock2 =
-      packerData.packedStringDelimiter +
-      loopInitCode +
-      packerData.packedStringDelimiter +
-      tokens +
-      packerData.packedStringDelimiter +
-      ")with(" +
-      packerData.packedCodeVarName +
-      ".split(" +
-      loopMemberCode +
-      "))" +
-      packerData.packedCodeVarName +
-      "=join(pop("
-    const unpackBlock3 = "));"
-
-    const output =
-      unpackBlock1 +
-      packedString +
-      unpackBlock2 +
-      packerData.wrappedInit +
-      unpackBlock3 +
-      packerData.environment +
-      packerData.interpreterCall
-
-    return {
-      length: this.getByteLength(output),
-      output,
-      details,
-    }
   }
 
   /**
-   * Find initial patterns in the string
+   * Find initial patterns in the string : the maximal repeats, without overlap
    */
-  private findInitialPatterns(s: string, matches: Record<string, number>): void {
-    let found = true
-    for (let t = 2; found && this.safetyCounter++ < this.maxSafetyCount; ++t) {
-      found = false
-      // Use sliding window approach for better pattern detection
-      for (let i = 0; i < s.length - t; ++i) {
-        const beginCode = s.charCodeAt(i)
-        const endCode = s.charCodeAt(i + t - 1)
-
-        // Skip surrogate pairs that would be broken
-        if ((beginCode < 0xdc00 || beginCode > 0xdfff) && (endCode < 0xd800 || endCode > 0xdbff)) {
-          const x = s.substr(i, t)
-
-          // Skip if already processed
-          if (!matches[x]) {
-            // Check for repeated patterns
-            let j = s.indexOf(x, i + t)
-            if (j !== -1) {
-              found = true
-              matches[x] = 1
-
-              // Count all occurrences
-              while (j !== -1) {
-                matches[x]++
-                j = s.indexOf(x, j + t)
-              }
-            }
-          }
-        }
-      }
+  private findInitialPatterns(repeatIndex: RepeatIndex, matches: Record<string, number>): void {
+    for (const repeat of repeatIndex.findRepeats()) {
+      matches[repeat.string] = repeat.count
     }
   }
 
   /**
    * Update pattern matches after a token replacement
    */
-  private updatePatternMatches(s: string, matches: Record<string, number>): void {
+  private updatePatternMatches(repeatIndex: RepeatIndex, matches: Record<string, number>): void {
     const newMatches: Record<string, number> = {}
     for (const x in matches) {
-      let j = s.indexOf(x)
-      newMatches[x] = 0
-      while (j !== -1 && this.safetyCounter++ < this.maxSafetyCount) {
-        newMatches[x]++
-        j = s.indexOf(x, j + x.length)
-      }
+      newMatches[x] = repeatIndex.count(x)
     }
     Object.assign(matches, newMatches)
   }
@@ -530,7 +483,7 @@ export class Crusher {
     let bestCopies = 0
 
     for (const pattern in matches) {
-      const patternLength = this.getEscapedByteLength(pattern)
+      const patternLength = this.costModel.measureEscaped(pattern, this.delimiter)
       const copies = matches[pattern]
 
       // Calculate gain with enhanced formula
@@ -586,7 +539,7 @@ export class Crusher {
     let bestScore = 0
 
     for (const pattern in matches) {
-      const patternLength = this.getEscapedByteLength(pattern)
+      const patternLength = this.costModel.measureEscaped(pattern, this.delimiter)
       const copies = matches[pattern]
 
       // Calculate gain
@@ -607,7 +560,9 @@ export class Crusher {
       if (
         copies > bestCopies ||
         (copies === bestCopies && gain > bestGain) ||
-        (copies === bestCopies && gain === bestGain && patternLength > this.getEscapedByteLength(bestPattern))
+        (copies === bestCopies &&
+          gain === bestGain &&
+          patternLength > this.costModel.measureEscaped(bestPattern, this.delimiter))
       ) {
         bestPattern = pattern
         bestCopies = copies
@@ -633,7 +588,7 @@ export class Crusher {
     let bestCopies = 0
 
     for (const pattern in matches) {
-      const patternLength = this.getEscapedByteLength(pattern)
+      const patternLength = this.costModel.measureEscaped(pattern, this.delimiter)
       const copies = matches[pattern]
 
       // Calculate gain
@@ -681,7 +636,7 @@ export class Crusher {
     let bestCopies = 0
 
     for (const pattern in matches) {
-      const patternLength = this.getEscapedByteLength(pattern)
+      const patternLength = this.costModel.measureEscaped(pattern, this.delimiter)
       const copies = matches[pattern]
 
       // Calculate gain
@@ -727,7 +682,7 @@ export class Crusher {
     let bestCopies = 0
 
     for (const pattern in matches) {
-      const patternLength = this.getEscapedByteLength(pattern)
+      const patternLength = this.costModel.measureEscaped(pattern, this.delimiter)
       const copies = matches[pattern]
 
       // Calculate raw gain: copies * length
@@ -786,7 +741,8 @@ export class Crusher {
    * Second stage: optimize token usage and convert to regexp
    */
   private optimizeAndPackToRegexp(packerData: PackerData, options: PackerOptions): PackerResult {
-    let details = ""
+    let details = packerData.log
+    const events: PackerEvent[] = []
 
     // Build dependency graph for better token allocation
     this.buildDependencyGraph(packerData)
@@ -813,6 +769,10 @@ export class Crusher {
     // Prepare tokens for allocation
     const { costOneTokens, costTwoTokens } = this.prepareTokensForAllocation(packerData.tokenList!)
     const availableTokens = [...costOneTokens, ...costTwoTokens]
+    if (availableTokens.length === 0) {
+      // The character class only holds ASCII tokens : without any, the first stage result stands on its own
+      return failedResult("out-of-tokens", "No ASCII tokens left for the character class", details)
+    }
 
     // Pack with optimized token allocation
     const { regPackOutput, tokenLine, unusedBackslash } = this.packWithOptimizedTokens(
@@ -820,22 +780,28 @@ export class Crusher {
       options,
       availableTokens,
       details,
+      events,
     )
 
     // Handle edge cases and build the character class
-    const tokenString = this.buildCharacterClass(packerData.tokenList!, tokenLine, unusedBackslash)
+    const tokenString = this.buildCharacterClass(packerData.tokenList!, tokenLine, unusedBackslash, events)
 
     // Prepare the final packed string
-    const { regPackOutput2, resultSize } = this.prepareFinalOutput(packerData, regPackOutput, tokenString)
+    const { regPackOutput2, resultSize } = this.prepareFinalOutput(packerData, regPackOutput, tokenString, options)
 
     // Verify the unpacking works correctly
-    details += this.verifyUnpacking(packerData, regPackOutput2, tokenString)
-
-    return {
-      length: resultSize,
-      output: regPackOutput2,
-      details,
-    }
+    const verification = this.verifyUnpacking(packerData, regPackOutput2, events)
+    details += "------------------------\nFinal check: " + this.executionVerifier.describe(verification) + ".\n"
+
+    return verifiedResult(
+      {
+        length: resultSize,
+        output: regPackOutput2,
+        details,
+        events,
+      },
+      verification,
+    )
   }
 
   /**
@@ -981,6 +947,7 @@ export class Crusher {
     options: PackerOptions,
     availableTokens: number[],
     details: string,
+    events: PackerEvent[],
   ): {
     regPackOutput: string
     tokenLine: number
@@ -1005,7 +972,7 @@ export class Crusher {
       }
 
       const tokenCode = availableTokens[packerData.tokenCount]
-      const tokenCost = this.stringHelper.getCharacterLength(tokenCode)
+      const tokenCost = this.costModel.measureEscaped(String.fromCharCode(tokenCode), packerData.packedStringDelimiter)
 
       // Find best match for this token
       const result = this.findBestMatchForToken(packerData, options, regPackOutput, tokenCost)
@@ -1031,6 +998,14 @@ export class Crusher {
           ", str = " +
           matchedString +
           "\n"
+        events.push({
+          type: "token-assigned",
+          token,
+          string: matchedString,
+          gain: result.bestGain,
+          copies: result.bestCount,
+          score: result.bestScore,
+        })
 
         regPackOutput = this.stringHelper.matchAndReplaceAll(
           regPackOutput,
@@ -1057,6 +1032,13 @@ export class Crusher {
         for (let j = 0; j < packerData.matchesLookup!.length; ++j) {
           if (!packerData.matchesLookup![j].cleared) {
             details += "skipped str = " + packerData.matchesLookup![j].originalString + "\n"
+            events.push({
+              type: "candidate-rejected",
+              string: packerData.matchesLookup![j].originalString,
+              gain: packerData.matchesLookup![j].gain,
+              copies: packerData.matchesLookup![j].copies,
+              reason: "no gain with the tokens left",
+            })
           }
         }
         gainsRemaining = false
@@ -1066,7 +1048,6 @@ export class Crusher {
     // Map tokens used to actual ranges (lines)
     let tokenLine = 0
     this.tokenIndex = 0
-    packerData.tokenIndex = 0
     const unusedBackslash =
       availableTokens.length > 0 &&
       availableTokens[availableTokens.length - 1] === 92 &&
@@ -1075,13 +1056,13 @@ export class Crusher {
     if (packerData.tokenList!.length === 0) {
       // No tokens available
       details += "No tokens available\nFinal check: failed"
-      throw new Error("No tokens available")
+      throw new PackerError("out-of-tokens", "No tokens available")
     }
 
     if (packerData.tokenCount >= availableTokens.length) {
       // All available tokens in use
       tokenLine = packerData.tokenList!.length - 1
-      packerData.tokenIndex = packerData.tokenList![packerData.tokenList!.length - 1].count
+      this.tokenIndex = packerData.tokenList![packerData.tokenList!.length - 1].count
     } else if (packerData.tokenCount > 0) {
       const lastTokenUsed = availableTokens[packerData.tokenCount - 1]
       let lineFound = false
@@ -1103,7 +1084,7 @@ export class Crusher {
           lastTokenUsed <= packerData.tokenList![tokenLine].last
         ) {
           lineFound = true
-          packerData.tokenIndex = lastTokenUsed - packerData.tokenList![tokenLine].first + 1
+          this.tokenIndex = lastTokenUsed - packerData.tokenList![tokenLine].first + 1
         } else {
           ++tokenLine
         }
@@ -1195,6 +1176,7 @@ export class Crusher {
     }>,
     tokenLine: number,
     unusedBackslash: boolean,
+    events: PackerEvent[],
   ): string {
     // First identify if we have leftover tokens in the last range
     const remainingTokens = tokenList[tokenLine].count - this.tokenIndex
@@ -1216,6 +1198,13 @@ export class Crusher {
     let tokenString = ""
     for (let i = 0; i <= tokenLine; ++i) {
       const rangeString = this.stringHelper.writeRangeToRegexpCharClass(tokenList[i].first, tokenList[i].last)
+      events.push({
+        type: "range-chosen",
+        first: tokenList[i].first,
+        last: tokenList[i].last,
+        charClass: rangeString,
+        cost: rangeString.length,
+      })
       // If a token line consists in a single "-", add it at the beginning
       if (rangeString.charCodeAt(0) === 45) {
         tokenString = rangeString + tokenString
@@ -1301,83 +1290,33 @@ export class Crusher {
     packerData: PackerData,
     regPackOutput: string,
     tokenString: string,
+    options: PackerOptions,
   ): { regPackOutput2: string; resultSize: number } {
-    // Escape the backslashes in the compressed code
-    let checkedString = this.stringHelper.matchAndReplaceAll(regPackOutput, false, "\\", "\\\\", "", "", 0, [])
-
-    // Escape the occurrences of the string delimiter
-    checkedString = this.stringHelper.matchAndReplaceAll(
-      checkedString,
-      false,
-      packerData.packedStringDelimiter,
-      "\\" + packerData.packedStringDelimiter,
-      "",
-      "",
-      0,
-      [],
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "regexp",
+      packerData.tokenCount!,
+      {
+        varName: packerData.packedCodeVarName,
+        payload: regPackOutput,
+        tokens: tokenString,
+        init: packerData.wrappedInit,
+      },
+      options,
     )
+    const regPackOutput2 = decoder.code + packerData.environment + packerData.interpreterCall
 
-    // Add the unpacking code to the compressed string
-    const unpackBlock1 = "for(" + packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const unpackBlock2 =
-      packerData.packedStringDelimiter +
-      ";G=/[" +
-      tokenString +
-      "]/.exec(" +
-      packerData.packedCodeVarName +
-      ");)with(" +
-      packerData.packedCodeVarName +
-      ".split(G))" +
-      packerData.packedCodeVarName +
-      "=join(shift("
-    const unpackBlock3 = "));"
-
-    const regPackOutput2 =
-      unpackBlock1 +
-      checkedString +
-      unpackBlock2 +
-      packerData.wrappedInit +
-      unpackBlock3 +
-      packerData.environment +
-      packerData.interpreterCall
-
-    const resultSize = this.getByteLength(regPackOutput2)
+    const resultSize = this.costModel.measure(regPackOutput2)
 
     return { regPackOutput2, resultSize }
   }
 
   /**
-   * Verify unpacking works correctly
+   * Verify unpacking works correctly, by running the packed program
    */
-  private verifyUnpacking(packerData: PackerData, regPackOutput2: string, tokenString: string): string {
-    let details = "------------------------\nFinal check: "
-
-    // Extract the packed string from the output
-    const startDelimiter = packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const endDelimiter = packerData.packedStringDelimiter + ";"
-
-    const startIndex = regPackOutput2.indexOf(startDelimiter) + startDelimiter.length
-    const endIndex = regPackOutput2.indexOf(endDelimiter, startIndex)
-
-    let testString = regPackOutput2.substring(startIndex, endIndex)
-
-    // Unescape the string
-    testString = testString.replace(
-      new RegExp("\\\\" + packerData.packedStringDelimiter, "g"),
-      packerData.packedStringDelimiter,
-    )
-    testString = testString.replace(/\\\\/g, "\\")
-
-    // Simulate the unpacking process
-    const regToken = new RegExp("[" + tokenString + "]", "")
-    for (let token = ""; (token = regToken.exec(testString)); ) {
-      const k = testString.split(token)
-      testString = k.join(k.shift())
-    }
-
-    const success = testString === packerData.contents
-    details += (success ? "passed" : "failed") + ".\n"
-
-    return details
+  private verifyUnpacking(packerData: PackerData, regPackOutput2: string, events: PackerEvent[]): VerificationResult {
+    const verification = this.executionVerifier.verify(regPackOutput2, packerData.contents)
+    events.push(verificationEvent(verification))
+    return verification
   }
 }
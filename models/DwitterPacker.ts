@@ -0,0 +1,151 @@
+import { PackerData } from "./PackerData"
+import { type CharPacker, getCharPacker } from "./CharPacker"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import type { PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { caughtFailure, failedResult, verifiedResult } from "../utils/PackerStatus"
+import { type TargetPreset, getTargetPreset, measureBudget } from "../utils/TargetPresets"
+
+// Names the body of u(t) can rely on : the function itself, the time, the canvas, its context and the helpers
+export const DWITTER_GLOBALS = ["u", "t", "c", "x", "S", "C", "T", "R"]
+
+// Character packers wrapped for Dwitter, in order of preference on a tie
+const CHAR_PACKER_IDS = ["2-1", "2-1+", "3-1", "4-1"]
+
+// Property of u holding the decoded code from one frame to the next
+const CACHE = "u.d"
+
+/**
+ * DwitterPacker - packs a dweet, the body of function u(t) that Dwitter calls on every frame.
+ * The character packers evaluate their whole decoder on each call : here the decoded code is kept in u.d
+ * on the first frame and evaluated from there on the next ones. Decoders overwriting one of the Dwitter
+ * globals are rejected, as the overwritten value would be lost to every later frame.
+ * The results are measured in the unit of the cost target, characters (code points) under the dwitter preset,
+ * and the details give their size against the 140 characters of a dweet.
+ */
+export class DwitterPacker {
+  private preset: TargetPreset
+  private costModel: CostModel
+
+  constructor() {
+    this.preset = getTargetPreset("dwitter")
+    this.costModel = getCostModel()
+  }
+
+  /**
+   * Main entry point for the packer
+   * @param input The body of u(t)
+   * @param options The cost target the results are measured in, the rules of Dwitter fixing the decoder
+   * @return An array of PackerData, the unpacked dweet followed by one per character packer, each holding a single result
+   */
+  public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
+    try {
+      const rawData = new PackerData("Dwitter", input)
+      rawData.result.push(this.describe(input, "none, the dweet as typed", ""))
+      const inputList = [rawData]
+
+      for (const id of CHAR_PACKER_IDS) {
+        const packer = getCharPacker(id)
+        const packerData = new PackerData("Dwitter " + packer.name, input)
+        packerData.result.push(timeStage(id, () => this.pack(input, packer)))
+        inputList.push(packerData)
+      }
+
+      return inputList
+    } catch (error) {
+      console.error("Error in DwitterPacker:", error)
+      const errorData = new PackerData("Error", input)
+      errorData.result.push(caughtFailure(error))
+      return [errorData]
+    }
+  }
+
+  /**
+   * Packs the dweet with a character packer, then caches the decoded code in u.d
+   */
+  private pack(input: string, packer: CharPacker): PackerResult {
+    const { packed } = packer.pack(input)
+    if (!packed || packed.startsWith("Error")) {
+      return failedResult("no-output", packed || "no output generated")
+    }
+    const output = this.cacheDecodedCode(packed)
+    if (!output) {
+      return failedResult("no-output", packer.name + " does not end with an eval call")
+    }
+    const overwritten = this.findOverwrittenGlobals(packed)
+    if (overwritten.length > 0) {
+      return failedResult("unsafe-decoder", "the decoder overwrites " + overwritten.join(", "))
+    }
+
+    const verification = packer.verify(input, this.firstFrame(output))
+    const check = getExecutionVerifier().describe(verification)
+    const events = [verificationEvent(verification)]
+    if (!verification.success) {
+      const length = this.costModel.measure(output)
+      return verifiedResult({ length, output, details: "Error: verification " + check, events }, verification)
+    }
+    return { ...this.describe(output, packer.name + ", decoded on the first frame into " + CACHE, check), events }
+  }
+
+  /**
+   * Successful result for a dweet, measured in the unit of the cost target, with its size against the limit
+   */
+  private describe(output: string, decoder: string, verification: string): PackerResult {
+    const budget = measureBudget(output, this.preset)
+    let details = "Decoder: " + decoder + "\n"
+    details +=
+      "Size: " +
+      budget.size +
+      " of " +
+      budget.limit +
+      " " +
+      budget.unit +
+      ", " +
+      (budget.remaining >= 0 ? budget.remaining + " left" : -budget.remaining + " over the limit") +
+      "\n"
+    if (verification) details += "Verification: " + verification + ".\n"
+    return { length: this.costModel.measure(output), output, details, status: "success" }
+  }
+
+  /**
+   * Rewrites a packed program so that its decoder only runs once : eval(E) becomes eval(u.d||=E),
+   * and a decoder building the code in a variable runs only while u.d is unset. Returns null for another shape.
+   */
+  private cacheDecodedCode(packed: string): string | null {
+    const expression = /^eval\(([\s\S]*)\)$/.exec(packed)
+    if (expression) {
+      return "eval(" + CACHE + "||=" + expression[1] + ")"
+    }
+    const statements = /^([\s\S]*);eval\(([A-Za-z_$][\w$]*)\)$/.exec(packed)
+    if (statements) {
+      return "if(!" + CACHE + "){" + statements[1] + ";" + CACHE + "=" + statements[2] + "}eval(" + CACHE + ")"
+    }
+    return null
+  }
+
+  /**
+   * Dwitter globals assigned by the decoder of a packed program, the contents of its literals left out
+   */
+  private findOverwrittenGlobals(packed: string): string[] {
+    const decoder = packed.replace(/`(?:[^`\\]|\\[\s\S])*`|"(?:[^"\\]|\\[\s\S])*"|'(?:[^'\\]|\\[\s\S])*'/g, "``")
+    const assigned = new Set<string>()
+    for (const match of decoder.matchAll(
+      /(?<![\w$.])([A-Za-z_$][\w$]*)\s*(?:\*\*|<<|>>>?|[-+*/%&|^]|&&|\|\||\?\?)?=(?!=)/g,
+    )) {
+      assigned.add(match[1])
+    }
+    for (const match of decoder.matchAll(/for\((?:let |var |const )?([A-Za-z_$][\w$]*) (?:of|in)\b/g)) {
+      assigned.add(match[1])
+    }
+    return DWITTER_GLOBALS.filter((name) => assigned.has(name))
+  }
+
+  /**
+   * Program running the first frame of a dweet, for the execution verifier
+   */
+  private firstFrame(body: string): string {
+    return "(u=function(t){" + body + "\n})(0)"
+  }
+}
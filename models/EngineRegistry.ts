@@ -0,0 +1,325 @@
+import type { PackerOptions, PackerResult } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { failedResult, isSuccessful, verifiedResult } from "../utils/PackerStatus"
+import { getDeflater } from "../utils/Deflate"
+import { PackerData } from "./PackerData"
+import type { ParameterSchema } from "./ParameterSchema"
+import { RegPack } from "./RegPack"
+import { SlowPack } from "./SlowPack"
+import { GrammarPack } from "./GrammarPack"
+import { Crusher } from "./Crusher"
+import { Replacer } from "./Replacer"
+import { ContextMixer } from "./ContextMixer"
+import { LZPacker } from "./LZPacker"
+import { getCharPacker } from "./CharPacker"
+import { DwitterPacker } from "./DwitterPacker"
+
+/**
+ * What every engine provides : one PackerData per preprocessed variant of the input
+ */
+export interface Packer {
+  runPacker(input: string, options: PackerOptions): PackerData[]
+  // Stops the worker of an asynchronous engine
+  terminate?(): void
+}
+
+/**
+ * What an engine does beyond packing, for the UI to show or hide the matching controls
+ */
+export interface EngineCapabilities {
+  // Can complete in a worker of its own (options.useBranchSearch), the result then reaching options.onComplete
+  async: boolean
+  // Fills PackerData.searchGraph
+  searchGraph: boolean
+  // Fills PackerData.matchesLookup, drawn by the pattern view
+  matchesLookup: boolean
+  // Slow on large inputs : only run when selected, left out of the comparisons
+  slow: boolean
+  // What the engine reduces : bytes, or characters (its output holding multi-byte characters)
+  objective: "bytes" | "chars"
+  // Id of the only target preset the engine packs for : left out of the runs and comparisons of every other target
+  target?: string
+}
+
+/**
+ * An engine as registered : everything the CLI, the pipelines and the UI need to run and present it
+ */
+export interface EngineDescriptor {
+  id: string
+  name: string
+  description: string
+  // Title of the tab showing the engine
+  tab: string
+  // Options searched by the optimizer
+  parameters: ParameterSchema
+  // Fields of the option form : the parameters, followed by the settings the optimizer leaves alone
+  options: ParameterSchema
+  capabilities: EngineCapabilities
+  create: () => Packer
+}
+
+/**
+ * Tab of the UI, with the engines it shows in registration order
+ */
+export interface EngineTab {
+  title: string
+  engines: EngineDescriptor[]
+}
+
+// Capabilities of a dictionary packer writing a RegPack-style decoder
+const DICTIONARY_CAPABILITIES: EngineCapabilities = {
+  async: false,
+  searchGraph: false,
+  matchesLookup: true,
+  slow: false,
+  objective: "bytes",
+}
+
+/**
+ * EngineRegistry - lists the available engines. Registering an engine is enough for it
+ * to appear in the CLI, in the optimizers and in the tabs, option forms and comparisons of the UI.
+ */
+export class EngineRegistry {
+  private static instance: EngineRegistry
+  private engines = new Map<string, EngineDescriptor>()
+
+  private constructor() {
+    registerBuiltInEngines(this)
+  }
+
+  public static getInstance(): EngineRegistry {
+    if (!EngineRegistry.instance) {
+      EngineRegistry.instance = new EngineRegistry()
+    }
+    return EngineRegistry.instance
+  }
+
+  public register(engine: EngineDescriptor): void {
+    if (this.engines.has(engine.id)) {
+      throw new Error("Engine already registered: " + engine.id)
+    }
+    this.engines.set(engine.id, { ...engine, create: () => withSizeObjective(engine.create()) })
+  }
+
+  public has(id: string): boolean {
+    return this.engines.has(id)
+  }
+
+  public get(id: string): EngineDescriptor {
+    const engine = this.engines.get(id)
+    if (!engine) {
+      throw new Error("Unknown engine: " + id)
+    }
+    return engine
+  }
+
+  /**
+   * Returns the engines in registration order, optionally only the ones accepted by the filter
+   */
+  public list(filter?: (engine: EngineDescriptor) => boolean): EngineDescriptor[] {
+    const engines = [...this.engines.values()]
+    return filter ? engines.filter(filter) : engines
+  }
+
+  /**
+   * Returns the engines packing for a target : the ones dedicated to it if there are any,
+   * otherwise the ones not dedicated to a target. Optionally only the ones accepted by the filter.
+   */
+  public listForTarget(target?: string, filter?: (engine: EngineDescriptor) => boolean): EngineDescriptor[] {
+    const dedicated = this.list((engine) => !!target && engine.capabilities.target === target)
+    const engines = dedicated.length > 0 ? dedicated : this.list((engine) => !engine.capabilities.target)
+    return filter ? engines.filter(filter) : engines
+  }
+
+  /**
+   * Returns the tabs in the order of their first engine
+   */
+  public getTabs(): EngineTab[] {
+    const tabs = new Map<string, EngineTab>()
+    for (const engine of this.engines.values()) {
+      const tab = tabs.get(engine.tab) ?? { title: engine.tab, engines: [] }
+      tab.engines.push(engine)
+      tabs.set(engine.tab, tab)
+    }
+    return [...tabs.values()]
+  }
+}
+
+export const getEngineRegistry = (): EngineRegistry => EngineRegistry.getInstance()
+
+/**
+ * Measures a successful result in a zip file : its length becomes the zipped size
+ */
+function applyZippedObjective(result: PackerResult, options: PackerOptions): PackerResult {
+  if (isSuccessful(result)) {
+    result.zippedLength = getDeflater().zipSize(result.output, options.optimizeZip)
+    result.details += "Zipped size: " + result.zippedLength + " bytes (" + result.length + " unzipped)\n"
+    result.length = result.zippedLength
+  }
+  return result
+}
+
+/**
+ * Ranks the results of an engine by the objective of the options. The engines themselves score their
+ * replacements in the cost target : under the zipped objective, their results are measured zipped afterwards,
+ * the ones completed by a worker included.
+ */
+function withSizeObjective(packer: Packer): Packer {
+  return {
+    runPacker: (input: string, options: PackerOptions): PackerData[] => {
+      if (options.objective !== "zipped") {
+        return packer.runPacker(input, options)
+      }
+      const { onComplete } = options
+      const packerDataList = packer.runPacker(input, {
+        ...options,
+        onComplete: onComplete && ((result) => onComplete(applyZippedObjective(result, options))),
+      })
+      for (const packerData of packerDataList) {
+        packerData.result = packerData.result.map((result) => result && applyZippedObjective(result, options))
+      }
+      return packerDataList
+    },
+    terminate: packer.terminate && (() => packer.terminate!()),
+  }
+}
+
+/**
+ * Wraps a character packer as an engine : its single result is the packed program, once verified
+ */
+function charPackerEngine(type: string): EngineDescriptor {
+  const { name, description } = getCharPacker(type)
+  return {
+    id: type,
+    name,
+    description,
+    tab: "Character packers",
+    parameters: [],
+    options: [],
+    capabilities: { async: false, searchGraph: false, matchesLookup: false, slow: false, objective: "chars" },
+    create: () => ({
+      runPacker: (input: string, options: PackerOptions): PackerData[] => {
+        const packer = getCharPacker(type)
+        const packerData = new PackerData(name, input)
+        const result = timeStage(type, (): PackerResult => {
+          const { packed } = packer.pack(input)
+          if (!packed || packed.startsWith("Error")) {
+            return failedResult("no-output", packed || "no output generated", packed || "Error: no output generated")
+          }
+          const verification = packer.verify(input, packed)
+          const check = getExecutionVerifier().describe(verification)
+          const events = [verificationEvent(verification)]
+          return verifiedResult(
+            {
+              length: getCostModel(options.costTarget).measure(packed),
+              output: packed,
+              details: verification.success ? "Verification: " + check + ".\n" : "Error: verification " + check,
+              events,
+            },
+            verification,
+          )
+        })
+        packerData.result.push(result)
+        return [packerData]
+      },
+    }),
+  }
+}
+
+function registerBuiltInEngines(registry: EngineRegistry): void {
+  registry.register({
+    id: "regpack",
+    name: "RegPack",
+    description: "Original RegPack implementation",
+    tab: "RegPack",
+    parameters: RegPack.parameters,
+    options: RegPack.parameters,
+    capabilities: DICTIONARY_CAPABILITIES,
+    create: () => new RegPack(),
+  })
+  registry.register({
+    id: "slowpack",
+    name: "SlowPack",
+    description: "Beam search over the replacement sequences, with a multi-level gain prediction",
+    tab: "SlowPack (Beam Search)",
+    parameters: SlowPack.parameters,
+    options: SlowPack.parameters,
+    capabilities: { ...DICTIONARY_CAPABILITIES, slow: true },
+    create: () => new SlowPack(),
+  })
+  registry.register({
+    id: "replacer",
+    name: "Replacer",
+    description: "Minimal packer using digit replacements (input must not contain digits 0-9)",
+    tab: "Regex Packers",
+    parameters: Replacer.parameters,
+    options: [
+      ...Replacer.parameters,
+      { name: "useBranchSearch", label: "Web Worker Branch Search (optimal but non-blocking)", type: "boolean" },
+    ],
+    capabilities: { ...DICTIONARY_CAPABILITIES, async: true, searchGraph: true },
+    create: () => new Replacer(),
+  })
+  registry.register({
+    id: "crusher",
+    name: "Crusher",
+    description: "RegPack with context-aware pattern selection heuristics",
+    tab: "Regex Packers",
+    parameters: Crusher.parameters,
+    options: Crusher.parameters,
+    capabilities: DICTIONARY_CAPABILITIES,
+    create: () => new Crusher(),
+  })
+  registry.register({
+    id: "grammarpack",
+    name: "GrammarPack",
+    description: "Re-Pair grammar, pruned to the rules worth a token, written for the RegPack decoder",
+    tab: "Regex Packers",
+    parameters: GrammarPack.parameters,
+    options: GrammarPack.parameters,
+    capabilities: DICTIONARY_CAPABILITIES,
+    create: () => new GrammarPack(),
+  })
+  registry.register({
+    id: "contextmixer",
+    name: "ContextMixer",
+    description: "Arithmetic coding with context mixing, wins on inputs above ~2 KB but decodes slowly",
+    tab: "Regex Packers",
+    parameters: [],
+    options: [],
+    capabilities: { ...DICTIONARY_CAPABILITIES, matchesLookup: false, slow: true },
+    create: () => new ContextMixer(),
+  })
+  registry.register({
+    id: "lz77",
+    name: "LZ77",
+    description: "Literal runs and copies of earlier output, needs no free tokens in the input",
+    tab: "Regex Packers",
+    parameters: [],
+    options: [],
+    capabilities: { ...DICTIONARY_CAPABILITIES, matchesLookup: false },
+    create: () => new LZPacker(),
+  })
+  for (const type of ["2-1", "2-1+", "3-1", "4-1"]) {
+    registry.register(charPackerEngine(type))
+  }
+  registry.register({
+    id: "dwitter",
+    name: "Dwitter",
+    description: "Body of u(t) under 140 characters, decoded on the first frame and kept in u.d",
+    tab: "Dwitter",
+    parameters: [],
+    options: [],
+    capabilities: {
+      async: false,
+      searchGraph: false,
+      matchesLookup: false,
+      slow: false,
+      objective: "chars",
+      target: "dwitter",
+    },
+    create: () => new DwitterPacker(),
+  })
+}
@@ -0,0 +1,329 @@
+import { StringHelper } from "../utils/StringHelper"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { PackerData } from "./PackerData"
+import type { Match, PackerEvent, PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { caughtFailure, verifiedResult } from "../utils/PackerStatus"
+import { RegExpPacker } from "./RegExpPacker"
+import { Preprocessor } from "./Preprocessor"
+import type { ParameterSchema } from "./ParameterSchema"
+
+/**
+ * Straight-line grammar produced by Re-Pair. Symbols below NONTERMINAL_BASE are code points,
+ * symbol NONTERMINAL_BASE + r stands for rule r. Rule 0 is the axiom : the whole text, rewritten with the rules.
+ */
+interface Grammar {
+  // Right-hand side of each rule, a pair of symbols for all the rules but the axiom
+  bodies: number[][]
+  // For each rule, the number of times each rule appears in its expansion once the pruned rules are inlined
+  children: Map<number, number>[]
+  // For each rule, the rules using it
+  parents: Set<number>[]
+  // Number of times each rule is written in the packed string, in the axiom or in the bodies of the other rules
+  uses: number[]
+  // Cost of the body of each rule, each rule left in it costing one token
+  bodyCosts: number[]
+  // Rules kept, each one gets a token
+  live: boolean[]
+}
+
+const NONTERMINAL_BASE = 0x110000
+// Pairs of symbols are numbered symbol1 * PAIR_BASE + symbol2
+const PAIR_BASE = 1 << 22
+// Cost of a token in the packed string, non-ASCII tokens are only used when characters are counted
+const TOKEN_COST = 1
+
+/**
+ * GrammarPack - builds a hierarchical grammar of the input with Re-Pair (the most frequent pair
+ * of symbols becomes a rule, until no pair repeats), then prunes the rules that do not pay for themselves
+ * by inlining them into the rules using them. The surviving rules are the patterns of a RegPack-style
+ * decoder : unlike the greedy engines, each pattern is chosen knowing all the nested ones.
+ */
+export class GrammarPack {
+  // Options searched by the optimizer
+  public static readonly parameters: ParameterSchema = [{ name: "useES6", label: "ES6", type: "boolean" }]
+
+  private stringHelper: StringHelper
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
+  private regExpPacker: RegExpPacker
+  private preprocessor: Preprocessor
+
+  constructor() {
+    this.stringHelper = StringHelper.getInstance()
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
+    this.regExpPacker = new RegExpPacker()
+    this.preprocessor = new Preprocessor()
+  }
+
+  /**
+   * Main entry point for the packer
+   * @param input A string containing the program to pack
+   * @param options An object detailing the different options for the preprocessor and packer
+   * @return An array of PackerData, each holding the grammar output and the regular expression output
+   */
+  public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
+    try {
+      const inputList = this.preprocessor.preprocessCode(input, options, "GrammarPack")
+
+      for (const inputData of inputList) {
+        // First stage: grammar rules as split / join patterns
+        const output = timeStage("grammar", () => this.packWithGrammar(inputData, options))
+        inputData.result.push(output)
+
+        // Second stage: same as RegPack, the rules become the patterns of the regular expression
+        const output2 = timeStage("regexp", () => this.regExpPacker.packToRegexpCharClass(inputData, options))
+        inputData.result.push(output2)
+      }
+
+      return inputList
+    } catch (error) {
+      console.error("Error in GrammarPack:", error)
+      const errorData = new PackerData("Error", input)
+      const errorResult = caughtFailure(error)
+      errorData.result.push(errorResult)
+      errorData.result.push(errorResult)
+      return [errorData]
+    }
+  }
+
+  /**
+   * First stage: builds and prunes the grammar, then writes it for the split / join decoder
+   */
+  private packWithGrammar(packerData: PackerData, options: PackerOptions): PackerResult {
+    let details = packerData.log
+    const events: PackerEvent[] = []
+
+    // Tokens are the characters absent from the code, non-ASCII ones only when characters are counted
+    const delimiterCode = packerData.packedStringDelimiter.charCodeAt(0)
+    const availableTokens = this.stringHelper
+      .getTokenCandidates(delimiterCode, this.costModel.countsCharacters)
+      .filter((token) => packerData.contents.indexOf(token) === -1)
+
+    const grammar = this.buildGrammar(packerData.contents, packerData.packedStringDelimiter)
+    const ruleCount = grammar.bodies.length - 1
+    this.pruneGrammar(grammar, availableTokens.length)
+
+    // Tokens follow the creation order : a rule only uses rules created before it
+    const tokenOf: string[] = []
+    let tokenCount = 0
+    for (let r = 1; r < grammar.bodies.length; ++r) {
+      if (grammar.live[r]) {
+        tokenOf[r] = availableTokens[tokenCount++]
+      }
+    }
+    details += "Grammar: " + ruleCount + " rules built, " + tokenCount + " kept\n"
+
+    const expansions: string[] = []
+    const expand = (symbol: number): string => {
+      if (symbol < NONTERMINAL_BASE) return String.fromCodePoint(symbol)
+      const r = symbol - NONTERMINAL_BASE
+      if (expansions[r] === undefined) {
+        expansions[r] = grammar.bodies[r].map(expand).join("")
+      }
+      return expansions[r]
+    }
+    // Writes a body with tokens for the kept rules, inlining the pruned ones
+    const write = (symbols: number[]): string =>
+      symbols
+        .map((symbol) => {
+          if (symbol < NONTERMINAL_BASE) return String.fromCodePoint(symbol)
+          const r = symbol - NONTERMINAL_BASE
+          return grammar.live[r] ? tokenOf[r] : write(grammar.bodies[r])
+        })
+        .join("")
+
+    // Each definition is appended after the code, the decoder expands the last one first
+    let s = write(grammar.bodies[0])
+    let tokens = ""
+    const matches: Match[] = []
+    for (let r = 1; r < grammar.bodies.length; ++r) {
+      if (!grammar.live[r]) continue
+      const token = tokenOf[r]
+      const body = write(grammar.bodies[r])
+      const gain = this.getGain(grammar, r)
+      s += token + body
+      tokens = token + tokens
+      matches.push({
+        token,
+        string: body,
+        originalString: expand(NONTERMINAL_BASE + r),
+        depends: [...grammar.children[r].keys()].map((child) => tokenOf[child]).join(""),
+        usedBy: [...grammar.parents[r]]
+          .filter((parent) => parent > 0)
+          .map((parent) => tokenOf[parent])
+          .join(""),
+        gain,
+        copies: grammar.uses[r],
+        len: this.costModel.measureEscaped(expand(NONTERMINAL_BASE + r), packerData.packedStringDelimiter),
+        score: gain,
+        cleared: false,
+        newOrder: 9999,
+      })
+      details += token.charCodeAt(0) + "(" + token + ") : gain=" + gain + ", N=" + grammar.uses[r]
+      details += ", str = " + expand(NONTERMINAL_BASE + r) + "\n"
+      events.push({
+        type: "token-assigned",
+        token,
+        string: expand(NONTERMINAL_BASE + r),
+        gain,
+        copies: grammar.uses[r],
+      })
+    }
+    packerData.matchesLookup = matches
+
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "token-list",
+      tokens.length,
+      { varName: packerData.packedCodeVarName, payload: s, tokens, init: packerData.wrappedInit },
+      options,
+    )
+    const output = decoder.code + packerData.environment + packerData.interpreterCall
+    details += "Decoder: " + decoder.template.name + "\n"
+
+    const verification = this.executionVerifier.verify(output, packerData.contents)
+    events.push(verificationEvent(verification))
+    details += "------------------------\nFinal check: "
+    details += this.executionVerifier.describe(verification) + ".\n"
+
+    return verifiedResult(
+      {
+        length: this.costModel.measure(output),
+        output,
+        details,
+        events,
+      },
+      verification,
+    )
+  }
+
+  /**
+   * Re-Pair : replaces the most frequent pair of adjacent symbols by a new rule, until every pair is unique.
+   * Pairs are counted without overlap, the way the decoder would replace them.
+   */
+  private buildGrammar(contents: string, delimiter: string): Grammar {
+    let sequence = Array.from(contents, (char) => char.codePointAt(0)!)
+    const bodies: number[][] = [[]]
+
+    while (true) {
+      const counts = new Map<number, number>()
+      // Position following the last counted occurrence of each pair
+      const ends = new Map<number, number>()
+      let bestPair = -1
+      let bestCount = 1
+      for (let i = 0; i + 1 < sequence.length; ++i) {
+        const pair = sequence[i] * PAIR_BASE + sequence[i + 1]
+        // In a run such as "aaa", the second pair overlaps the first one
+        if ((ends.get(pair) || 0) > i) continue
+        ends.set(pair, i + 2)
+        const count = (counts.get(pair) || 0) + 1
+        counts.set(pair, count)
+        if (count > bestCount) {
+          bestCount = count
+          bestPair = pair
+        }
+      }
+      if (bestPair < 0) break
+
+      const first = Math.floor(bestPair / PAIR_BASE)
+      const second = bestPair % PAIR_BASE
+      const symbol = NONTERMINAL_BASE + bodies.length
+      bodies.push([first, second])
+
+      const rewritten: number[] = []
+      for (let i = 0; i < sequence.length; ++i) {
+        if (i + 1 < sequence.length && sequence[i] === first && sequence[i + 1] === second) {
+          rewritten.push(symbol)
+          ++i
+        } else {
+          rewritten.push(sequence[i])
+        }
+      }
+      sequence = rewritten
+    }
+    bodies[0] = sequence
+
+    const grammar: Grammar = {
+      bodies,
+      children: bodies.map(() => new Map<number, number>()),
+      parents: bodies.map(() => new Set<number>()),
+      uses: bodies.map(() => 0),
+      bodyCosts: bodies.map(() => 0),
+      live: bodies.map((_, r) => r > 0),
+    }
+    bodies.forEach((body, r) => {
+      for (const symbol of body) {
+        if (symbol < NONTERMINAL_BASE) {
+          grammar.bodyCosts[r] += this.costModel.measureEscaped(String.fromCodePoint(symbol), delimiter)
+        } else {
+          const child = symbol - NONTERMINAL_BASE
+          grammar.bodyCosts[r] += TOKEN_COST
+          grammar.children[r].set(child, (grammar.children[r].get(child) || 0) + 1)
+          grammar.parents[child].add(r)
+          ++grammar.uses[child]
+        }
+      }
+    })
+    return grammar
+  }
+
+  /**
+   * Inlines the rule with the lowest gain until every rule left has a positive gain and a token
+   */
+  private pruneGrammar(grammar: Grammar, tokenCount: number): void {
+    let liveCount = grammar.bodies.length - 1
+    while (liveCount > 0) {
+      let worst = -1
+      let worstGain = Number.POSITIVE_INFINITY
+      for (let r = 1; r < grammar.bodies.length; ++r) {
+        if (grammar.live[r]) {
+          const gain = this.getGain(grammar, r)
+          if (gain < worstGain) {
+            worstGain = gain
+            worst = r
+          }
+        }
+      }
+      if (worstGain > 0 && liveCount <= tokenCount) break
+      this.inline(grammar, worst)
+      --liveCount
+    }
+  }
+
+  /**
+   * Replaces a rule by its body wherever it is used
+   */
+  private inline(grammar: Grammar, r: number): void {
+    const { children, parents, uses, bodyCosts } = grammar
+    for (const parent of parents[r]) {
+      const count = children[parent].get(r)!
+      children[parent].delete(r)
+      bodyCosts[parent] += count * (bodyCosts[r] - TOKEN_COST)
+      for (const [child, childCount] of children[r]) {
+        children[parent].set(child, (children[parent].get(child) || 0) + count * childCount)
+        parents[child].add(parent)
+      }
+    }
+    for (const [child, childCount] of children[r]) {
+      parents[child].delete(r)
+      uses[child] += (uses[r] - 1) * childCount
+    }
+    grammar.live[r] = false
+  }
+
+  /**
+   * Gain of keeping a rule : each use saves its body but one token, the definition costs the body and two tokens
+   */
+  private getGain(grammar: Grammar, r: number): number {
+    const uses = grammar.uses[r]
+    const bodyCost = grammar.bodyCosts[r]
+    return uses * (bodyCost - TOKEN_COST) - bodyCost - 2 * TOKEN_COST
+  }
+}
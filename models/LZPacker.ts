@@ -0,0 +1,305 @@
+import { PackerData } from "./PackerData"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { type StringEmitter, getStringEmitter } from "../utils/StringEmitter"
+import type { PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { caughtFailure, verifiedResult } from "../utils/PackerStatus"
+import { Preprocessor } from "./Preprocessor"
+
+/**
+ * Encoding parameters, shared by the encoder and the generated decoder
+ */
+export interface LZParameters {
+  // Header codes standing for literal runs, of 1 to literalCodes characters. The other codes are references.
+  literalCodes: number
+  // Shortest reference, the longest one is minLength + 94 - literalCodes
+  minLength: number
+  // Number of characters holding the offset of a reference : 1 reaches 95 characters back, 2 reaches 9025
+  offsetWidth: 1 | 2
+}
+
+/**
+ * Step of the parse : a literal run, or a copy of earlier output
+ */
+interface LZStep {
+  length: number
+  // Distance back to the copied characters, 0 for a literal run
+  offset: number
+}
+
+// The payload only uses printable ASCII for the headers and offsets : code 32 stands for 0
+const FIRST_CODE = 32
+const CODE_COUNT = 95
+// Previous occurrences of a prefix examined at each position
+const MAX_CANDIDATES = 64
+
+// Parameter sets tried by default, the smallest output is kept
+const DEFAULT_PARAMETERS: LZParameters[] = [
+  { literalCodes: 16, minLength: 3, offsetWidth: 1 },
+  { literalCodes: 32, minLength: 3, offsetWidth: 1 },
+  { literalCodes: 16, minLength: 4, offsetWidth: 2 },
+  { literalCodes: 32, minLength: 4, offsetWidth: 2 },
+  { literalCodes: 8, minLength: 4, offsetWidth: 2 },
+]
+
+/**
+ * LZPacker - LZ77 packer : the input becomes a sequence of literal runs and of copies of earlier output,
+ * each introduced by one printable header character, followed by the run itself or by the offset of the copy.
+ * Unlike the dictionary packers it needs no free tokens, so it keeps working on inputs that use most of ASCII.
+ *
+ * The parse is optimal for the encoding : a backward pass picks, at each position, the literal run or copy
+ * minimizing the size of the remaining payload, escapes included. Copies never overlap their source,
+ * which keeps the decoder to a single substr.
+ */
+export class LZPacker {
+  private preprocessor: Preprocessor
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
+  private stringEmitter: StringEmitter
+
+  constructor() {
+    this.preprocessor = new Preprocessor()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
+    this.stringEmitter = getStringEmitter()
+  }
+
+  /**
+   * Main entry point for the packer
+   * @param input A string containing the program to pack
+   * @param options An object detailing the different options for the preprocessor and packer
+   * @return An array of PackerData, one per preprocessed variant, each holding a single result
+   */
+  public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
+    try {
+      const inputList = this.preprocessor.preprocessCode(input, options, "LZPacker")
+
+      for (const inputData of inputList) {
+        inputData.result.push(timeStage("lz77", () => this.compress(inputData)))
+      }
+
+      return inputList
+    } catch (error) {
+      console.error("Error in LZPacker:", error)
+      const errorData = new PackerData("Error", input)
+      const errorResult = caughtFailure(error)
+      errorData.result.push(errorResult)
+      return [errorData]
+    }
+  }
+
+  /**
+   * Compresses the contents with every parameter set, and keeps the shortest verified output
+   */
+  private compress(packerData: PackerData, parameterSets = DEFAULT_PARAMETERS): PackerResult {
+    let details = packerData.log
+    const contents = packerData.contents
+
+    let best: { length: number; output: string } | null = null
+    for (const parameters of parameterSets) {
+      const steps = this.parse(contents, packerData.packedStringDelimiter, parameters)
+      const payload = this.encode(contents, steps, parameters)
+      const output = this.buildOutput(packerData, this.buildDecoder(packerData, payload, parameters))
+      const length = this.costModel.measure(output)
+      const copies = steps.filter((step) => step.offset > 0)
+      details +=
+        "literals " +
+        parameters.literalCodes +
+        ", min length " +
+        parameters.minLength +
+        ", offset on " +
+        parameters.offsetWidth +
+        " : " +
+        (steps.length - copies.length) +
+        " runs, " +
+        copies.length +
+        " copies covering " +
+        copies.reduce((total, step) => total + step.length, 0) +
+        " chars, " +
+        length +
+        " " +
+        this.costModel.unit +
+        "\n"
+      if (!best || length < best.length) {
+        best = { length, output }
+      }
+    }
+
+    // Final check: run the retained output and compare the evaluated code with the input
+    const verification = this.executionVerifier.verify(best!.output, contents)
+    details += "------------------------\nFinal check: " + this.executionVerifier.describe(verification) + ".\n"
+    const events = [verificationEvent(verification)]
+    return verifiedResult({ length: best!.length, output: best!.output, details, events }, verification)
+  }
+
+  /**
+   * Optimal parse : cost[i] is the smallest payload for the contents from i on,
+   * over all the literal runs and copies starting at i
+   */
+  public parse(contents: string, delimiter: string, parameters: LZParameters): LZStep[] {
+    const { literalCodes, minLength, offsetWidth } = parameters
+    const n = contents.length
+    const maxCopy = minLength + CODE_COUNT - 1 - literalCodes
+    const maxOffset = CODE_COUNT ** offsetWidth
+    const charCosts = this.getCharCosts(contents, delimiter)
+    // Headers and offset digits cost one unit, or two when escaped
+    const codeCosts: number[] = []
+    for (let value = 0; value < CODE_COUNT; ++value) {
+      codeCosts.push(this.getCharCost(String.fromCharCode(FIRST_CODE + value), delimiter))
+    }
+
+    // Positions of each prefix of minLength characters, most recent first
+    const previous = new Int32Array(n).fill(-1)
+    const lastSeen = new Map<string, number>()
+    for (let i = 0; i + minLength <= n; ++i) {
+      const prefix = contents.substr(i, minLength)
+      previous[i] = lastSeen.get(prefix) ?? -1
+      lastSeen.set(prefix, i)
+    }
+
+    const cost = new Float64Array(n + 1).fill(Number.POSITIVE_INFINITY)
+    const choice: LZStep[] = new Array(n + 1)
+    cost[n] = 0
+    for (let i = n - 1; i >= 0; --i) {
+      // Steps cannot start inside a surrogate pair
+      if (this.isLowSurrogate(contents, i)) continue
+
+      let runCost = 0
+      for (let length = 1; length <= literalCodes && i + length <= n; ++length) {
+        runCost += charCosts[i + length - 1]
+        const total = codeCosts[length - 1] + runCost + cost[i + length]
+        if (total < cost[i]) {
+          cost[i] = total
+          choice[i] = { length, offset: 0 }
+        }
+      }
+
+      let candidates = 0
+      for (let source = previous[i]; source >= 0 && candidates < MAX_CANDIDATES; source = previous[source]) {
+        const offset = i - source
+        if (offset > maxOffset) break
+        if (offset < minLength) continue
+        ++candidates
+        let offsetCost = 0
+        for (let digit = 0, rest = offset - 1; digit < offsetWidth; ++digit, rest = Math.floor(rest / CODE_COUNT)) {
+          offsetCost += codeCosts[rest % CODE_COUNT]
+        }
+        // The source must end before the copy starts
+        const longest = Math.min(maxCopy, offset, n - i)
+        let length = minLength
+        while (length < longest && contents[source + length] === contents[i + length]) ++length
+        for (let copied = minLength; copied <= length; ++copied) {
+          const total = codeCosts[literalCodes + copied - minLength] + offsetCost + cost[i + copied]
+          if (total < cost[i]) {
+            cost[i] = total
+            choice[i] = { length: copied, offset }
+          }
+        }
+      }
+    }
+
+    const steps: LZStep[] = []
+    for (let i = 0; i < n; i += choice[i].length) {
+      steps.push(choice[i])
+    }
+    return steps
+  }
+
+  /**
+   * Writes the steps as the payload, before escaping.
+   * Any change here must be mirrored in the decoder built by buildDecoder.
+   */
+  public encode(contents: string, steps: LZStep[], parameters: LZParameters): string {
+    const { literalCodes, minLength, offsetWidth } = parameters
+    let payload = ""
+    let position = 0
+    for (const step of steps) {
+      if (step.offset === 0) {
+        payload += String.fromCharCode(FIRST_CODE + step.length - 1) + contents.substr(position, step.length)
+      } else {
+        payload += String.fromCharCode(FIRST_CODE + literalCodes + step.length - minLength)
+        // Most significant digit first
+        const rest = step.offset - 1
+        payload +=
+          offsetWidth === 2
+            ? String.fromCharCode(FIRST_CODE + Math.floor(rest / CODE_COUNT), FIRST_CODE + (rest % CODE_COUNT))
+            : String.fromCharCode(FIRST_CODE + rest)
+      }
+      position += step.length
+    }
+    return payload
+  }
+
+  /**
+   * Builds the decoding loop. The decoded string ends up in the packed code variable.
+   * Uppercase names are used so that the globals of a shim (a, b, c...) are left untouched.
+   */
+  private buildDecoder(packerData: PackerData, payload: string, parameters: LZParameters): string {
+    const { literalCodes, minLength, offsetWidth } = parameters
+    const v = packerData.packedCodeVarName
+    const delimiter = packerData.packedStringDelimiter
+    // Offset back from the end of the output, from the digits following the header
+    const start =
+      offsetWidth === 2
+        ? v +
+          ".length-A.charCodeAt(I++)*" +
+          CODE_COUNT +
+          "-A.charCodeAt(I++)+" +
+          (FIRST_CODE * CODE_COUNT + FIRST_CODE - 1)
+        : v + ".length-A.charCodeAt(I++)+" + (FIRST_CODE - 1)
+    return (
+      "for(A=" +
+      this.stringEmitter.quote(payload, delimiter) +
+      ",I=0," +
+      v +
+      '="";C=A.charCodeAt(I++);)' +
+      v +
+      "+=C<" +
+      (FIRST_CODE + literalCodes) +
+      "?A.slice(I,I+=C-" +
+      (FIRST_CODE - 1) +
+      "):" +
+      v +
+      ".substr(" +
+      start +
+      ",C-" +
+      (FIRST_CODE + literalCodes - minLength) +
+      ");"
+    )
+  }
+
+  private buildOutput(packerData: PackerData, decoder: string): string {
+    const init = packerData.wrappedInit ? packerData.wrappedInit + ";" : ""
+    return decoder + init + packerData.environment + packerData.interpreterCall
+  }
+
+  /**
+   * Size of each code unit of the contents once in the payload, a surrogate pair being counted on its first half
+   */
+  private getCharCosts(contents: string, delimiter: string): number[] {
+    const costs: number[] = []
+    for (let i = 0; i < contents.length; ++i) {
+      if (this.isLowSurrogate(contents, i)) {
+        costs.push(0)
+      } else {
+        costs.push(this.getCharCost(String.fromCodePoint(contents.codePointAt(i)!), delimiter))
+      }
+    }
+    return costs
+  }
+
+  private getCharCost(char: string, delimiter: string): number {
+    return this.costModel.measureEscaped(char, delimiter)
+  }
+
+  private isLowSurrogate(contents: string, i: number): boolean {
+    const code = contents.charCodeAt(i)
+    return i > 0 && code >= 0xdc00 && code <= 0xdfff && this.isHighSurrogate(contents.charCodeAt(i - 1))
+  }
+
+  private isHighSurrogate(code: number): boolean {
+    return code >= 0xd800 && code <= 0xdbff
+  }
+}
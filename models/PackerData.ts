@@ -1,4 +1,7 @@
-import type { Match } from "../types"
+import type { Match, PackerEvent, PackerResult } from "../types"
+import { failedResult, isSuccessful } from "../utils/PackerStatus"
+import type { StringDelimiter } from "../utils/StringEmitter"
+import type { SearchGraph } from "./BeamSearchSolver"
 
 export class PackerData {
   public name: string
@@ -11,10 +14,12 @@ export class PackerData {
   public packedCodeVarName: string
   public containedStrings: any[]
   public containedTemplateLiterals: any[]
-  public packedStringDelimiter: string
+  public packedStringDelimiter: StringDelimiter
   public result: any[]
   public matchesLookup?: Match[]
   public tokenCount?: number
+  // States explored by a search engine, drawn by the search graph visualizer
+  public searchGraph?: SearchGraph
 
   constructor(name = "", dataString = "") {
     this.name = name
@@ -47,4 +52,47 @@ export class PackerData {
     clone.result = []
     return clone
   }
+
+  /**
+   * Returns the variant with the smallest successful final result, out of the list returned by a packer
+   * (one entry per preprocessed variant of the input). Works on plain objects received from a worker too.
+   */
+  public static getBest(packerDataList: PackerData[]): PackerData {
+    let best = packerDataList[0]
+    let bestLength = Number.POSITIVE_INFINITY
+    for (const packerData of packerDataList) {
+      const lastResult = packerData.result[packerData.result.length - 1]
+      if (isSuccessful(lastResult) && lastResult.length < bestLength) {
+        best = packerData
+        bestLength = lastResult.length
+      }
+    }
+    return best
+  }
+
+  /**
+   * Returns the smallest successful result over every variant and every stage, out of the list returned by a packer.
+   * When no result succeeded, returns the last failure met, holding the reason. Works on plain objects too.
+   */
+  public static getBestResult(packerDataList: PackerData[]): PackerResult {
+    let best: PackerResult | undefined
+    let failure: PackerResult | undefined
+    for (const packerData of packerDataList) {
+      for (const result of packerData.result as PackerResult[]) {
+        if (isSuccessful(result)) {
+          if (!best || result.length < best.length) best = result
+        } else if (result) {
+          failure = result
+        }
+      }
+    }
+    return best ?? failure ?? failedResult("no-output", "no output generated")
+  }
+
+  /**
+   * Returns the events of every stage of a variant, in order
+   */
+  public static getEvents(packerData: PackerData): PackerEvent[] {
+    return packerData.result.flatMap((result) => result?.events ?? [])
+  }
 }
@@ -0,0 +1,100 @@
+import type { PackerFailure, PackerOptions } from "../types"
+import { isSuccessful } from "../utils/PackerStatus"
+import { WorkerPool, spawnWorker } from "../utils/WorkerPool"
+import { PackerData } from "./PackerData"
+import { getEngineRegistry } from "./EngineRegistry"
+
+// Id of a registered engine
+export type EvaluationEngine = string
+
+/**
+ * Packer run handed to the worker pool
+ */
+export interface EvaluationTask {
+  engine: EvaluationEngine
+  input: string
+  options: PackerOptions
+}
+
+/**
+ * Outcome of a packer run, reduced to what the optimizers compare
+ */
+export interface Evaluation {
+  // Infinite for a failed run, that no successful one can lose to
+  size: number
+  output: string
+  details: string
+  error?: PackerFailure
+  // Replacements applied by the chosen stage in order, or its output when it applies none :
+  // runs with the same sequence produce the same output
+  sequence: string
+}
+
+let evaluationPool: WorkerPool<EvaluationTask, Evaluation> | null = null
+
+/**
+ * Runs a packer on the shared worker pool
+ */
+export function runEvaluation(task: EvaluationTask, signal?: AbortSignal): Promise<Evaluation> {
+  if (!evaluationPool) {
+    evaluationPool = new WorkerPool<EvaluationTask, Evaluation>(
+      (onMessage, onError) =>
+        spawnWorker(
+          new URL("../workers/packer.worker.ts", import.meta.url),
+          () => new Worker(new URL("../workers/packer.worker.ts", import.meta.url)),
+          onMessage,
+          onError,
+        ),
+      evaluate,
+    )
+  }
+  // Callbacks cannot be sent to a worker
+  const options = Object.fromEntries(
+    Object.entries(task.options).filter(([, value]) => typeof value !== "function"),
+  ) as PackerOptions
+  return evaluationPool.run({ ...task, options }, signal)
+}
+
+/**
+ * Why the evaluations run on the calling thread instead of the worker pool, null while workers are used
+ */
+export function getEvaluationFallback(): string | null {
+  return evaluationPool?.fallbackReason ?? null
+}
+
+/**
+ * Runs a packer on the calling thread
+ */
+export function evaluate(task: EvaluationTask): Evaluation {
+  // The Replacer branch search would only report its result later, from a worker of its own
+  const options = { ...task.options, useBranchSearch: false }
+  return summarize(getEngineRegistry().get(task.engine).create().runPacker(task.input, options), task.options)
+}
+
+/**
+ * Keeps the smallest successful result of a run, over every preprocessed variant and every stage.
+ * The run only fails when all of them failed.
+ */
+export function summarize(result: PackerData[], options: PackerOptions): Evaluation {
+  const evaluation: Evaluation = {
+    size: Number.POSITIVE_INFINITY,
+    output: "",
+    details: "",
+    sequence: (options.useES6 ? "es6" : "es5") + "\0",
+  }
+  if (result && result.length > 0) {
+    const packed = PackerData.getBestResult(result)
+    if (isSuccessful(packed)) {
+      evaluation.size = packed.length
+      evaluation.output = packed.output
+    } else {
+      evaluation.error = packed.error ?? { code: "no-output", message: "No output generated" }
+    }
+    evaluation.details = packed.details || ""
+    const replacements = (packed.events ?? []).flatMap((event) =>
+      event.type === "token-assigned" ? [event.token + event.string] : [],
+    )
+    evaluation.sequence += replacements.length > 0 ? replacements.join("\0") : "\0" + packed.output
+  }
+  return evaluation
+}
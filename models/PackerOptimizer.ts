@@ -1,47 +1,98 @@
-import type { PackerOptions } from "../types"
-import type { AbstractPacker } from "./AbstractPacker"
+import { DEFAULT_PACKER_OPTIONS, type PackerOptions } from "../types"
+import {
+  type Evaluation,
+  type EvaluationEngine,
+  getEvaluationFallback,
+  runEvaluation,
+  summarize,
+} from "./PackerEvaluation"
+import { getEngineRegistry } from "./EngineRegistry"
+import { getConcurrency } from "../utils/WorkerPool"
+import {
+  type ParameterImpact,
+  type ParameterSchema,
+  type TunableEngine,
+  measureParameterImpact,
+} from "./ParameterSchema"
+import { DEFAULT_SEARCH_BUDGET, type SearchBudget, type SearchStrategy, createSearchStrategy } from "./SearchStrategy"
 
 export interface OptimizationResult {
   bestOptions: PackerOptions
   bestSize: number
   bestOutput: string
   bestDetails: string
+  // One entry per distinct replacement sequence
   allResults: Array<{
     options: PackerOptions
     size: number
   }>
   progress: number
+  // Evaluation budget
   totalCombinations: number
+  strategy: string
+  evaluations: number
+  // Evaluations that repeated options already tried, or a replacement sequence already produced
+  duplicates: number
+  // Evaluations whose run failed, never retained whatever their size
+  failures: number
+  // Parameters of the engine, the ones that changed the size most first
+  parameterImpact: ParameterImpact[]
+  // Why the runs took place on the calling thread instead of the worker pool
+  fallbackReason: string | null
 }
 
+/**
+ * PackerOptimizer - searches the parameters declared by an engine for the options giving the smallest output
+ */
 export class PackerOptimizer {
-  private packer: AbstractPacker
+  // Id of a registered engine to run on the worker pool, or engine instance to run on the calling thread
+  private packer: InstanceType<TunableEngine> | EvaluationEngine
+  private parameters: ParameterSchema
   private input: string
   private onProgress?: (result: OptimizationResult) => void
+  // Options every run gets besides the searched parameters, e.g. the objective or the rules of a target
+  private baseOptions: Partial<PackerOptions>
   private bestResult: OptimizationResult
+  // Options and size of every run, duplicates included, from which the impact of the parameters is measured
+  private samples: Array<{ options: PackerOptions; size: number }> = []
   private abortController: AbortController
 
-  constructor(packer: AbstractPacker, input: string, onProgress?: (result: OptimizationResult) => void) {
-    this.packer = packer
+  constructor(
+    engine: EvaluationEngine | TunableEngine,
+    input: string,
+    onProgress?: (result: OptimizationResult) => void,
+    baseOptions: Partial<PackerOptions> = {},
+  ) {
+    if (typeof engine === "string") {
+      this.packer = engine
+      this.parameters = getEngineRegistry().get(engine).parameters
+    } else {
+      this.packer = new engine()
+      this.parameters = engine.parameters
+    }
     this.input = input
     this.onProgress = onProgress
+    // The searched parameters are left to the strategy
+    this.baseOptions = Object.fromEntries(
+      Object.entries(baseOptions).filter(([name]) => !this.parameters.some((definition) => definition.name === name)),
+    )
     this.abortController = new AbortController()
 
     // Initialize with default values
     this.bestResult = {
-      bestOptions: {
-        crushGainFactor: 2,
-        crushLengthFactor: 1,
-        crushCopiesFactor: 0,
-        crushTiebreakerFactor: 1,
-        useES6: true,
-      },
+      bestOptions: { ...DEFAULT_PACKER_OPTIONS },
       bestSize: Number.POSITIVE_INFINITY,
       bestOutput: "",
       bestDetails: "",
       allResults: [],
       progress: 0,
       totalCombinations: 0,
+      strategy: "",
+      evaluations: 0,
+      duplicates: 0,
+      failures: 0,
+      parameterImpact: [],
+      fallbackReason: null,
     }
   }
 
@@ -49,95 +100,146 @@ export class PackerOptimizer {
     this.abortController.abort()
   }
 
-  public async findBestOptions(): Promise<OptimizationResult> {
-    // Define the ranges for each parameter
-    const gainFactors = [0, 0.5, 1, 1.5, 2, 2.5, 3]
-    const lengthFactors = [0, 0.5, 1, 1.5, 2, 2.5, 3]
-    const copiesFactors = [0, 0.5, 1, 1.5, 2, 2.5, 3]
-    const tiebreakerFactors = [0, 1, 2]
-    const es6Options = [true, false]
-
-    const totalCombinations =
-      gainFactors.length * lengthFactors.length * copiesFactors.length * tiebreakerFactors.length * es6Options.length
-
-    this.bestResult.totalCombinations = totalCombinations
-    let processedCombinations = 0
+  /**
+   * Runs the packer on the options proposed by the strategy until the budget is spent
+   * @param strategy Search strategy, simulated annealing over the parameters of the engine by default
+   * @param budget Maximum number of evaluations and running time
+   */
+  public async findBestOptions(
+    strategy?: SearchStrategy,
+    budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+  ): Promise<OptimizationResult> {
+    const search = strategy ?? createSearchStrategy("annealing", this.parameters, budget)
+    const startTime = Date.now()
+    // Runs by options, shared when the strategy proposes the same options again, and replacement sequences produced
+    const runs = new Map<string, Promise<Evaluation>>()
+    const sequences = new Set<string>()
+    // Packer runs carried out at the same time, on the worker pool for an engine id
+    const concurrency = typeof this.packer === "string" ? getConcurrency() : 1
+    const pending = new Set<Promise<void>>()
+    let launched = 0
+    let failure: unknown = null
+
+    this.bestResult.totalCombinations = budget.maxEvaluations
+    this.bestResult.strategy = search.name
+
+    const launch = () => {
+      const options: PackerOptions = { ...search.ask(), ...this.baseOptions }
+      const key = JSON.stringify(options)
+      let run = runs.get(key)
+      const repeated = run !== undefined
+      if (!run) {
+        run = this.evaluate(options)
+        runs.set(key, run)
+      }
+      launched++
+      const step: Promise<void> = run
+        .then((evaluation) => this.record(search, options, evaluation, repeated, sequences, budget, startTime))
+        .catch((error) => {
+          failure ??= error
+        })
+        .finally(() => pending.delete(step))
+      pending.add(step)
+    }
 
     try {
-      for (const crushGainFactor of gainFactors) {
-        for (const crushLengthFactor of lengthFactors) {
-          for (const crushCopiesFactor of copiesFactors) {
-            for (const crushTiebreakerFactor of tiebreakerFactors) {
-              for (const useES6 of es6Options) {
-                // Check if optimization was aborted
-                if (this.abortController.signal.aborted) {
-                  throw new Error("Optimization aborted")
-                }
-
-                const options: PackerOptions = {
-                  crushGainFactor,
-                  crushLengthFactor,
-                  crushCopiesFactor,
-                  crushTiebreakerFactor,
-                  useES6,
-                }
-
-                // Run the packer with these options
-                const result = this.packer.runPacker(this.input, options)
-
-                // Get the size of the packed code
-                let size = Number.POSITIVE_INFINITY
-                let output = ""
-                let details = ""
-
-                if (result && result.length > 0 && result[0].result) {
-                  // Prefer the second result (regexp version) if available
-                  if (result[0].result.length >= 2 && result[0].result[1]) {
-                    size = result[0].result[1].length
-                    output = result[0].result[1].output || ""
-                    details = result[0].result[1].details || ""
-                  } else if (result[0].result.length >= 1 && result[0].result[0]) {
-                    size = result[0].result[0].length
-                    output = result[0].result[0].output || ""
-                    details = result[0].result[0].details || ""
-                  }
-                }
-
-                // Record this result
-                this.bestResult.allResults.push({
-                  options: { ...options },
-                  size,
-                })
-
-                // Update best result if this is better
-                if (size < this.bestResult.bestSize) {
-                  this.bestResult.bestSize = size
-                  this.bestResult.bestOptions = { ...options }
-                  this.bestResult.bestOutput = output
-                  this.bestResult.bestDetails = details
-                }
-
-                // Update progress
-                processedCombinations++
-                this.bestResult.progress = processedCombinations / totalCombinations
-
-                // Call progress callback
-                if (this.onProgress) {
-                  this.onProgress({ ...this.bestResult })
-                }
-
-                // Add a small delay to allow UI updates
-                await new Promise((resolve) => setTimeout(resolve, 0))
-              }
-            }
-          }
+      while (failure === null) {
+        // Check if optimization was aborted
+        if (this.abortController.signal.aborted) {
+          throw new Error("Optimization aborted")
+        }
+        while (
+          pending.size < concurrency &&
+          launched < budget.maxEvaluations &&
+          Date.now() - startTime < budget.maxTime
+        ) {
+          launch()
         }
+        if (pending.size === 0) break
+        await Promise.race(pending)
+      }
+      if (this.abortController.signal.aborted) {
+        throw new Error("Optimization aborted")
+      }
+      if (failure !== null) {
+        throw failure
       }
 
+      this.bestResult.progress = 1
       return this.bestResult
     } catch (error) {
       console.error("Optimization error:", error)
       throw error
     }
   }
+
+  /**
+   * Runs the packer, on the worker pool for an engine id, on the calling thread for an engine class
+   */
+  private async evaluate(options: PackerOptions): Promise<Evaluation> {
+    if (typeof this.packer === "string") {
+      return runEvaluation({ engine: this.packer, input: this.input, options }, this.abortController.signal)
+    }
+    // Add a small delay to allow UI updates
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    return summarize(this.packer.runPacker(this.input, options), options)
+  }
+
+  /**
+   * Tells the strategy the size of a run, and updates the results and the progress
+   */
+  private record(
+    search: SearchStrategy,
+    options: PackerOptions,
+    evaluation: Evaluation,
+    repeated: boolean,
+    sequences: Set<string>,
+    budget: SearchBudget,
+    startTime: number,
+  ): void {
+    const { size, output, details, sequence, error } = evaluation
+    search.tell(options, size)
+    if (error) {
+      this.bestResult.failures++
+    }
+
+    // Record this result, unless other options already led to the same replacements
+    if (repeated || sequences.has(sequence)) {
+      this.bestResult.duplicates++
+    } else {
+      sequences.add(sequence)
+      this.bestResult.allResults.push({
+        options: { ...options },
+        size,
+      })
+    }
+    if (!repeated) {
+      this.samples.push({ options, size })
+      this.bestResult.parameterImpact = measureParameterImpact(this.parameters, this.samples)
+    }
+
+    // Update best result if this is better
+    if (!error && size < this.bestResult.bestSize) {
+      this.bestResult.bestSize = size
+      this.bestResult.bestOptions = { ...options }
+      this.bestResult.bestOutput = output
+      this.bestResult.bestDetails = details
+    }
+
+    if (typeof this.packer === "string") {
+      this.bestResult.fallbackReason = getEvaluationFallback()
+    }
+
+    // Update progress
+    this.bestResult.evaluations++
+    this.bestResult.progress = Math.min(
+      1,
+      Math.max(this.bestResult.evaluations / budget.maxEvaluations, (Date.now() - startTime) / budget.maxTime),
+    )
+
+    // Call progress callback
+    if (this.onProgress) {
+      this.onProgress({ ...this.bestResult })
+    }
+  }
 }
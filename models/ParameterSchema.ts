@@ -0,0 +1,124 @@
+import type { PackerOptions } from "../types"
+import type { PackerData } from "./PackerData"
+
+/**
+ * Names of the options holding values of the given type
+ */
+type OptionName<V> = {
+  [K in keyof PackerOptions]-?: NonNullable<PackerOptions[K]> extends V ? K : never
+}[keyof PackerOptions]
+
+/**
+ * Parameter an engine exposes to the optimizer : a numeric range, a list of values, or a flag
+ */
+export type ParameterDefinition =
+  | { name: OptionName<number>; label: string; type: "range"; min: number; max: number; integer?: boolean }
+  | { name: OptionName<number | string>; label: string; type: "enum"; values: Array<number | string> }
+  | { name: OptionName<boolean>; label: string; type: "boolean" }
+
+export type ParameterSchema = ParameterDefinition[]
+
+export type ParameterValue = number | string | boolean
+
+/**
+ * Engine class declaring its parameters, so that the optimizer can run it without knowing it
+ */
+export interface TunableEngine {
+  readonly parameters: ParameterSchema
+  new (): { runPacker(input: string, options: PackerOptions): PackerData[] }
+}
+
+// The factors read by the crusher heuristics of RegPack and Crusher
+export const CRUSH_PARAMETERS: ParameterSchema = [
+  { name: "crushGainFactor", label: "Gain Factor", type: "range", min: 0, max: 3 },
+  { name: "crushLengthFactor", label: "Length Factor", type: "range", min: 0, max: 3 },
+  { name: "crushCopiesFactor", label: "Copies Factor", type: "range", min: 0, max: 3 },
+  { name: "crushTiebreakerFactor", label: "Tiebreaker Factor", type: "enum", values: [0, 1, 2] },
+]
+
+/**
+ * Values a parameter can take, for the parameters that are not ranges
+ */
+export function getParameterValues(definition: ParameterDefinition): ParameterValue[] {
+  switch (definition.type) {
+    case "range":
+      return []
+    case "enum":
+      return definition.values
+    case "boolean":
+      return [true, false]
+  }
+}
+
+/**
+ * How much a parameter changed the packed size during a search
+ */
+export interface ParameterImpact {
+  name: keyof PackerOptions
+  label: string
+  // Difference between the mean sizes reached with the worst and the best values
+  spread: number
+  // Value, or interval of a range, with the lowest mean size
+  bestValue: string
+}
+
+// Ranges are split in this many intervals of equal width
+const RANGE_INTERVALS = 4
+
+/**
+ * Ranks the parameters of a schema by their impact on the sizes of a set of runs, highest first.
+ * The runs are grouped by the value of the parameter (by interval for a range) and the mean sizes of the groups compared.
+ */
+export function measureParameterImpact(
+  schema: ParameterSchema,
+  results: Array<{ options: PackerOptions; size: number }>,
+): ParameterImpact[] {
+  const finite = results.filter((result) => Number.isFinite(result.size))
+  const impacts = schema.map((definition) => {
+    const groups = new Map<string, { total: number; count: number }>()
+    for (const { options, size } of finite) {
+      const key = describeValue(definition, options[definition.name] as ParameterValue)
+      const group = groups.get(key) ?? { total: 0, count: 0 }
+      group.total += size
+      group.count++
+      groups.set(key, group)
+    }
+
+    let best = { key: "", mean: Number.POSITIVE_INFINITY }
+    let worstMean = Number.NEGATIVE_INFINITY
+    for (const [key, { total, count }] of groups) {
+      const mean = total / count
+      if (mean < best.mean) {
+        best = { key, mean }
+      }
+      worstMean = Math.max(worstMean, mean)
+    }
+
+    return {
+      name: definition.name,
+      label: definition.label,
+      spread: groups.size > 1 ? Math.round(worstMean - best.mean) : 0,
+      bestValue: best.key,
+    }
+  })
+  return impacts.sort((a, b) => b.spread - a.spread)
+}
+
+/**
+ * Text of a value, or of the interval containing it for a range
+ */
+function describeValue(definition: ParameterDefinition, value: ParameterValue): string {
+  if (definition.type !== "range") {
+    return String(value)
+  }
+  const width = (definition.max - definition.min) / RANGE_INTERVALS
+  const interval = Math.min(RANGE_INTERVALS - 1, Math.floor(((value as number) - definition.min) / width))
+  const from = definition.min + interval * width
+  const to = from + width
+  if (definition.integer) {
+    // Integers from the first one in the interval to the last one before the next interval
+    const last = interval === RANGE_INTERVALS - 1 ? definition.max : Math.ceil(to) - 1
+    return Math.ceil(from) === last ? String(last) : `${Math.ceil(from)} - ${last}`
+  }
+  return `${Number(from.toFixed(2))} - ${Number(to.toFixed(2))}`
+}
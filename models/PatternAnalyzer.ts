@@ -1,76 +1,61 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { RepeatIndex } from "../utils/RepeatIndex"
 import type { Match } from "../types"
 
 export class PatternAnalyzer {
   private stringHelper: StringHelper
+  private costModel: CostModel
+  // Index of the last text analyzed, shared by the pattern search and the stats update on the same state
+  private repeatIndex: RepeatIndex | null = null
 
   constructor() {
     this.stringHelper = StringHelper.getInstance()
+    this.costModel = getCostModel()
   }
 
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
+  /**
+   * Selects the unit in which the pattern lengths are measured
+   */
+  public setCostModel(costModel: CostModel): void {
+    this.costModel = costModel
   }
 
-  private getEscapedByteLength(inString: string): number {
-    return this.getByteLength(inString.replace(/\\/g, "\\\\"))
-  }
-
-  public findAllPotentialPatterns(s: string): Match[] {
+  /**
+   * Lists the repeated patterns of a text, with their gain once escaped in a string literal with the delimiter
+   */
+  public findAllPotentialPatterns(s: string, delimiter = ""): Match[] {
     const patterns: Match[] = []
-    const matches: Record<string, number> = {}
-
-    // Search for patterns from length 2 up to half the string length (capped at 500)
-    for (let length = Math.min(Math.floor(s.length / 2), 500); length >= 2; length--) {
-      for (let i = 0; i <= s.length - length; i++) {
-        const beginCode = s.charCodeAt(i)
-        const endCode = s.charCodeAt(i + length - 1)
-
-        // Avoid splitting surrogate pairs
-        if ((beginCode < 0xdc00 || beginCode > 0xdfff) && (endCode < 0xd800 || endCode > 0xdbff)) {
-          const pattern = s.substr(i, length)
-          if (matches[pattern] !== undefined) continue
-
-          let count = 0
-          let pos = -1
-          while ((pos = s.indexOf(pattern, pos + 1)) !== -1) {
-            count++
-          }
 
-          if (count >= 2) {
-            matches[pattern] = count
-            const patternLength = this.getEscapedByteLength(pattern)
-            const gain = count * patternLength - count - patternLength - 2
+    // Search for repeated patterns, longest first
+    const repeats = this.getRepeatIndex(s).findRepeats()
+    repeats.sort((a, b) => b.string.length - a.string.length || a.offset - b.offset)
+    for (const { string: pattern, count } of repeats) {
+      const patternLength = this.costModel.measureEscaped(pattern, delimiter)
+      const gain = count * patternLength - count - patternLength - 2
 
-            patterns.push({
-              token: "",
-              string: pattern,
-              originalString: pattern,
-              depends: "",
-              usedBy: "",
-              gain,
-              copies: count,
-              len: patternLength,
-              score: gain,
-              cleared: false,
-              newOrder: 9999,
-            })
-          }
-        }
-      }
+      patterns.push({
+        token: "",
+        string: pattern,
+        originalString: pattern,
+        depends: "",
+        usedBy: "",
+        gain,
+        copies: count,
+        len: patternLength,
+        score: gain,
+        cleared: false,
+        newOrder: 9999,
+      })
     }
     return patterns
   }
 
   public updatePatternStats(patterns: Match[], text: string): void {
+    const repeatIndex = this.getRepeatIndex(text)
     for (let i = 0; i < patterns.length; i++) {
       const pattern = patterns[i]
-      let count = 0
-      let pos = 0
-      while ((pos = text.indexOf(pattern.string, pos)) !== -1) {
-        count++
-        pos += pattern.string.length
-      }
+      const count = repeatIndex.count(pattern.string)
       pattern.copies = Math.max(count, 1)
       pattern.gain = count * pattern.len - count - pattern.len - 2
       pattern.score = pattern.gain
@@ -82,6 +67,13 @@ export class PatternAnalyzer {
     }
   }
 
+  private getRepeatIndex(text: string): RepeatIndex {
+    if (!this.repeatIndex || this.repeatIndex.text !== text) {
+      this.repeatIndex = new RepeatIndex(text)
+    }
+    return this.repeatIndex
+  }
+
   public sortPatterns(patterns: Match[]): void {
     patterns.sort((a, b) => {
       if (b.gain !== a.gain) return b.gain - a.gain
@@ -0,0 +1,218 @@
+import { PackerData } from "./PackerData"
+import { getEngineRegistry } from "./EngineRegistry"
+import { getCharPacker } from "./CharPacker"
+import type { PackerOptions } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { getDeflater } from "../utils/Deflate"
+import { isSuccessful } from "../utils/PackerStatus"
+
+/**
+ * A single transformation of a pipeline : takes code, returns code that evaluates to the same program
+ */
+export interface PipelineStage {
+  id: string
+  name: string
+  run: (input: string, options: PackerOptions) => string
+}
+
+/**
+ * Size of the code after a stage
+ */
+export interface PipelineStep {
+  stage: string
+  name: string
+  output: string
+  bytes: number
+  chars: number
+}
+
+/**
+ * Outcome of a whole pipeline. A failed pipeline keeps the steps completed before the error.
+ */
+export interface PipelineResult {
+  name: string
+  steps: PipelineStep[]
+  output: string
+  bytes: number
+  chars: number
+  // UTF-16 code units of the output
+  units: number
+  // Size of the output in a zip file
+  zipped: number
+  error?: string
+}
+
+export type PipelineObjective = "bytes" | "chars" | "units" | "zipped"
+
+/**
+ * Returns what the chains are ranked by : the zipped size under the zipped objective, the cost target otherwise
+ */
+export function getPipelineObjective(options: PackerOptions): PipelineObjective {
+  if (options.objective === "zipped") return "zipped"
+  if (options.costTarget === "codepoints") return "chars"
+  return options.costTarget === "utf16" ? "units" : "bytes"
+}
+
+export const DICTIONARY_STAGE_IDS = ["regpack", "crusher", "slowpack", "grammarpack"]
+export const CHAR_STAGE_IDS = ["2-1", "2-1+", "3-1", "4-1"]
+
+/**
+ * Wraps a dictionary packer : the smallest successful result over all preprocessed variants and stages is kept
+ */
+function dictionaryStage(id: string, name: string, runPacker: (input: string, options: PackerOptions) => PackerData[]) {
+  return {
+    id,
+    name,
+    run: (input: string, options: PackerOptions): string => {
+      const result = PackerData.getBestResult(runPacker(input, options))
+      if (!isSuccessful(result)) {
+        throw new Error(name + " failed: " + (result.error?.message ?? "no output"))
+      }
+      return result.output
+    },
+  }
+}
+
+/**
+ * Returns the stage matching an id, among the dictionary packers and the character packers
+ */
+export function getPipelineStage(id: string): PipelineStage {
+  if (DICTIONARY_STAGE_IDS.includes(id)) {
+    const engine = getEngineRegistry().get(id)
+    return dictionaryStage(id, engine.name, (input, options) => engine.create().runPacker(input, options))
+  }
+  if (!CHAR_STAGE_IDS.includes(id)) {
+    throw new Error("Unknown pipeline stage: " + id)
+  }
+  const charPacker = getCharPacker(id)
+  return {
+    id,
+    name: charPacker.name,
+    run: (input: string): string => {
+      const { packed } = charPacker.pack(input)
+      if (!packed || packed.startsWith("Error")) {
+        throw new Error(charPacker.name + " failed: " + (packed || "no output"))
+      }
+      return packed
+    },
+  }
+}
+
+/**
+ * Pipeline - chains packing stages, each one packing the output of the previous one.
+ * Typical use : a dictionary packer (RegPack) followed by a character packer (2-1, 3-1).
+ */
+export class Pipeline {
+  public readonly stages: PipelineStage[]
+
+  constructor(stages: Array<PipelineStage | string>) {
+    this.stages = stages.map((stage) => (typeof stage === "string" ? getPipelineStage(stage) : stage))
+  }
+
+  public get name(): string {
+    return this.stages.map((stage) => stage.name).join(" > ")
+  }
+
+  /**
+   * Runs all stages in order
+   * @param input A string containing the program to pack
+   * @param options Options passed to every stage
+   * @param cache Outputs (or errors) of the stages already run on this input, shared by pipelines with a common prefix
+   * @return The final output and the size after each stage
+   */
+  public run(input: string, options: PackerOptions, cache?: Map<string, string | Error>): PipelineResult {
+    const steps: PipelineStep[] = []
+    let code = input
+    let prefix = ""
+
+    for (const stage of this.stages) {
+      prefix += stage.id + ">"
+      let output = cache?.get(prefix)
+      if (output === undefined) {
+        try {
+          output = stage.run(code, options)
+        } catch (error) {
+          output = error instanceof Error ? error : new Error(String(error))
+        }
+        cache?.set(prefix, output)
+      }
+      if (output instanceof Error) {
+        return {
+          name: this.name,
+          steps,
+          output: "",
+          bytes: Number.POSITIVE_INFINITY,
+          chars: Number.POSITIVE_INFINITY,
+          units: Number.POSITIVE_INFINITY,
+          zipped: Number.POSITIVE_INFINITY,
+          error: output.message,
+        }
+      }
+      code = output
+      steps.push({
+        stage: stage.id,
+        name: stage.name,
+        output: code,
+        bytes: getCostModel("utf8").measure(code),
+        chars: getCostModel("codepoints").measure(code),
+      })
+    }
+
+    const last = steps[steps.length - 1]
+    return {
+      name: this.name,
+      steps,
+      output: code,
+      bytes: last ? last.bytes : 0,
+      chars: last ? last.chars : 0,
+      units: getCostModel("utf16").measure(code),
+      zipped: getDeflater().zipSize(code, options.optimizeZip),
+    }
+  }
+}
+
+/**
+ * Tells whether a pipeline result beats another one for the objective, bytes (or chars, when ranking by bytes)
+ * breaking ties
+ */
+export function isBetterPipeline(a: PipelineResult, b: PipelineResult | null, objective: PipelineObjective): boolean {
+  if (a.error) return false
+  if (!b || b.error) return true
+  const secondary = objective === "bytes" ? "chars" : "bytes"
+  return a[objective] < b[objective] || (a[objective] === b[objective] && a[secondary] < b[secondary])
+}
+
+/**
+ * Tries every chain of a dictionary packer followed by a character packer.
+ * Each dictionary packer only runs once, its output is shared by all the chains starting with it.
+ * @param input A string containing the program to pack
+ * @param options Options passed to every stage
+ * @param objective What the best chain minimizes : characters (default, the point of char packers), bytes,
+ * UTF-16 units or the zipped size
+ * @param dictionaryIds Dictionary packers to try
+ * @param charIds Character packers to try
+ * @return All results, and the best one (null if every chain failed)
+ */
+export function findBestPipeline(
+  input: string,
+  options: PackerOptions,
+  objective: PipelineObjective = "chars",
+  dictionaryIds: string[] = DICTIONARY_STAGE_IDS,
+  charIds: string[] = CHAR_STAGE_IDS,
+): { best: PipelineResult | null; results: PipelineResult[] } {
+  const cache = new Map<string, string | Error>()
+  const results: PipelineResult[] = []
+  let best: PipelineResult | null = null
+
+  for (const dictionaryId of dictionaryIds) {
+    for (const charId of charIds) {
+      const result = new Pipeline([dictionaryId, charId]).run(input, options, cache)
+      results.push(result)
+      if (isBetterPipeline(result, best, objective)) {
+        best = result
+      }
+    }
+  }
+
+  return { best, results }
+}
@@ -0,0 +1,446 @@
+import { PackerData } from "./PackerData"
+import type { PackerOptions } from "../types"
+import { ContextHasher, type ContextHash, type ContextType } from "./ContextHasher"
+import { ES5_STRING_DELIMITERS, STRING_DELIMITERS, type StringEmitter, getStringEmitter } from "../utils/StringEmitter"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+
+/**
+ * One-letter identifier found in the code, with the context it was found in
+ */
+interface IdentifierOccurrence {
+  name: string
+  offset: number
+  // Property access (a.x) or object key ({x:1}): not a variable reference
+  isProperty: boolean
+  // Ambiguous context (shorthand property, method): the name must be kept
+  isBlocked: boolean
+}
+
+const LETTERS = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ"
+
+// After these keywords, a slash starts a regular expression and not a division
+const KEYWORDS_BEFORE_EXPRESSION = [
+  "return",
+  "typeof",
+  "instanceof",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "case",
+  "do",
+  "else",
+  "yield",
+  "await",
+]
+
+/**
+ * Preprocessor - transforms the input before it is handed to a packer.
+ * The untouched input always comes first in the returned list, each transformation
+ * adds another PackerData variant. The caller packs all of them and keeps the smallest.
+ */
+export class Preprocessor {
+  private contextHasher: ContextHasher
+  private stringEmitter: StringEmitter
+  private decoderCatalogue: DecoderCatalogue
+
+  constructor() {
+    this.contextHasher = new ContextHasher()
+    this.stringEmitter = getStringEmitter()
+    this.decoderCatalogue = getDecoderCatalogue()
+  }
+
+  /**
+   * Main entry point for the preprocessor
+   * @param input A string containing the program to pack
+   * @param options An object detailing the different options for the preprocessor and packer
+   * @param name Name given to the unmodified variant, transformed variants append a suffix to it
+   * @return An array of PackerData, one per preprocessed variant of the input
+   */
+  public preprocessCode(input: string, options: PackerOptions, name = ""): PackerData[] {
+    const inputData = new PackerData(name, input)
+    inputData.environment = options.environment ?? ""
+    const inputList = [inputData]
+
+    if (options.hash2DContext || options.hashWebGLContext || options.hashAudioContext) {
+      const hashedData = this.hashContexts(inputData, options)
+      if (hashedData) inputList.push(hashedData)
+    }
+
+    if (options.reassignVars) {
+      // Renaming applies on top of every variant produced so far
+      for (const source of [...inputList]) {
+        for (const variant of this.reassignVariableNames(source, options)) {
+          if (!inputList.some((existing) => existing.contents === variant.contents)) {
+            inputList.push(variant)
+          }
+        }
+      }
+    }
+
+    // Each variant is packed in the string literal needing the fewest escapes, template literals are ES6 only.
+    // The unpacked code runs through eval, unless the options rule it out or give a call of their own.
+    const delimiters = options.useES6 ? STRING_DELIMITERS : ES5_STRING_DELIMITERS
+    for (const packerData of inputList) {
+      packerData.packedStringDelimiter = this.stringEmitter.chooseDelimiter(packerData.contents, delimiters)
+      packerData.interpreterCall =
+        options.interpreterCall ?? this.decoderCatalogue.interpreterCall(packerData.packedCodeVarName, options)
+    }
+
+    return inputList
+  }
+
+  /**
+   * Shortens the method calls on the 2D, WebGL and AudioContext objects of the code,
+   * by renaming the context members to a short hash in a loop run before the code.
+   * @param packerData The variant to transform
+   * @param options Options, `hash*Context` select the context types, `contextVariableName` declares a shim context
+   * @return The hashed variant, or null if no context could be hashed with a gain
+   */
+  public hashContexts(packerData: PackerData, options: PackerOptions): PackerData | null {
+    const code = packerData.contents
+    const enabledTypes: ContextType[] = []
+    if (options.hash2DContext) enabledTypes.push("2d")
+    if (options.hashWebGLContext) enabledTypes.push("webgl")
+    if (options.hashAudioContext) enabledTypes.push("audio")
+
+    const contexts = this.contextHasher.findContexts(code, enabledTypes)
+    const shimType = options.contextType || "2d"
+    if (
+      options.contextVariableName &&
+      enabledTypes.includes(shimType) &&
+      !contexts.some((context) => context.variableName === options.contextVariableName)
+    ) {
+      contexts.unshift({ type: shimType, variableName: options.contextVariableName, declaration: "", offset: 0 })
+    }
+    if (contexts.length === 0) return null
+
+    // Iterate with a letter the code already contains but does not use as a variable
+    const identifiers = new Set(this.findOneLetterIdentifiers(code).map((occurrence) => occurrence.name))
+    const contextNames = contexts.map((context) => context.variableName)
+    const candidates = LETTERS.split("").filter((letter) => !contextNames.includes(letter))
+    const loopVariable =
+      candidates.find((letter) => code.includes(letter) && !identifiers.has(letter)) ||
+      candidates.find((letter) => code.includes(letter)) ||
+      candidates[0]
+
+    const hashes: ContextHash[] = []
+    for (const context of contexts) {
+      const hash = this.contextHasher.findBestHash(code, context, loopVariable)
+      if (hash) hashes.push(hash)
+    }
+    if (hashes.length === 0) return null
+
+    const hashedData = PackerData.clone(packerData, " hashed contexts")
+    this.contextHasher.applyHashes(hashedData, hashes)
+    for (const hash of hashes) {
+      const renamed = Object.keys(hash.renaming).map((method) => method + "=>" + hash.renaming[method])
+      hashedData.log +=
+        "Context " +
+        hash.context.variableName +
+        " (" +
+        hash.context.type +
+        ") hashed with " +
+        hash.loop +
+        "\n  " +
+        renamed.join(", ") +
+        "\n  Gain: " +
+        hash.gain +
+        " bytes\n"
+    }
+    return hashedData
+  }
+
+  /**
+   * Renames one-letter variables so that the code uses as few distinct characters as possible.
+   * Every character that disappears from the code becomes available as a token to the packers.
+   * @param packerData The variant to transform
+   * @param options Options, `varsNotReassigned` lists the names that must be kept (globals from a shim...)
+   * @return The renamed variants, empty if no renaming reduces the character set
+   */
+  public reassignVariableNames(packerData: PackerData, options: PackerOptions): PackerData[] {
+    const code = packerData.contents
+    const occurrences = this.findOneLetterIdentifiers(code)
+
+    // Names that can not be touched: explicitly kept, or used in an ambiguous context
+    const keptNames = new Set<string>(options.varsNotReassigned || [])
+    // Names referenced by the unpacking code (hashing loop...) live outside of the contents
+    for (const occurrence of this.findOneLetterIdentifiers(packerData.wrappedInit + ";" + packerData.environment)) {
+      if (!occurrence.isProperty) keptNames.add(occurrence.name)
+    }
+    for (const occurrence of occurrences) {
+      if (occurrence.isBlocked) keptNames.add(occurrence.name)
+    }
+
+    // Count variable references per name, ignoring property accesses
+    const variableCount: Record<string, number> = {}
+    for (const occurrence of occurrences) {
+      if (!occurrence.isProperty && !occurrence.isBlocked) {
+        variableCount[occurrence.name] = (variableCount[occurrence.name] || 0) + 1
+      }
+    }
+    const variables = Object.keys(variableCount).filter((name) => !keptNames.has(name))
+    if (variables.length === 0) return []
+
+    // Characters that remain whatever the naming: everything but the renamed variables
+    const renamedOffsets = new Set<number>()
+    for (const occurrence of occurrences) {
+      if (!occurrence.isProperty && variables.includes(occurrence.name)) {
+        renamedOffsets.add(occurrence.offset)
+      }
+    }
+    const fixedCharFrequency: Record<string, number> = {}
+    for (let i = 0; i < code.length; ++i) {
+      if (!renamedOffsets.has(i)) {
+        fixedCharFrequency[code[i]] = (fixedCharFrequency[code[i]] || 0) + 1
+      }
+    }
+
+    // Target names must not clash with kept names, and not with Math.E inside a with(Math)
+    const forbiddenTargets = new Set<string>()
+    for (const occurrence of occurrences) {
+      if (!occurrence.isProperty && !variables.includes(occurrence.name)) {
+        forbiddenTargets.add(occurrence.name)
+      }
+    }
+    keptNames.forEach((kept) => forbiddenTargets.add(kept))
+    if (/\bwith\s*\(/.test(code)) forbiddenTargets.add("E")
+
+    // Letters already present in the code cost nothing when reused as variable names
+    const freeLetters = LETTERS.split("").filter(
+      (letter) => fixedCharFrequency[letter] && !forbiddenTargets.has(letter),
+    )
+
+    const variants: Array<{ suffix: string; mapping: Record<string, string> }> = []
+
+    // Variant 1: most used variables get the most frequent letters
+    const byCount = [...variables].sort((a, b) => variableCount[b] - variableCount[a] || a.localeCompare(b))
+    const byFrequency = [...freeLetters].sort((a, b) => fixedCharFrequency[b] - fixedCharFrequency[a])
+    variants.push({
+      suffix: " vars by frequency",
+      mapping: this.buildMapping(byCount, byFrequency, forbiddenTargets),
+    })
+
+    // Variant 2: keep the names that are already free, move only the others
+    const keptInPlace = variables.filter((name) => freeLetters.includes(name))
+    const toMove = variables.filter((name) => !freeLetters.includes(name))
+    const remainingLetters = freeLetters.filter((letter) => !keptInPlace.includes(letter))
+    const minimalMapping = this.buildMapping(toMove, remainingLetters, new Set([...forbiddenTargets, ...keptInPlace]))
+    for (const name of keptInPlace) {
+      minimalMapping[name] = name
+    }
+    variants.push({ suffix: " vars minimal", mapping: minimalMapping })
+
+    const originalCharCount = this.countDistinctChars(code)
+    const result: PackerData[] = []
+    for (const variant of variants) {
+      const renamed = this.applyMapping(code, occurrences, variant.mapping)
+      const charCount = this.countDistinctChars(renamed)
+      if (renamed === code || charCount >= originalCharCount) continue
+
+      const renamedData = PackerData.clone(packerData, variant.suffix)
+      renamedData.contents = renamed
+      const changes = Object.keys(variant.mapping)
+        .filter((name) => variant.mapping[name] !== name)
+        .map((name) => name + "=>" + variant.mapping[name])
+      renamedData.log +=
+        "Variables reassigned: " +
+        changes.join(", ") +
+        "\nDistinct characters: " +
+        originalCharCount +
+        " => " +
+        charCount +
+        "\n"
+      result.push(renamedData)
+    }
+    return result
+  }
+
+  /**
+   * Assigns each variable a target letter in order, falling back to its own name,
+   * then to any letter still unused, once the preferred letters are exhausted
+   */
+  private buildMapping(variables: string[], preferred: string[], forbidden: Set<string>): Record<string, string> {
+    const mapping: Record<string, string> = {}
+    const taken = new Set<string>()
+    const pending: string[] = []
+
+    for (const name of variables) {
+      const target = preferred.find((letter) => !taken.has(letter))
+      if (target) {
+        mapping[name] = target
+        taken.add(target)
+      } else {
+        pending.push(name)
+      }
+    }
+
+    for (const name of pending) {
+      const target = taken.has(name)
+        ? LETTERS.split("").find(
+            (letter) => !taken.has(letter) && !forbidden.has(letter) && !variables.includes(letter),
+          )
+        : name
+      if (!target) {
+        // Out of letters: impossible with one-letter names, keep the mapping partial
+        continue
+      }
+      mapping[name] = target
+      taken.add(target)
+    }
+
+    return mapping
+  }
+
+  private applyMapping(code: string, occurrences: IdentifierOccurrence[], mapping: Record<string, string>): string {
+    let output = ""
+    let pointer = 0
+    for (const occurrence of occurrences) {
+      if (occurrence.isProperty || !(occurrence.name in mapping)) continue
+      output += code.substring(pointer, occurrence.offset) + mapping[occurrence.name]
+      pointer = occurrence.offset + 1
+    }
+    return output + code.substring(pointer)
+  }
+
+  private countDistinctChars(code: string): number {
+    return new Set(code).size
+  }
+
+  /**
+   * Lists all one-letter identifiers outside of strings, comments and regular expressions.
+   * Template literals are followed into their ${} substitutions.
+   */
+  public findOneLetterIdentifiers(code: string): IdentifierOccurrence[] {
+    const occurrences: IdentifierOccurrence[] = []
+    // Open brackets, "t" marks a template substitution
+    const bracketStack: string[] = []
+    let lastToken = ""
+    let i = 0
+
+    const skipTemplate = (start: number): number => {
+      let j = start
+      while (j < code.length) {
+        if (code[j] === "\\") {
+          j += 2
+        } else if (code[j] === "`") {
+          return j + 1
+        } else if (code[j] === "$" && code[j + 1] === "{") {
+          bracketStack.push("t")
+          return j + 2
+        } else {
+          ++j
+        }
+      }
+      return j
+    }
+
+    const previousSignificant = (offset: number): string => {
+      let j = offset - 1
+      while (j >= 0 && /\s/.test(code[j])) --j
+      return j >= 0 ? code[j] : ""
+    }
+
+    const nextSignificant = (offset: number): string => {
+      let j = offset
+      while (j < code.length && /\s/.test(code[j])) ++j
+      return j < code.length ? code[j] : ""
+    }
+
+    // Tells whether the parameter list starting after the offset is followed by a body: { x(){} }
+    const isMethod = (offset: number): boolean => {
+      let j = code.indexOf("(", offset)
+      for (let depth = 0; j < code.length; ++j) {
+        if (code[j] === "(") ++depth
+        else if (code[j] === ")" && --depth === 0) break
+      }
+      return nextSignificant(j + 1) === "{"
+    }
+
+    while (i < code.length) {
+      const c = code[i]
+
+      if (/\s/.test(c)) {
+        ++i
+      } else if (c === "/" && code[i + 1] === "/") {
+        const end = code.indexOf("\n", i)
+        i = end === -1 ? code.length : end
+      } else if (c === "/" && code[i + 1] === "*") {
+        const end = code.indexOf("*/", i + 2)
+        i = end === -1 ? code.length : end + 2
+      } else if (c === "'" || c === '"') {
+        let j = i + 1
+        while (j < code.length && code[j] !== c) {
+          j += code[j] === "\\" ? 2 : 1
+        }
+        i = j + 1
+        lastToken = "#string"
+      } else if (c === "`") {
+        i = skipTemplate(i + 1)
+        lastToken = "#string"
+      } else if (c === "/" && this.isRegExpStart(lastToken)) {
+        let j = i + 1
+        let inClass = false
+        while (j < code.length && (inClass || code[j] !== "/")) {
+          if (code[j] === "\\") ++j
+          else if (code[j] === "[") inClass = true
+          else if (code[j] === "]") inClass = false
+          ++j
+        }
+        i = j + 1
+        while (i < code.length && /[a-z]/.test(code[i])) ++i
+        lastToken = "#regexp"
+      } else if (/[0-9]/.test(c) || (c === "." && /[0-9]/.test(code[i + 1] || ""))) {
+        const match = /^(0[xXoObB][0-9a-fA-F_]+|(\d[\d_]*\.?[\d_]*|\.\d[\d_]*)([eE][+-]?\d+)?)n?/.exec(code.substr(i))
+        i += match ? match[0].length : 1
+        lastToken = "#number"
+      } else if (/[A-Za-z_$]/.test(c)) {
+        let j = i + 1
+        while (j < code.length && /[\w$]/.test(code[j])) ++j
+        const word = code.substring(i, j)
+        if (word.length === 1 && LETTERS.includes(word)) {
+          const before = previousSignificant(i)
+          const after = nextSignificant(j)
+          const isSpread = code.substring(i - 3, i) === "..."
+          const inObject = bracketStack[bracketStack.length - 1] === "{"
+          const afterSeparator = before === "{" || before === ","
+          occurrences.push({
+            name: word,
+            offset: i,
+            isProperty: (before === "." && !isSpread) || (inObject && afterSeparator && after === ":"),
+            isBlocked: inObject && afterSeparator && (after === "," || after === "}" || (after === "(" && isMethod(j))),
+          })
+        }
+        i = j
+        lastToken = word
+      } else {
+        if (c === "(" || c === "[" || c === "{") {
+          bracketStack.push(c)
+        } else if (c === ")" || c === "]" || c === "}") {
+          const open = bracketStack.pop()
+          if (open === "t") {
+            i = skipTemplate(i + 1)
+            lastToken = "#string"
+            continue
+          }
+        }
+        ++i
+        lastToken = c
+      }
+    }
+
+    return occurrences
+  }
+
+  /**
+   * Tells whether a slash following the given token starts a regular expression
+   */
+  private isRegExpStart(lastToken: string): boolean {
+    if (lastToken === "") return true
+    if (lastToken === "#string" || lastToken === "#number" || lastToken === "#regexp") return false
+    if (/^[\w$]+$/.test(lastToken)) return KEYWORDS_BEFORE_EXPRESSION.includes(lastToken)
+    return lastToken !== ")" && lastToken !== "]" && lastToken !== "}"
+  }
+}
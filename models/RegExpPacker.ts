@@ -1,16 +1,23 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
 import { PackerData } from "./PackerData"
-import type { PackerOptions, PackerResult } from "../types"
+import type { PackerEvent, PackerOptions, PackerResult } from "../types"
+import { verificationEvent } from "../utils/PackerEvents"
+import { failedResult, verifiedResult } from "../utils/PackerStatus"
 
 export class RegExpPacker {
   private stringHelper: StringHelper
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
 
   constructor() {
     this.stringHelper = StringHelper.getInstance()
-  }
-
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
   }
 
   private clear(packerData: PackerData, matchIndex: number): void {
@@ -21,8 +28,52 @@ export class RegExpPacker {
     packerData.matchesLookup![matchIndex].cleared = true
   }
 
+  /**
+   * Lists the non-ASCII characters absent from the code, by increasing code and thus increasing cost.
+   * Surrogates are left out, as well as the line terminators U+2028 and U+2029 and the BOM.
+   */
+  private getUnicodeTokens(packerData: PackerData, maxCount: number): number[] {
+    const tokens: number[] = []
+    for (let i = 0xa1; i < 0x10000 && tokens.length < maxCount; ++i) {
+      if (
+        (i < 0xd800 || i > 0xdfff) &&
+        i !== 0x2028 &&
+        i !== 0x2029 &&
+        i !== 0xfeff &&
+        packerData.contents.indexOf(String.fromCharCode(i)) === -1
+      ) {
+        tokens.push(i)
+      }
+    }
+    return tokens
+  }
+
+  /**
+   * Writes sorted non-ASCII tokens as character class ranges, with literal characters or \x and \u escapes,
+   * whichever is shorter
+   */
+  private writeUnicodeTokensToRegexpCharClass(tokens: number[]): string {
+    let output = ""
+    for (let first = 0; first < tokens.length;) {
+      let last = first
+      while (last + 1 < tokens.length && tokens[last + 1] === tokens[last] + 1) {
+        ++last
+      }
+      const escaped = this.stringHelper.writeRangeToRegexpCharClass(tokens[first], tokens[last])
+      const literal =
+        String.fromCharCode(tokens[first]) +
+        (last - first > 1 ? "-" : "") +
+        (last > first ? String.fromCharCode(tokens[last]) : "")
+      output += this.costModel.measure(literal) < this.costModel.measure(escaped) ? literal : escaped
+      first = last + 1
+    }
+    return output
+  }
+
   public packToRegexpCharClass(packerData: PackerData, options: PackerOptions): PackerResult {
-    let details = ""
+    this.costModel = getCostModel(options.costTarget)
+    let details = packerData.log
+    const events: PackerEvent[] = []
 
     for (let i = 0; i < packerData.matchesLookup!.length; ++i) {
       for (let j = 0; j < packerData.matchesLookup!.length; ++j) {
@@ -36,7 +87,8 @@ export class RegExpPacker {
         }
         if (
           i !== j &&
-          packerData.matchesLookup![j].originalString.indexOf(packerData.matchesLookup![i].originalString) > -1
+          packerData.matchesLookup![j].originalString.indexOf(packerData.matchesLookup![i].originalString) > -1 &&
+          packerData.matchesLookup![j].depends.indexOf(packerData.matchesLookup![i].token) === -1
         ) {
           packerData.matchesLookup![j].depends += packerData.matchesLookup![i].token
           packerData.matchesLookup![i].usedBy += packerData.matchesLookup![j].token
@@ -126,20 +178,27 @@ export class RegExpPacker {
     }
     details += "\n"
 
-    const availableTokens = [...costOneTokens, ...costTwoTokens]
+    // Non-ASCII tokens come last, so they are only used once the ASCII ones run out
+    const asciiTokenCount = costOneTokens.length + costTwoTokens.length
+    const availableTokens = [
+      ...costOneTokens,
+      ...costTwoTokens,
+      ...this.getUnicodeTokens(packerData, packerData.matchesLookup!.length),
+    ]
     let tokensRemaining = true
     let gainsRemaining = true
     packerData.tokenCount = 0
 
     let regPackOutput = packerData.contents
-    for (let i = 0; i < packerData.matchesLookup!.length && tokensRemaining && gainsRemaining; ++i) {
+    // Iterations that only clear the negative gains do not use up a token
+    while (packerData.tokenCount < packerData.matchesLookup!.length && tokensRemaining && gainsRemaining) {
       if (packerData.tokenCount >= availableTokens.length) {
         tokensRemaining = false
         break
       }
 
       const tokenCode = availableTokens[packerData.tokenCount]
-      const tokenCost = this.stringHelper.getCharacterLength(tokenCode)
+      const tokenCost = this.costModel.measureEscaped(String.fromCharCode(tokenCode), packerData.packedStringDelimiter)
 
       let matchIndex = -1,
         bestScore = -999,
@@ -179,6 +238,9 @@ export class RegExpPacker {
           packerData.matchesLookup![matchIndex].newOrder = packerData.tokenCount
 
           const token = String.fromCharCode(tokenCode)
+          if (packerData.tokenCount === asciiTokenCount) {
+            details += "Out of ASCII tokens, switching to Unicode\n"
+          }
           details +=
             token.charCodeAt(0) +
             "(" +
@@ -190,6 +252,14 @@ export class RegExpPacker {
             ", str = " +
             matchedString +
             "\n"
+          events.push({
+            type: "token-assigned",
+            token,
+            string: matchedString,
+            gain: bestGain,
+            copies: bestCount,
+            score: bestScore,
+          })
 
           regPackOutput = this.stringHelper.matchAndReplaceAll(
             regPackOutput,
@@ -213,6 +283,13 @@ export class RegExpPacker {
           for (let j = 0; j < packerData.matchesLookup!.length; ++j) {
             if (!packerData.matchesLookup![j].cleared) {
               details += "skipped str = " + packerData.matchesLookup![j].originalString + "\n"
+              events.push({
+                type: "candidate-rejected",
+                string: packerData.matchesLookup![j].originalString,
+                gain: packerData.matchesLookup![j].gain,
+                copies: packerData.matchesLookup![j].copies,
+                reason: "no gain with the tokens left",
+              })
             }
           }
           gainsRemaining = false
@@ -222,181 +299,175 @@ export class RegExpPacker {
 
     let tokenLine = 0
     let tokenIndex = 0
+    const asciiTokensUsed = Math.min(packerData.tokenCount, asciiTokenCount)
+    const unicodeTokensUsed = availableTokens.slice(asciiTokenCount, packerData.tokenCount)
     const unusedBackslash =
-      availableTokens.length > 0 &&
-      availableTokens[availableTokens.length - 1] === 92 &&
-      packerData.tokenCount < availableTokens.length
+      asciiTokenCount > 0 && availableTokens[asciiTokenCount - 1] === 92 && asciiTokensUsed < asciiTokenCount
 
-    if (tokenList.length === 0) {
+    if (tokenList.length === 0 && unicodeTokensUsed.length === 0) {
       details += "No tokens available\nFinal check: failed"
-      return { length: -1, output: "", details }
+      events.push({ type: "verification", passed: false, message: "failed, no tokens available" })
+      return { ...failedResult("out-of-tokens", "No tokens available", details), events }
     }
 
-    if (packerData.tokenCount >= availableTokens.length) {
-      tokenLine = tokenList.length - 1
-      tokenIndex = tokenList[tokenList.length - 1].count
-    } else if (packerData.tokenCount > 0) {
-      const lastTokenUsed = availableTokens[packerData.tokenCount - 1]
-      let lineFound = false
-
-      while (!lineFound && tokenLine < tokenList.length) {
-        if (unusedBackslash && tokenList[tokenLine].first === 92) {
-          ++tokenList[tokenLine].first
-          --tokenList[tokenLine].count
-        }
-        if (unusedBackslash && tokenList[tokenLine].last === 92) {
-          --tokenList[tokenLine].last
-          --tokenList[tokenLine].count
-        }
-        if (lastTokenUsed >= tokenList[tokenLine].first && lastTokenUsed <= tokenList[tokenLine].last) {
-          lineFound = true
-          tokenIndex = lastTokenUsed - tokenList[tokenLine].first + 1
-        } else {
-          ++tokenLine
+    // ASCII ranges, absent when only non-ASCII tokens were left
+    let tokenString = ""
+    if (tokenList.length > 0) {
+      if (asciiTokensUsed >= asciiTokenCount) {
+        tokenLine = tokenList.length - 1
+        tokenIndex = tokenList[tokenList.length - 1].count
+      } else if (asciiTokensUsed > 0) {
+        const lastTokenUsed = availableTokens[asciiTokensUsed - 1]
+        let lineFound = false
+
+        while (!lineFound && tokenLine < tokenList.length) {
+          if (unusedBackslash && tokenList[tokenLine].first === 92) {
+            ++tokenList[tokenLine].first
+            --tokenList[tokenLine].count
+          }
+          if (unusedBackslash && tokenList[tokenLine].last === 92) {
+            --tokenList[tokenLine].last
+            --tokenList[tokenLine].count
+          }
+          if (lastTokenUsed >= tokenList[tokenLine].first && lastTokenUsed <= tokenList[tokenLine].last) {
+            lineFound = true
+            tokenIndex = lastTokenUsed - tokenList[tokenLine].first + 1
+          } else {
+            ++tokenLine
+          }
         }
       }
-    }
-
-    if (tokenLine >= tokenList.length) {
-      details += "Exception: token out of range\nFinal check: failed"
-      return { length: -1, output: "", details }
-    }
-
-    let remainingTokens = tokenList[tokenLine].count - tokenIndex
-    tokenList[tokenLine].last -= remainingTokens
-    tokenList[tokenLine].count = tokenIndex
 
-    if (remainingTokens > 0) {
-      const tokensToReplace: Array<{
-        rangeIndex: number
-        atBeginning: boolean
-        count: number
-      }> = []
+      if (tokenLine >= tokenList.length) {
+        details += "Exception: token out of range\nFinal check: failed"
+        events.push({ type: "verification", passed: false, message: "failed, token out of range" })
+        return { ...failedResult("exception", "Token out of range", details), events }
+      }
 
-      for (let i = 0; i <= tokenLine; ++i) {
-        if (tokenList[i].first === 93) {
-          tokensToReplace.push({ rangeIndex: i, atBeginning: true, count: 1 })
-        } else if (tokenList[i].last === 93) {
-          tokensToReplace.push({ rangeIndex: i, atBeginning: false, count: 1 })
+      let remainingTokens = tokenList[tokenLine].count - tokenIndex
+      tokenList[tokenLine].last -= remainingTokens
+      tokenList[tokenLine].count = tokenIndex
+
+      if (remainingTokens > 0) {
+        const tokensToReplace: Array<{
+          rangeIndex: number
+          atBeginning: boolean
+          count: number
+        }> = []
+
+        for (let i = 0; i <= tokenLine; ++i) {
+          if (tokenList[i].first === 93) {
+            tokensToReplace.push({ rangeIndex: i, atBeginning: true, count: 1 })
+          } else if (tokenList[i].last === 93) {
+            tokensToReplace.push({ rangeIndex: i, atBeginning: false, count: 1 })
+          }
         }
-      }
 
-      for (let i = 0; i < tokensToReplace.length; ++i) {
-        if (remainingTokens >= tokensToReplace[i].count) {
-          for (let j = 0; j < tokensToReplace[i].count; ++j) {
-            ++tokenIndex
-            --remainingTokens
-            const currentRange = tokenList[tokensToReplace[i].rangeIndex]
-            const oldToken = String.fromCharCode(
-              tokensToReplace[i].atBeginning ? currentRange.first : currentRange.last,
-            )
-            const newToken = String.fromCharCode(++tokenList[tokenLine].last)
-            regPackOutput = regPackOutput.split(oldToken).join(newToken)
-            details +=
-              oldToken.charCodeAt(0) +
-              "(" +
-              oldToken +
-              ") replaced by " +
-              newToken.charCodeAt(0) +
-              "(" +
-              newToken +
-              ")\n"
-
-            --currentRange.count
-            ++tokenList[tokenLine].count
-            if (tokensToReplace[i].atBeginning) {
-              ++currentRange.first
-              if (unusedBackslash && currentRange.first === 92) {
+        for (let i = 0; i < tokensToReplace.length; ++i) {
+          if (remainingTokens >= tokensToReplace[i].count) {
+            for (let j = 0; j < tokensToReplace[i].count; ++j) {
+              ++tokenIndex
+              --remainingTokens
+              const currentRange = tokenList[tokensToReplace[i].rangeIndex]
+              const oldToken = String.fromCharCode(
+                tokensToReplace[i].atBeginning ? currentRange.first : currentRange.last,
+              )
+              const newToken = String.fromCharCode(++tokenList[tokenLine].last)
+              regPackOutput = regPackOutput.split(oldToken).join(newToken)
+              details +=
+                oldToken.charCodeAt(0) +
+                "(" +
+                oldToken +
+                ") replaced by " +
+                newToken.charCodeAt(0) +
+                "(" +
+                newToken +
+                ")\n"
+
+              --currentRange.count
+              ++tokenList[tokenLine].count
+              if (tokensToReplace[i].atBeginning) {
                 ++currentRange.first
-                --currentRange.count
-              }
-            } else {
-              --currentRange.last
-              if (unusedBackslash && currentRange.last === 92) {
+                if (unusedBackslash && currentRange.first === 92) {
+                  ++currentRange.first
+                  --currentRange.count
+                }
+              } else {
                 --currentRange.last
-                --currentRange.count
+                if (unusedBackslash && currentRange.last === 92) {
+                  --currentRange.last
+                  --currentRange.count
+                }
+              }
+              if (tokensToReplace[i].rangeIndex === tokenLine) {
+                --tokenIndex
               }
-            }
-            if (tokensToReplace[i].rangeIndex === tokenLine) {
-              --tokenIndex
             }
           }
         }
       }
-    }
 
-    if (tokenList.length > 1 && tokenList[0].first === 94) {
-      const newFirstRange = tokenList.splice(1, 1)
-      tokenList.unshift(newFirstRange[0])
-    }
+      if (tokenList.length > 1 && tokenList[0].first === 94) {
+        const newFirstRange = tokenList.splice(1, 1)
+        tokenList.unshift(newFirstRange[0])
+      }
 
-    let tokenString = ""
-    for (let i = 0; i <= tokenLine; ++i) {
-      const rangeString = this.stringHelper.writeRangeToRegexpCharClass(tokenList[i].first, tokenList[i].last)
-      if (rangeString.charCodeAt(0) === 45) {
-        tokenString = rangeString + tokenString
-      } else {
-        tokenString += rangeString
+      for (let i = 0; i <= tokenLine; ++i) {
+        const rangeString = this.stringHelper.writeRangeToRegexpCharClass(tokenList[i].first, tokenList[i].last)
+        events.push({
+          type: "range-chosen",
+          first: tokenList[i].first,
+          last: tokenList[i].last,
+          charClass: rangeString,
+          cost: rangeString.length,
+        })
+        if (rangeString.charCodeAt(0) === 45) {
+          tokenString = rangeString + tokenString
+        } else {
+          tokenString += rangeString
+        }
       }
     }
 
-    let checkedString = this.stringHelper.matchAndReplaceAll(regPackOutput, false, "\\", "\\\\", "", "", 0, [])
-    checkedString = this.stringHelper.matchAndReplaceAll(
-      checkedString,
-      false,
-      packerData.packedStringDelimiter,
-      "\\" + packerData.packedStringDelimiter,
-      "",
-      "",
-      0,
-      [],
+    // Unicode ranges go first : they never end with a dash, that could merge with the next range.
+    // A literal dash must stay first though, lest it be read as a range from the last Unicode token
+    const unicodeString = this.writeUnicodeTokensToRegexpCharClass(unicodeTokensUsed)
+    if (tokenString.charCodeAt(0) === 45) {
+      tokenString += unicodeString
+    } else {
+      tokenString = unicodeString + tokenString
+    }
+
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "regexp",
+      packerData.tokenCount!,
+      {
+        varName: packerData.packedCodeVarName,
+        payload: regPackOutput,
+        tokens: tokenString,
+        init: packerData.wrappedInit,
+      },
+      options,
     )
+    const regPackOutput2 = decoder.code + packerData.environment + packerData.interpreterCall
+    details += "Decoder: " + decoder.template.name + "\n"
 
-    const unpackBlock1 = "for(" + packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const unpackBlock2 =
-      packerData.packedStringDelimiter +
-      ";G=/[" +
-      tokenString +
-      "]/.exec(" +
-      packerData.packedCodeVarName +
-      ");)with(" +
-      packerData.packedCodeVarName +
-      ".split(G))" +
-      packerData.packedCodeVarName +
-      "=join(shift("
-    const unpackBlock3 = "));"
-
-    const regPackOutput2 =
-      unpackBlock1 +
-      checkedString +
-      unpackBlock2 +
-      packerData.wrappedInit +
-      unpackBlock3 +
-      packerData.environment +
-      packerData.interpreterCall
-
-    const resultSize = this.getByteLength(regPackOutput2)
+    const resultSize = this.costModel.measure(regPackOutput2)
 
+    const verification = this.executionVerifier.verify(regPackOutput2, packerData.contents)
+    events.push(verificationEvent(verification))
     details += "------------------------\nFinal check: "
-    let testString = checkedString.replace(
-      new RegExp("\\\\" + packerData.packedStringDelimiter, "g"),
-      packerData.packedStringDelimiter,
+    details += this.executionVerifier.describe(verification) + ".\n"
+
+    return verifiedResult(
+      {
+        length: resultSize,
+        output: regPackOutput2,
+        details,
+        events,
+      },
+      verification,
     )
-    testString = testString.replace(/\\\\/g, "\\")
-    const regToken = new RegExp("[" + tokenString + "]", "")
-    let match: RegExpExecArray | null
-    while ((match = regToken.exec(testString))) {
-      const token = match[0]
-      const k = testString.split(token)
-      testString = k.join(k.shift())
-    }
-    const success = testString === packerData.contents
-    details += (success ? "passed" : "failed") + ".\n"
-
-    return {
-      length: resultSize,
-      output: regPackOutput2,
-      details,
-    }
   }
 }
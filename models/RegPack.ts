@@ -1,15 +1,37 @@
 import { StringHelper } from "../utils/StringHelper"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { RepeatIndex } from "../utils/RepeatIndex"
 import { PackerData } from "./PackerData"
-import type { PackerOptions, PackerResult } from "../types"
+import type { PackerEvent, PackerOptions, PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { caughtFailure, verifiedResult } from "../utils/PackerStatus"
 import { RegExpPacker } from "./RegExpPacker"
+import { Preprocessor } from "./Preprocessor"
+import { CRUSH_PARAMETERS, type ParameterSchema } from "./ParameterSchema"
 
 export class RegPack {
+  // Options searched by the optimizer
+  public static readonly parameters: ParameterSchema = [
+    ...CRUSH_PARAMETERS,
+    { name: "useES6", label: "ES6", type: "boolean" },
+  ]
+
   private stringHelper: StringHelper
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
   private regExpPacker: RegExpPacker
+  private preprocessor: Preprocessor
 
   constructor() {
     this.stringHelper = StringHelper.getInstance()
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
     this.regExpPacker = new RegExpPacker()
+    this.preprocessor = new Preprocessor()
   }
 
   /**
@@ -19,75 +41,53 @@ export class RegPack {
    * @return An array of PackerData, each containing the code packed with different settings
    */
   public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
     try {
-      const inputData = new PackerData("", input)
+      const inputList = this.preprocessor.preprocessCode(input, options)
 
-      // First stage: configurable crusher
-      const output = this.findRedundancies(inputData, options)
-      inputData.result.push(output)
+      for (const inputData of inputList) {
+        // First stage: configurable crusher
+        const output = timeStage("crusher", () => this.findRedundancies(inputData, options))
+        inputData.result.push(output)
 
-      // Second stage: convert token string to regexp
-      const output2 = this.regExpPacker.packToRegexpCharClass(inputData, options)
-      inputData.result.push(output2)
+        // Second stage: convert token string to regexp
+        const output2 = timeStage("regexp", () => this.regExpPacker.packToRegexpCharClass(inputData, options))
+        inputData.result.push(output2)
+      }
 
-      return [inputData]
+      return inputList
     } catch (error) {
       console.error("Error in RegPack:", error)
       const errorData = new PackerData("Error", input)
-      const errorResult: PackerResult = {
-        length: 0,
-        output: "",
-        details: `Error: ${error instanceof Error ? error.message : String(error)}`,
-      }
+      const errorResult = caughtFailure(error)
       errorData.result.push(errorResult)
       errorData.result.push(errorResult)
       return [errorData]
     }
   }
 
-  /**
-   * Returns the total byte length of a string "as is" (with no further escaping)
-   */
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
-  }
-
-  /**
-   * Returns the byte length of a string after escaping
-   */
-  private getEscapedByteLength(inString: string): number {
-    return this.getByteLength(inString.replace(/\\/g, "\\\\"))
-  }
-
   /**
    * First stage: apply the algorithm common to First Crush and JS Crush
    */
   private findRedundancies(packerData: PackerData, options: PackerOptions): PackerResult {
     let s = packerData.contents
     packerData.matchesLookup = []
-    let details = ""
+    let details = packerData.log
+    const events: PackerEvent[] = []
 
     // 34(") and 39(') now allowed, as long as they are not the chosen delimiter
+    // Non-ASCII tokens are only worth it when characters are counted
     const delimiterCode = packerData.packedStringDelimiter.charCodeAt(0)
-    const Q: string[] = []
-    for (let i = 0; ++i < 127; ) {
-      if (i - 96 && i - 13 && i - delimiterCode && i - 92) {
-        Q.push(String.fromCharCode(i))
-      }
-    }
+    const Q = this.stringHelper.getTokenCandidates(delimiterCode, this.costModel.countsCharacters)
 
     const matches: Record<string, number> = {}
     let tokens = ""
+    let repeatIndex = new RepeatIndex(s)
 
     // Main compression loop
     while (true) {
       // Find an unused character to use as a token
-      let c = ""
-      for (let i = 122; !c && i > 0; i--) {
-        if (i < Q.length && s.indexOf(Q[i]) === -1) {
-          c = Q[i]
-        }
-      }
+      const c = Q.find((token) => s.indexOf(token) === -1) || ""
 
       // If no unused character is found, break the loop
       if (!c) break
@@ -97,40 +97,14 @@ export class RegPack {
 
       if (tokens.length === 1) {
         // First token: search all string space for possible matches
-        let found = true // stop as soon as no substring of length t is found twice
-        for (let t = 2; found; ++t) {
-          found = false
-          for (let i = 0; i < s.length - t; ++i) {
-            const beginCode = s.charCodeAt(i)
-            const endCode = s.charCodeAt(i + t - 1)
-
-            // If the first character is a low surrogate or the last character is a high surrogate, skip it
-            if ((beginCode < 0xdc00 || beginCode > 0xdfff) && (endCode < 0xd800 || endCode > 0xdbff)) {
-              const x = s.substr(i, t)
-              if (!matches[x]) {
-                let j = s.indexOf(x, i + t)
-                if (j !== -1) {
-                  found = true
-                  matches[x] = 1
-                  while (j !== -1) {
-                    matches[x]++
-                    j = s.indexOf(x, j + t)
-                  }
-                }
-              }
-            }
-          }
+        for (const repeat of repeatIndex.findRepeats()) {
+          matches[repeat.string] = repeat.count
         }
       } else {
         // Subsequent tokens: only recompute the values of previously found matches
         const newMatches: Record<string, number> = {}
         for (const x in matches) {
-          let j = s.indexOf(x)
-          newMatches[x] = 0
-          while (j !== -1) {
-            newMatches[x]++
-            j = s.indexOf(x, j + x.length)
-          }
+          newMatches[x] = repeatIndex.count(x)
         }
         Object.assign(matches, newMatches)
       }
@@ -144,7 +118,7 @@ export class RegPack {
         Z = 0
 
       for (const i in matches) {
-        const j = this.getEscapedByteLength(i)
+        const j = this.costModel.measureEscaped(i, packerData.packedStringDelimiter)
         const R = matches[i]
         Z = R * j - R - j - 2 // -1 used in JS Crush performs replacement with zero gain
         const value = options.crushGainFactor * Z + options.crushLengthFactor * j + options.crushCopiesFactor * R
@@ -166,7 +140,11 @@ export class RegPack {
         }
       }
 
-      if (M < 1) break
+      if (M < 1) {
+        // The token found no match, leave it out of the unpacking loop
+        tokens = tokens.substr(1)
+        break
+      }
 
       // Update the other matches in case the selected one is a substring thereof
       const newMatches: Record<string, number> = {}
@@ -177,6 +155,7 @@ export class RegPack {
 
       // Apply the compression to the string
       s = this.stringHelper.matchAndReplaceAll(s, false, e, c, "", c + e, 0, [])
+      repeatIndex = repeatIndex.substitute(e, c, c + e)
 
       packerData.matchesLookup.push({
         token: c,
@@ -193,24 +172,20 @@ export class RegPack {
       })
 
       details += c.charCodeAt(0) + "(" + c + ") : val=" + bestValue + ", gain=" + M + ", N=" + N + ", str = " + e + "\n"
+      events.push({ type: "token-assigned", token: c, string: e, gain: M, copies: N, score: bestValue })
     }
 
     // List matches that did not find a token
     // First, update the matches count
     const newMatches: Record<string, number> = {}
     for (const x in matches) {
-      let j = s.indexOf(x)
-      newMatches[x] = 0
-      while (j !== -1) {
-        newMatches[x]++
-        j = s.indexOf(x, j + x.length)
-      }
+      newMatches[x] = repeatIndex.count(x)
     }
     Object.assign(matches, newMatches)
 
     let firstLine = true
     for (const i in matches) {
-      const j = this.getEscapedByteLength(i)
+      const j = this.costModel.measureEscaped(i, packerData.packedStringDelimiter)
       const R = matches[i]
       const Z = R * j - R - j - 2
 
@@ -221,6 +196,14 @@ export class RegPack {
         }
         const value = options.crushGainFactor * Z + options.crushLengthFactor * j + options.crushCopiesFactor * R
         details += "..( ) : val=" + value + ", gain=" + Z + ", N=" + R + ", str = " + i + "\n"
+        events.push({
+          type: "candidate-rejected",
+          string: i,
+          gain: Z,
+          copies: R,
+          score: value,
+          reason: "no token left",
+        })
         packerData.matchesLookup.push({
           token: "",
           string: i,
@@ -240,7 +223,7 @@ export class RegPack {
     // Show the patterns that are "almost" gains
     firstLine = true
     for (const i in matches) {
-      const j = this.getEscapedByteLength(i)
+      const j = this.costModel.measureEscaped(i, packerData.packedStringDelimiter)
       const R = matches[i]
       const Z = R * j - R - j - 2
       const Z1 = (R + 1) * j - (R + 1) - j - 2
@@ -253,66 +236,33 @@ export class RegPack {
         const value = options.crushGainFactor * Z1 + options.crushLengthFactor * j + options.crushCopiesFactor * R
         details +=
           "   val=" + value + ", gain=" + Z + "->" + Z1 + " (+" + (Z1 - Z) + "), N=" + R + ", str = " + i + "\n"
+        events.push({ type: "near-miss", string: i, gain: Z, gainWithOneMore: Z1, copies: R, score: value })
       }
     }
 
-    const loopInitCode = options.useES6 ? ";for(i of" : ";for(i in G="
-    const loopMemberCode = options.useES6 ? "i" : "G[i]"
-
-    // Escape the backslashes present in the code
-    let packedString = this.stringHelper.matchAndReplaceAll(s, false, "\\", "\\\\", "", "", 0, [])
-
-    // Escape the occurrences of the string delimiter present in the code
-    packedString = this.stringHelper.matchAndReplaceAll(
-      packedString,
-      false,
-      packerData.packedStringDelimiter,
-      "\\" + packerData.packedStringDelimiter,
-      "",
-      "",
-      0,
-      [],
+    // Shortest decoder of the catalogue for these tokens
+    const decoder = this.decoderCatalogue.emit(
+      "token-list",
+      tokens.length,
+      { varName: packerData.packedCodeVarName, payload: s, tokens, init: packerData.wrappedInit },
+      options,
     )
+    const output = decoder.code + packerData.environment + packerData.interpreterCall
+    details += "Decoder: " + decoder.template.name + "\n"
 
-    // Put everything together
-    const unpackBlock1 = packerData.packedCodeVarName + "=" + packerData.packedStringDelimiter
-    const unpackBlock2 =
-      packerData.packedStringDelimiter +
-      loopInitCode +
-      packerData.packedStringDelimiter +
-      tokens +
-      packerData.packedStringDelimiter +
-      ")with(" +
-      packerData.packedCodeVarName +
-      ".split(" +
-      loopMemberCode +
-      "))" +
-      packerData.packedCodeVarName +
-      "=join(pop("
-    const unpackBlock3 = "));"
+    const verification = this.executionVerifier.verify(output, packerData.contents)
+    events.push(verificationEvent(verification))
+    details += "------------------------\nFinal check: "
+    details += this.executionVerifier.describe(verification) + ".\n"
 
-    const envMapping = [
-      { inLength: packedString.length, outLength: packedString.length, complete: false },
+    return verifiedResult(
       {
-        chapter: 1,
-        rangeIn: [0, packedString.length],
-        rangeOut: [0, unpackBlock1.length + unpackBlock2.length + unpackBlock3.length],
+        length: this.costModel.measure(output),
+        output,
+        details,
+        events,
       },
-    ]
-
-    const output =
-      unpackBlock1 +
-      packedString +
-      unpackBlock2 +
-      packerData.wrappedInit +
-      unpackBlock3 +
-      packerData.environment +
-      packerData.interpreterCall
-
-    return {
-      length: this.getByteLength(output),
-      output,
-      details,
-    }
+      verification,
+    )
   }
 }
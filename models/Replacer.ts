@@ -1,49 +1,51 @@
 import { StringHelper } from "../utils/StringHelper"
+import { ES5_STRING_DELIMITERS, STRING_DELIMITERS, type StringEmitter, getStringEmitter } from "../utils/StringEmitter"
+import { type DecoderCatalogue, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { type CostModel, getCostModel } from "../utils/CostModel"
+import { type ExecutionVerifier, type VerificationResult, getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { type OccurrenceCounter, getOccurrenceCounter } from "../utils/OccurrenceCounter"
+import { RepeatIndex } from "../utils/RepeatIndex"
 import { PackerData } from "./PackerData"
-import type { PackerOptions, PackerResult, Match } from "../types"
-
-// Add this interface to the top of the file
-interface SearchGraphData {
-  nodes: Array<{
-    id: string
-    text: string
-    replacements: string[]
-    size: number
-    depth: number
-    totalGain?: number
-    isBestSolution?: boolean
-    inBeam?: boolean // Added to track if node is in the beam
-    beamRank?: number // Added to track node's rank in the beam
-  }>
-  edges: Array<{
-    source: string
-    target: string
-    pattern: string
-    gain: number
-  }>
-  maxDepth: number
-  bestPath: string[]
-}
+import type { PackerEvent, PackerOptions, PackerResult, Match } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { PackerError, caughtFailure, failedResult, verifiedResult } from "../utils/PackerStatus"
+import type { ParameterSchema } from "./ParameterSchema"
 
 /**
  * Replacer - A minimal JavaScript packer that uses digit-based token replacement
  *
  * This packer works by replacing common substrings with digits 0-9, then using a minimal
- * decoder: `.replace(/\d/g,i=>array[i])` to restore the original string.
+ * decoder: `.replace(/\d/g,i=>array[i])` to restore the original string, or a split/join chain for a few replacements.
  *
  * Limitations:
  * - Only works for strings that don't contain Arabic numerals (0-9)
- * - Limited to 10 replacements (digits 0-9)
+ * - Limited to 10 replacements (digits 0-9) : a larger maxInt is capped at 10, as multi-digit tokens cannot be decoded
  * - Best for strings with many repeated substrings
  */
 export class Replacer {
+  // Options searched by the optimizer, which runs the beam search (the branch search only completes asynchronously)
+  public static readonly parameters: ParameterSchema = [
+    { name: "maxInt", label: "Max Replacements", type: "range", min: 1, max: 10, integer: true },
+    { name: "beamWidth", label: "Beam Width", type: "range", min: 1, max: 20, integer: true },
+  ]
+
   private stringHelper: StringHelper
+  private stringEmitter: StringEmitter
+  private decoderCatalogue: DecoderCatalogue
+  private costModel: CostModel
+  private executionVerifier: ExecutionVerifier
+  private occurrenceCounter: OccurrenceCounter
   private maxReplacements = 10 // Limited to digits 0-9
   private worker: Worker | null = null
 
   constructor(maxInt = 10) {
     this.stringHelper = StringHelper.getInstance()
-    this.maxReplacements = Math.min(Math.max(1, maxInt), 100) // Clamp between 1 and 100
+    this.stringEmitter = getStringEmitter()
+    this.decoderCatalogue = getDecoderCatalogue()
+    this.costModel = getCostModel()
+    this.executionVerifier = getExecutionVerifier()
+    this.occurrenceCounter = getOccurrenceCounter()
+    this.maxReplacements = Math.min(Math.max(1, maxInt), 10) // Clamp between 1 and 10
   }
 
   /**
@@ -53,12 +55,23 @@ export class Replacer {
    * @return An array of PackerData, each containing the code packed with different settings
    */
   public runPacker(input: string, options: PackerOptions): PackerData[] {
+    this.costModel = getCostModel(options.costTarget)
+    if (options.maxInt) {
+      this.maxReplacements = Math.min(Math.max(1, options.maxInt), 10)
+    }
     try {
       const inputData = new PackerData("Replacer", input)
+      inputData.packedStringDelimiter = this.stringEmitter.chooseDelimiter(
+        input,
+        options.useES6 ? STRING_DELIMITERS : ES5_STRING_DELIMITERS,
+      )
 
       // Check if input contains digits
       if (/[0-9]/.test(input)) {
-        throw new Error("Input contains digits (0-9) which are used as tokens by Replacer")
+        throw new PackerError(
+          "input-contains-digits",
+          "Input contains digits (0-9) which are used as tokens by Replacer",
+        )
       }
 
       // Compress the input
@@ -68,7 +81,7 @@ export class Replacer {
             waitingForTrigger: options.waitingForTrigger,
             onProgress: options.onProgress,
           })
-        : this.compressWithDigitReplacements(inputData, options)
+        : timeStage("beam search", () => this.compressWithDigitReplacements(inputData, options))
 
       inputData.result.push(output)
 
@@ -76,12 +89,7 @@ export class Replacer {
     } catch (error) {
       console.error("Error in Replacer:", error)
       const errorData = new PackerData("Error", input)
-      const errorResult: PackerResult = {
-        length: 0,
-        output: "",
-        details: `Error: ${error instanceof Error ? error.message : String(error)}`,
-        transform: [],
-      }
+      const errorResult = caughtFailure(error)
       errorData.result.push(errorResult)
       return [errorData]
     }
@@ -97,64 +105,42 @@ export class Replacer {
     }
   }
 
-  /**
-   * Returns the total byte length of a string
-   */
-  private getByteLength(inString: string): number {
-    return encodeURI(inString).replace(/%../g, "i").length
-  }
-
   /**
    * Find all patterns in the string that could be replaced
    * Include all patterns that appear at least twice, even if they don't have positive gain
+   * Lengths are measured once escaped in a string literal with the delimiter
    */
-  private findAllPatterns(s: string): Match[] {
+  private findAllPatterns(s: string, delimiter: string): Match[] {
     const patterns: Match[] = []
-    const matches: Record<string, number> = {}
 
-    // First pass: find all substrings that appear at least twice
+    // First pass: find the maximal repeats without digits
     // Start with longer patterns for better compression
-    for (let length = Math.min(100, Math.floor(s.length / 2)); length >= 2; length--) {
-      for (let i = 0; i <= s.length - length; i++) {
-        const pattern = s.substring(i, i + length)
-
-        // Skip if already processed or if pattern contains digits
-        const digitRegex = this.maxReplacements <= 10 ? /[0-9]/ : /\d/
-        if (matches[pattern] !== undefined || digitRegex.test(pattern)) continue
-
-        // Count occurrences
-        let count = 0
-        let pos = -1
-        while ((pos = s.indexOf(pattern, pos + 1)) !== -1) {
-          count++
-        }
+    const repeats = new RepeatIndex(s).findRepeats({ exclude: /[0-9]/ })
+    repeats.sort((a, b) => b.string.length - a.string.length || a.offset - b.offset)
 
-        if (count >= 2) {
-          matches[pattern] = count
-
-          // Calculate raw gain (length * copies)
-          const rawGain = pattern.length * count
-
-          // Calculate net gain (accounting for decoder overhead)
-          const netGain = (pattern.length - 1) * count - pattern.length - 1
-
-          // Add all patterns with at least 2 occurrences
-          // This ensures we have enough patterns to make 10 replacements
-          patterns.push({
-            token: "",
-            string: pattern,
-            originalString: pattern,
-            depends: "",
-            usedBy: "",
-            gain: netGain,
-            copies: count,
-            len: pattern.length,
-            score: rawGain, // Use raw gain as score
-            cleared: false,
-            newOrder: 9999,
-          })
-        }
-      }
+    for (const { string: pattern, count } of repeats) {
+      // Calculate raw gain (length * copies)
+      const patternLength = this.costModel.measureEscaped(pattern, delimiter)
+      const rawGain = patternLength * count
+
+      // Calculate net gain (accounting for decoder overhead)
+      const netGain = (patternLength - 1) * count - patternLength - 1
+
+      // Add all patterns with at least 2 occurrences
+      // This ensures we have enough patterns to make 10 replacements
+      patterns.push({
+        token: "",
+        string: pattern,
+        originalString: pattern,
+        depends: "",
+        usedBy: "",
+        gain: netGain,
+        copies: count,
+        len: patternLength,
+        score: rawGain, // Use raw gain as score
+        cleared: false,
+        newOrder: 9999,
+      })
     }
 
     return patterns
@@ -168,9 +154,10 @@ export class Replacer {
     let s = packerData.contents
     packerData.matchesLookup = []
     let details = ""
+    const events: PackerEvent[] = []
 
     // Find all patterns with their gain
-    const initialPatterns = this.findAllPatterns(s)
+    const initialPatterns = this.findAllPatterns(s, packerData.packedStringDelimiter)
 
     // Beam search parameters
     const beamWidth = options.beamWidth || 5 // Use provided beam width or default to 5
@@ -292,7 +279,6 @@ export class Replacer {
     // Use the best solution found
     s = bestSolution.text
     const replacements = bestSolution.replacements
-    const totalGain = bestSolution.totalGain
 
     // Add to matchesLookup for visualization
     for (let i = 0; i < replacements.length; i++) {
@@ -309,7 +295,8 @@ export class Replacer {
       }
 
       // Calculate gain for this pattern
-      const patternGain = (pattern.length - 1) * count - pattern.length - 1
+      const patternLength = this.costModel.measureEscaped(pattern, packerData.packedStringDelimiter)
+      const patternGain = (patternLength - 1) * count - patternLength - 1
 
       packerData.matchesLookup.push({
         token: token,
@@ -319,42 +306,55 @@ export class Replacer {
         usedBy: "",
         gain: patternGain,
         copies: count,
-        len: pattern.length,
-        score: pattern.length * count, // Raw gain as score
+        len: patternLength,
+        score: patternLength * count, // Raw gain as score
         cleared: false,
         newOrder: i,
       })
 
-      details += `${i} : gain=${patternGain}, copies=${count}, length=${pattern.length}, str = ${pattern}\n`
+      details += `${i} : gain=${patternGain}, copies=${count}, length=${patternLength}, str = ${pattern}\n`
+      events.push({ type: "token-assigned", token, string: pattern, gain: patternGain, copies: count })
     }
 
-    const decoderArray = `\`${replacements.join("|")}\`.split\`|\``
-    const decoderPattern = this.maxReplacements <= 10 ? "\\d" : "\\d+"
-    const decoder = `.replace(/${decoderPattern}/g,i=>${decoderArray}[i])`
-
-    // Create the final packed output
-    const packedOutput = `\`${s}\`${decoder}`
+    // Create the final packed output, with the shortest decoder of the catalogue
+    const decoder = this.decoderCatalogue.emit(
+      "digits",
+      replacements.length,
+      { payload: s, patterns: replacements },
+      options,
+    )
+    const packedOutput = decoder.code
+    // The gains of the replacements leave out the decoder : only the emitted code tells the actual gain
+    const totalGain = this.costModel.measure(packerData.contents) - this.costModel.measure(packedOutput)
 
     // Update the details section to include more information
     details += `\n------------------------\n`
-    details += `Original size: ${packerData.contents.length} bytes\n`
-    details += `Compressed size: ${s.length} bytes\n`
-    details += `Decoder size: ${decoder.length} bytes\n`
-    details += `Total size: ${packedOutput.length} bytes\n`
-    details += `Total gain: ${totalGain} bytes\n`
+    details += `Original size: ${this.costModel.measure(packerData.contents)} ${this.costModel.unit}\n`
+    details += `Compressed size: ${this.costModel.measure(s)} ${this.costModel.unit}\n`
+    details += `Decoder size: ${this.costModel.measure(packedOutput) - this.costModel.measure(s)} ${this.costModel.unit} (${decoder.template.name})\n`
+    details += `Total size: ${this.costModel.measure(packedOutput)} ${this.costModel.unit}\n`
+    details += `Total gain: ${totalGain} ${this.costModel.unit}\n`
     details += `Replacements used: ${replacements.length} of ${this.maxReplacements} possible\n`
-    details += `Compression ratio: ${((packedOutput.length / packerData.contents.length) * 100).toFixed(2)}%\n`
+    details += `Compression ratio: ${((this.costModel.measure(packedOutput) / this.costModel.measure(packerData.contents)) * 100).toFixed(2)}%\n`
     details += `Algorithm: Beam Search (width=${beamWidth})\n`
 
     // Verify the unpacking works correctly
-    details += this.verifyUnpacking(packerData.contents, s, replacements)
+    const verification = this.verifyUnpacking(packerData.contents, packedOutput, events)
+    details += "Verification: " + this.executionVerifier.describe(verification) + ".\n"
 
-    return {
-      length: this.getByteLength(packedOutput),
-      output: packedOutput,
-      details,
-      transform: [],
+    if (totalGain <= 0) {
+      return { ...this.noGainFailure(totalGain, details), events }
     }
+    return verifiedResult(
+      {
+        length: this.costModel.measure(packedOutput),
+        output: packedOutput,
+        details,
+        events,
+        transform: [],
+      },
+      verification,
+    )
   }
 
   /**
@@ -394,33 +394,16 @@ export class Replacer {
     for (let i = 0; i < patterns.length; i++) {
       const pattern = patterns[i]
 
-      // Count non-overlapping occurrences in current text
-      let count = 0
-      let pos = 0
-
-      while ((pos = text.indexOf(pattern.string, pos)) !== -1) {
-        count++
-        pos += pattern.string.length // Move past this occurrence to avoid overlaps
-      }
-
-      // Also count overlapping occurrences with a small weight
-      let overlapCount = 0
-      pos = 0
-      while ((pos = text.indexOf(pattern.string, pos + 1)) !== -1) {
-        overlapCount++
-      }
-
-      // Adjust count to include some overlapping occurrences
-      // but with diminished value
-      const adjustedCount = count + (overlapCount - count) * 0.3
+      // Count non-overlapping occurrences in current text, overlapping ones are not replaced
+      const count = this.occurrenceCounter.count(text, pattern.string)
 
       // Update pattern data
       pattern.copies = Math.max(count, 1) // Ensure at least 1 copy
 
       // Calculate gain: (length-1)*copies - length - 1
       // This accounts for the replacement token (1 byte) and the overhead of storing the pattern
-      pattern.gain = (pattern.len - 1) * adjustedCount - pattern.len - 1
-      pattern.score = pattern.len * adjustedCount // Raw gain as score
+      pattern.gain = (pattern.len - 1) * count - pattern.len - 1
+      pattern.score = pattern.len * count // Raw gain as score
     }
 
     // Remove patterns with fewer than 2 occurrences or negative gain
@@ -438,18 +421,18 @@ export class Replacer {
     // If this is just a check without actually running the compression
     if (options.waitingForTrigger) {
       return {
-        length: 0,
-        output: "",
-        details: "Maximum gain search is ready. Click 'Run Branch Search Compression' to start.",
+        ...failedResult(
+          "running",
+          "Waiting for the branch search to be started",
+          "Maximum gain search is ready. Click 'Run Branch Search Compression' to start.",
+        ),
         transform: [],
       }
     }
 
     // Create a placeholder result that will be updated when the worker completes
     const placeholderResult: PackerResult = {
-      length: 0,
-      output: "",
-      details: "Maximum gain search is running in a Web Worker...",
+      ...failedResult("running", "Branch search running", "Maximum gain search is running in a Web Worker..."),
       transform: [],
       isRunning: true, // Custom property to indicate the worker is running
     }
@@ -470,28 +453,44 @@ export class Replacer {
           options.onProgress(message.progress)
         } else if (message.type === "result") {
           // Process the final result
-          const { text, replacements, size, totalGain, nodesExplored, timeTaken, matchesLookup, searchGraph } = message
+          const { text, replacements, nodesExplored, timeTaken, matchesLookup, searchGraph } = message
 
           // Update the packer data with the results
           packerData.matchesLookup = matchesLookup || []
 
           // Store the search graph data for visualization
           if (searchGraph) {
-            console.log("Received search graph with", searchGraph.nodes.length, "nodes and", searchGraph.edges.length)
             packerData.searchGraph = searchGraph
           }
 
           // Generate the decoder
-          const decoderArray = replacements.length > 0 ? `\`${replacements.join("|")}\`.split\`|\`` : "[]"
-          const decoder = replacements.length > 0 ? `.replace(/\\d/g,i=>${decoderArray}[i])` : ""
+          const decoder =
+            replacements.length > 0
+              ? this.decoderCatalogue.emit(
+                  "digits",
+                  replacements.length,
+                  { payload: text, patterns: replacements },
+                  options,
+                )
+              : null
+          const packedOutput = decoder ? decoder.code : text || ""
+          const totalGain = this.costModel.measure(packerData.contents) - this.costModel.measure(packedOutput)
 
           // Build details string
           let details = ""
+          const events: PackerEvent[] = []
           for (let i = 0; i < replacements.length; i++) {
             const pattern = replacements[i]
             const match = matchesLookup?.find((m) => m.token === i.toString())
             if (match) {
-              details += `${i} : str = ${pattern}, occurrences = ${match.copies}, raw gain = ${pattern.length * match.copies}, gain = ${match.gain}\n`
+              details += `${i} : str = ${pattern}, occurrences = ${match.copies}, raw gain = ${match.len * match.copies}, gain = ${match.gain}\n`
+              events.push({
+                type: "token-assigned",
+                token: match.token,
+                string: pattern,
+                gain: match.gain,
+                copies: match.copies,
+              })
             }
           }
 
@@ -500,25 +499,33 @@ export class Replacer {
           details += `Patterns analyzed: ${nodesExplored?.toLocaleString() || 0}\n`
           details += `Time taken: ${((timeTaken || 0) / 1000).toFixed(2)} seconds\n\n`
 
-          details += `Original size: ${packerData.contents.length} bytes\n`
-          details += `Compressed size: ${text?.length || 0} bytes\n`
-          details += `Decoder size: ${decoder.length} bytes\n`
-          const packedOutput = replacements.length > 0 ? `\`${text}\`${decoder}` : text || ""
-          details += `Total size: ${packedOutput.length} bytes\n`
-          details += `Total gain: ${totalGain || 0} bytes\n`
+          details += `Original size: ${this.costModel.measure(packerData.contents)} ${this.costModel.unit}\n`
+          details += `Compressed size: ${this.costModel.measure(text || "")} ${this.costModel.unit}\n`
+          details += `Decoder size: ${this.costModel.measure(packedOutput) - this.costModel.measure(text || "")} ${this.costModel.unit}${decoder ? ` (${decoder.template.name})` : ""}\n`
+          details += `Total size: ${this.costModel.measure(packedOutput)} ${this.costModel.unit}\n`
+          details += `Total gain: ${totalGain} ${this.costModel.unit}\n`
           details += `Replacements used: ${replacements?.length || 0} of ${this.maxReplacements} possible\n`
-          details += `Compression ratio: ${((packedOutput.length / packerData.contents.length) * 100).toFixed(2)}%\n`
+          details += `Compression ratio: ${((this.costModel.measure(packedOutput) / this.costModel.measure(packerData.contents)) * 100).toFixed(2)}%\n`
           details += `Search graph: ${packerData.searchGraph ? `${packerData.searchGraph.nodes.length} nodes, ${packerData.searchGraph.edges.length} edges` : "Not available"}\n`
           details += `Algorithm: Beam Search (width=${options.beamWidth || 5})\n`
 
           // Verify the unpacking works correctly
-          details += this.verifyUnpacking(packerData.contents, text || "", replacements || [])
+          const verification = this.verifyUnpacking(packerData.contents, packedOutput, events)
+          details += "Verification: " + this.executionVerifier.describe(verification) + ".\n"
+          events.push({ type: "stage-timing", stage: "branch search", duration: timeTaken || 0 })
 
           // Update the placeholder result with the actual result
-          placeholderResult.length = this.getByteLength(packedOutput)
-          placeholderResult.output = packedOutput
-          placeholderResult.details = details
           placeholderResult.isRunning = false
+          placeholderResult.error = undefined
+          Object.assign(
+            placeholderResult,
+            totalGain > 0
+              ? verifiedResult(
+                  { length: this.costModel.measure(packedOutput), output: packedOutput, details, events },
+                  verification,
+                )
+              : { ...this.noGainFailure(totalGain, details), events },
+          )
 
           // Clean up the worker
           this.terminate()
@@ -529,7 +536,10 @@ export class Replacer {
           }
         } else if (message.type === "error") {
           console.error("Worker error:", message.error)
-          placeholderResult.details = `Error in Web Worker: ${message.error}`
+          Object.assign(
+            placeholderResult,
+            failedResult("worker-error", message.error, `Error in Web Worker: ${message.error}`),
+          )
           placeholderResult.isRunning = false
 
           // Clean up the worker
@@ -545,7 +555,8 @@ export class Replacer {
       // Handle worker errors
       this.worker.onerror = (error) => {
         console.error("Worker error:", error)
-        placeholderResult.details = `Error in Web Worker: ${error.message || "Unknown error"}`
+        const reason = error.message || "Unknown error"
+        Object.assign(placeholderResult, failedResult("worker-error", reason, `Error in Web Worker: ${reason}`))
         placeholderResult.isRunning = false
 
         // Clean up the worker
@@ -565,11 +576,16 @@ export class Replacer {
           maxStates: options.maxStates || 500000, // Significantly increased for maximum gain search
           timeLimit: options.timeLimit || 600000, // 10 minutes
           beamWidth: options.beamWidth || 5, // Pass beam width to worker
+          useES6: options.useES6,
+          strictDecoder: options.strictDecoder,
+          avoidEval: options.avoidEval,
+          costTarget: options.costTarget,
         },
       })
     } catch (error) {
       console.error("Error creating worker:", error)
-      placeholderResult.details = `Error creating Web Worker: ${error instanceof Error ? error.message : String(error)}`
+      const reason = error instanceof Error ? error.message : String(error)
+      Object.assign(placeholderResult, failedResult("worker-error", reason, `Error creating Web Worker: ${reason}`))
       placeholderResult.isRunning = false
 
       if (options.onComplete) {
@@ -581,21 +597,22 @@ export class Replacer {
   }
 
   /**
-   * Verify unpacking works correctly
+   * Failed result of a pack whose emitted code, decoder included, is not shorter than the input
    */
-  private verifyUnpacking(original: string, compressed: string, replacements: string[]): string {
-    let details = "Verification: "
-
-    // Simulate the unpacking process
-    let unpacked = compressed
-    for (let i = 0; i < this.maxReplacements && i < replacements.length; i++) {
-      const regex = new RegExp(i.toString().replace(/\d/g, "\\d"), "g")
-      unpacked = unpacked.replace(regex, replacements[i])
-    }
-
-    const success = unpacked === original
-    details += (success ? "passed" : "failed") + ".\n"
+  private noGainFailure(totalGain: number, details: string): PackerResult {
+    return failedResult(
+      "no-gain",
+      `the packed code, decoder included, is not shorter than the input (gain ${totalGain} ${this.costModel.unit})`,
+      details,
+    )
+  }
 
-    return details
+  /**
+   * Verify unpacking works correctly, by evaluating the packed expression
+   */
+  private verifyUnpacking(original: string, packedOutput: string, events: PackerEvent[]): VerificationResult {
+    const verification = this.executionVerifier.verify("eval(" + packedOutput + ")", original)
+    events.push(verificationEvent(verification))
+    return verification
   }
 }
@@ -0,0 +1,232 @@
+import { DEFAULT_PACKER_OPTIONS, type PackerOptions } from "../types"
+import { type ParameterSchema, type ParameterValue, getParameterValues } from "./ParameterSchema"
+
+/**
+ * Limits of a search, whichever is reached first ends it
+ */
+export interface SearchBudget {
+  maxEvaluations: number
+  // Milliseconds
+  maxTime: number
+}
+
+/**
+ * Ask / tell interface : the optimizer asks for options to try, runs the packer and tells the resulting size
+ */
+export interface SearchStrategy {
+  readonly name: string
+  ask(): PackerOptions
+  tell(options: PackerOptions, size: number): void
+}
+
+export type SearchStrategyName = "random-restarts" | "annealing" | "population"
+
+export const DEFAULT_SEARCH_BUDGET: SearchBudget = { maxEvaluations: 300, maxTime: 120000 }
+
+// Range values are rounded to this many decimals : finer steps do not change the packed output
+const RANGE_DECIMALS = 2
+
+// Steps are expressed on the [0, 1] coordinates of a point
+const INITIAL_SCALE = 0.25
+const MIN_SCALE = 0.01
+const FAILURES_BEFORE_SHRINK = 6
+
+/**
+ * Point of the search space, each coordinate in [0, 1]. An enum or a flag maps its values to equal slices of [0, 1].
+ */
+type Point = number[]
+
+/**
+ * Base of the strategies : conversions between points and options, random points and neighbours
+ */
+abstract class PointSearch implements SearchStrategy {
+  public abstract readonly name: string
+
+  constructor(protected space: ParameterSchema) {}
+
+  public abstract ask(): PackerOptions
+  public abstract tell(options: PackerOptions, size: number): void
+
+  protected randomPoint(): Point {
+    return this.space.map(() => Math.random())
+  }
+
+  /**
+   * Moves every coordinate by a gaussian step of the given scale, an enum or a flag switching value with the same odds
+   */
+  protected neighbour(point: Point, scale: number): Point {
+    return point.map((x, i) => {
+      if (this.space[i].type !== "range") {
+        return Math.random() < scale ? Math.random() : x
+      }
+      // Box-Muller transform
+      const step = Math.sqrt(-2 * Math.log(1 - Math.random())) * Math.cos(2 * Math.PI * Math.random())
+      return Math.min(1, Math.max(0, x + step * scale))
+    })
+  }
+
+  /**
+   * Options at a point, the options outside the search space keeping their default value
+   */
+  protected toOptions(point: Point): PackerOptions {
+    const options: PackerOptions = { ...DEFAULT_PACKER_OPTIONS }
+    this.space.forEach((definition, i) => {
+      let value: ParameterValue
+      if (definition.type === "range") {
+        value = definition.min + point[i] * (definition.max - definition.min)
+        value = definition.integer ? Math.round(value) : Number(value.toFixed(RANGE_DECIMALS))
+      } else {
+        const values = getParameterValues(definition)
+        value = values[Math.min(values.length - 1, Math.floor(point[i] * values.length))]
+      }
+      Object.assign(options, { [definition.name]: value })
+    })
+    return options
+  }
+
+  protected toPoint(options: PackerOptions): Point {
+    return this.space.map((definition) => {
+      const value = options[definition.name] as ParameterValue
+      if (definition.type === "range") {
+        return ((value as number) - definition.min) / (definition.max - definition.min)
+      }
+      const values = getParameterValues(definition)
+      return (values.indexOf(value) + 0.5) / values.length
+    })
+  }
+}
+
+/**
+ * Hill climbing from random starting points : the step shrinks after repeated failures,
+ * and the climb restarts elsewhere once the step gets too small
+ */
+export class RandomRestartSearch extends PointSearch {
+  public readonly name = "random-restarts"
+  private current: Point | null = null
+  private currentSize = Number.POSITIVE_INFINITY
+  private scale = INITIAL_SCALE
+  private failures = 0
+
+  public ask(): PackerOptions {
+    return this.toOptions(this.current ? this.neighbour(this.current, this.scale) : this.randomPoint())
+  }
+
+  public tell(options: PackerOptions, size: number): void {
+    if (!this.current || size < this.currentSize) {
+      this.current = this.toPoint(options)
+      this.currentSize = size
+      this.failures = 0
+      return
+    }
+    if (++this.failures >= FAILURES_BEFORE_SHRINK) {
+      this.failures = 0
+      this.scale /= 2
+      if (this.scale < MIN_SCALE) {
+        this.current = null
+        this.currentSize = Number.POSITIVE_INFINITY
+        this.scale = INITIAL_SCALE
+      }
+    }
+  }
+}
+
+/**
+ * Simulated annealing : worse neighbours are accepted with a probability that decreases with the temperature,
+ * so the search can leave a local minimum early on, then settles
+ */
+export class SimulatedAnnealingSearch extends PointSearch {
+  public readonly name = "annealing"
+  private current: Point | null = null
+  private currentSize = Number.POSITIVE_INFINITY
+  // Relative size increase accepted with probability 1/e
+  private temperature = 0.02
+  private cooling: number
+
+  constructor(space: ParameterSchema, budget: SearchBudget = DEFAULT_SEARCH_BUDGET) {
+    super(space)
+    // Down to a thousandth of the initial temperature by the end of the budget
+    this.cooling = Math.pow(0.001, 1 / Math.max(1, budget.maxEvaluations))
+  }
+
+  public ask(): PackerOptions {
+    return this.toOptions(this.current ? this.neighbour(this.current, INITIAL_SCALE / 2) : this.randomPoint())
+  }
+
+  public tell(options: PackerOptions, size: number): void {
+    // Failed runs have an infinite size : they are never accepted, and always left for a successful one
+    const increase = (size - this.currentSize) / this.currentSize
+    if (!this.current || size <= this.currentSize || Math.random() < Math.exp(-increase / this.temperature)) {
+      this.current = this.toPoint(options)
+      this.currentSize = size
+    }
+    this.temperature *= this.cooling
+  }
+}
+
+/**
+ * Population search : every round, the better half of the population survives and each survivor
+ * spawns a neighbour, the step being halved from one round to the next.
+ * A new population is drawn once the step gets too small.
+ */
+export class PopulationSearch extends PointSearch {
+  public readonly name = "population"
+  private pending: Point[] = []
+  private population: Array<{ point: Point; size: number }> = []
+  private scale = INITIAL_SCALE
+
+  constructor(
+    space: ParameterSchema,
+    private populationSize = 16,
+  ) {
+    super(space)
+  }
+
+  public ask(): PackerOptions {
+    if (this.pending.length === 0) {
+      this.nextRound()
+    }
+    return this.toOptions(this.pending.shift()!)
+  }
+
+  public tell(options: PackerOptions, size: number): void {
+    this.population.push({ point: this.toPoint(options), size })
+  }
+
+  private nextRound(): void {
+    this.scale /= 2
+    if (this.population.length === 0 || this.scale < MIN_SCALE) {
+      this.population = []
+      this.scale = INITIAL_SCALE
+      for (let i = 0; i < this.populationSize; ++i) {
+        this.pending.push(this.randomPoint())
+      }
+      return
+    }
+    // Survivors keep their size, only their offspring is run
+    // Failed runs (infinite size) come last
+    this.population = this.population
+      .sort((a, b) => (a.size === b.size ? 0 : a.size < b.size ? -1 : 1))
+      .slice(0, Math.ceil(this.population.length / 2))
+    for (const survivor of this.population) {
+      this.pending.push(this.neighbour(survivor.point, this.scale))
+    }
+  }
+}
+
+/**
+ * Returns a new strategy from its name, searching the parameters of an engine
+ */
+export function createSearchStrategy(
+  name: SearchStrategyName,
+  space: ParameterSchema,
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+): SearchStrategy {
+  switch (name) {
+    case "random-restarts":
+      return new RandomRestartSearch(space)
+    case "annealing":
+      return new SimulatedAnnealingSearch(space, budget)
+    case "population":
+      return new PopulationSearch(space)
+  }
+}
@@ -1,19 +1,34 @@
 import { PackerData } from "./PackerData"
 import type { PackerOptions, PackerResult } from "../types"
+import { timeStage } from "../utils/PackerEvents"
+import { caughtFailure } from "../utils/PackerStatus"
 import { BeamSearchSolver } from "./BeamSearchSolver"
 import { RegExpPacker } from "./RegExpPacker"
+import { Preprocessor } from "./Preprocessor"
+import type { ParameterSchema } from "./ParameterSchema"
 
 /**
  * SlowPack - A packer using Beam Search and Dynamic Programming (Memoization)
  * to find optimal replacements.
  */
 export class SlowPack {
+  // Options searched by the optimizer
+  public static readonly parameters: ParameterSchema = [
+    { name: "beamWidth", label: "Beam Width", type: "range", min: 1, max: 20, integer: true },
+    { name: "branchFactor", label: "Branch Factor", type: "range", min: 1, max: 50, integer: true },
+    { name: "lookAheadDepth", label: "Look-ahead Depth", type: "range", min: 1, max: 150, integer: true },
+    { name: "prioritizeHighestGain", label: "Highest Gain First", type: "boolean" },
+    { name: "useES6", label: "ES6", type: "boolean" },
+  ]
+
   private beamSearchSolver: BeamSearchSolver
   private regExpPacker: RegExpPacker
+  private preprocessor: Preprocessor
 
   constructor() {
     this.beamSearchSolver = new BeamSearchSolver()
     this.regExpPacker = new RegExpPacker()
+    this.preprocessor = new Preprocessor()
   }
 
   public getSearchGraph() {
@@ -22,27 +37,23 @@ export class SlowPack {
 
   public runPacker(input: string, options: PackerOptions): PackerData[] {
     try {
-      const inputData = new PackerData("SlowPack", input)
-
-      // First stage: Beam Search + DP
-      const output = this.beamSearchSolver.findOptimalReplacements(inputData, options)
-      inputData.result.push(output)
+      const inputList = this.preprocessor.preprocessCode(input, options, "SlowPack")
 
-      // Second stage: Decoder generation (same as RegPack)
-      const output2 = this.regExpPacker.packToRegexpCharClass(inputData, options)
-      inputData.result.push(output2)
+      for (const inputData of inputList) {
+        // First stage: Beam Search + DP
+        const output = timeStage("beam search", () => this.beamSearchSolver.findOptimalReplacements(inputData, options))
+        inputData.result.push(output)
 
-      console.log(inputData)
+        // Second stage: Decoder generation (same as RegPack)
+        const output2 = timeStage("regexp", () => this.regExpPacker.packToRegexpCharClass(inputData, options))
+        inputData.result.push(output2)
+      }
 
-      return [inputData]
+      return inputList
     } catch (error) {
       console.error("Error in SlowPack:", error)
       const errorData = new PackerData("Error", input)
-      const errorResult: PackerResult = {
-        length: 0,
-        output: "",
-        details: `Error: ${error instanceof Error ? error.message : String(error)}`,
-      }
+      const errorResult = caughtFailure(error)
       errorData.result.push(errorResult)
       errorData.result.push(errorResult)
       return [errorData]
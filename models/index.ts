@@ -4,6 +4,16 @@ export * from "./RegPack"
 export * from "./Crusher"
 export * from "./Replacer"
 export * from "./RegPackOptimizer"
+export * from "./SearchStrategy"
+export * from "./ParameterSchema"
+export * from "./EngineRegistry"
 export * from "./PackerData"
 export * from "./SlowPack"
+export * from "./GrammarPack"
+export * from "./ContextMixer"
+export * from "./LZPacker"
+export * from "./Pipeline"
+export * from "./Preprocessor"
+export * from "./ContextHasher"
+export * from "../utils/CostModel"
 export * from "../types"
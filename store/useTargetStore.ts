@@ -0,0 +1,13 @@
+import { create } from 'zustand'
+import { DEFAULT_CONFIG } from '@/lib/init'
+
+interface TargetStore {
+  // Id of the selected target preset, empty for none
+  target: string
+  setTarget: (target: string) => void
+}
+
+export const useTargetStore = create<TargetStore>((set) => ({
+  target: DEFAULT_CONFIG.target,
+  setTarget: (target) => set({ target }),
+}))
@@ -0,0 +1,32 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getCostModel } from "../utils/CostModel"
+import { getDecoderCatalogue } from "../utils/DecoderCatalogue"
+import { canvasCode } from "./fixtures"
+
+const INPUT = canvasCode(["red", "green", "blue"], "// é\n").repeat(2)
+
+test("the worker sizes its solutions with the decoder and the cost target of the Replacer", async (t) => {
+  t.mock.method(console, "log", () => {})
+  const messages: any[] = []
+  // The worker registers its handler on self
+  const worker: { postMessage: (message: unknown) => void; onmessage?: (event: unknown) => void } = {
+    postMessage: (message) => messages.push(message),
+  }
+  Object.assign(globalThis, { self: worker })
+  await import("../workers/branch-search.worker")
+  const options = { maxStates: 200, beamWidth: 2, useES6: false, strictDecoder: true, costTarget: "utf8" as const }
+  worker.onmessage!({ data: { type: "init", input: INPUT, options } })
+
+  const result = messages.find((message) => message.type === "result")
+  assert.ok(result, JSON.stringify(messages.filter((message) => message.type === "error")))
+  assert.ok(result.replacements.length > 0)
+  const decoder = getDecoderCatalogue().emit(
+    "digits",
+    result.replacements.length,
+    { payload: result.text, patterns: result.replacements },
+    options,
+  )
+  assert.ok(!decoder.template.es6 && decoder.template.strict)
+  assert.equal(result.size, getCostModel("utf8").measure(decoder.code))
+})
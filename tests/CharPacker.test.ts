@@ -0,0 +1,36 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getCharPacker } from "../models/CharPacker"
+
+// Fewer than 32 distinct characters, the most the charset of 4-1 holds
+const INPUT = "for(i=0;i<99;i++)x.fillRect(i,`${i}`,9,9)\nx.fill=`#f00`"
+
+for (const type of ["2-1", "2-1+", "3-1", "4-1"]) {
+  test(`${type} unpacks the emitted program back to its input`, (t) => {
+    t.mock.method(console, "error", () => {})
+    const packer = getCharPacker(type)
+    const { packed } = packer.pack(INPUT)
+    assert.equal(packer.roundTrip(INPUT, packed).mismatch, -1)
+    assert.ok(packer.matchesInput(packer.unpack(packed), INPUT))
+    assert.ok(packer.verify(INPUT, packed).success)
+  })
+}
+
+test("a raw payload unpacks with the mapping of the packer", () => {
+  const twoOnePlus = getCharPacker("2-1+")
+  const packed = twoOnePlus.pack(INPUT)
+  const payload = /`((?:[^`\\]|\\[\s\S])*)`/.exec(packed.packed)![1]
+  assert.ok(twoOnePlus.matchesInput(twoOnePlus.unpack(payload, packed.mapping), INPUT))
+
+  const fourOne = getCharPacker("4-1")
+  const { mapping } = fourOne.pack(INPUT)
+  const raw = /\["([^"]*)"/.exec(fourOne.pack(INPUT).packed)![1]
+  assert.ok(fourOne.matchesInput(fourOne.unpack(raw, mapping), INPUT))
+  assert.throws(() => fourOne.unpack(raw), /charset/)
+})
+
+test("a mismatch is reported at the first differing character", () => {
+  const packer = getCharPacker("2-1")
+  const { packed } = packer.pack("abcdef")
+  assert.equal(packer.roundTrip("abXdef", packed).mismatch, 2)
+})
@@ -0,0 +1,60 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PackerData } from "../models/PackerData"
+import { Preprocessor } from "../models/Preprocessor"
+import { DEFAULT_PACKER_OPTIONS, type PackerOptions } from "../types"
+
+const OPTIONS: PackerOptions = { ...DEFAULT_PACKER_OPTIONS, hash2DContext: true }
+
+const METHODS = ["fillRect", "strokeRect", "beginPath", "arc", "fill"]
+
+function drawing(context: string): string {
+  let code = ""
+  for (let i = 0; i < 6; ++i) {
+    code += `${context}.fillRect(${i},0,9,9);${context}.strokeRect(${i},1,5,5);${context}.beginPath();`
+    code += `${context}.arc(${i},2,3,0,7);${context}.fill();`
+  }
+  return code
+}
+
+/**
+ * Calls made on a stand-in 2D context by a variant, run as the packed program would:
+ * the unpacking loop declarations, then the environment, then the code
+ */
+function run(packerData: PackerData, shim?: string): unknown[][] {
+  const calls: unknown[][] = []
+  const context: Record<string, unknown> = {}
+  for (const method of METHODS) {
+    context[method] = (...args: unknown[]) => calls.push([method, ...args])
+  }
+  const canvas = { getContext: () => context }
+  const program =
+    (packerData.wrappedInit ? packerData.wrappedInit + ";" : "") + packerData.environment + packerData.contents
+  new Function("a", shim || "_", program)(canvas, context)
+  return calls
+}
+
+test("the hashed variant makes the same calls with shorter method names", () => {
+  const code = "c=a.getContext('2d');" + drawing("c")
+  const original = new PackerData("", code)
+  const hashed = new Preprocessor().hashContexts(original, OPTIONS)
+  assert.ok(hashed)
+  assert.ok(hashed.contents.length + hashed.wrappedInit.length + hashed.environment.length < code.length)
+  assert.doesNotMatch(hashed.contents, /fillRect|strokeRect|beginPath/)
+  assert.deepEqual(run(hashed), run(original))
+})
+
+test("a context provided by a shim is hashed before the code runs", () => {
+  const code = drawing("x")
+  const original = new PackerData("", code)
+  const hashed = new Preprocessor().hashContexts(original, { ...OPTIONS, contextVariableName: "x", contextType: "2d" })
+  assert.ok(hashed)
+  assert.match(hashed.environment, /^for\(\w in x\)/)
+  assert.deepEqual(run(hashed, "x"), run(original, "x"))
+})
+
+test("no variant when hashing does not pay for its loop", () => {
+  const code = "c=a.getContext('2d');c.fillRect(0,0,9,9)"
+  assert.equal(new Preprocessor().hashContexts(new PackerData("", code), OPTIONS), null)
+  assert.equal(new Preprocessor().preprocessCode(code, OPTIONS).length, 1)
+})
@@ -0,0 +1,27 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { ContextMixer } from "../models/ContextMixer"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+
+function pack(input: string) {
+  const [packerData] = new ContextMixer().runPacker(input, OPTIONS)
+  const result = packerData.result[0]
+  assert.ok(isSuccessful(result), result.details)
+  return result
+}
+
+test("the decoder evaluates the input, coded on 7 bits", () => {
+  const input = "for(i=0;i<360;i++)x.fillRect(i,99+Math.sin(i/9)*50,2,2);".repeat(30)
+  const result = pack(input)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+  assert.ok(result.length < input.length)
+})
+
+test("the decoder evaluates non-ASCII input, coded as UTF-8", () => {
+  const input = "alert('héllo → wörld ' + 'héllo → wörld')"
+  const result = pack(input)
+  assert.match(result.details, /coded on 8 bits/)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
@@ -0,0 +1,44 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { COST_TARGETS, getCostModel } from "../utils/CostModel"
+
+test("measure counts UTF-8 bytes, UTF-16 code units or code points", () => {
+  const text = "aé€😀"
+  assert.equal(getCostModel().measure(text), 1 + 2 + 3 + 4)
+  assert.equal(getCostModel("utf8").measure(text), Buffer.byteLength(text, "utf8"))
+  assert.equal(getCostModel("utf16").measure(text), 5)
+  assert.equal(getCostModel("codepoints").measure(text), 4)
+  // A lone surrogate is one character, written as U+FFFD in UTF-8
+  assert.equal(getCostModel("utf8").measure("\ud800"), 3)
+  assert.equal(getCostModel("codepoints").measure("\ud800x"), 2)
+})
+
+test("measureChar agrees with measure", () => {
+  for (const target of COST_TARGETS) {
+    for (const char of ["a", "é", "€", "😀"]) {
+      assert.equal(getCostModel(target).measureChar(char.codePointAt(0)!), getCostModel(target).measure(char), target)
+    }
+  }
+})
+
+test("measureEscaped counts the escapes of the string literal", () => {
+  assert.equal(getCostModel().measureEscaped("a\\b"), 4)
+  assert.equal(getCostModel().measureEscaped("it's", "'"), 5)
+  assert.equal(getCostModel().measureEscaped("it's", '"'), 4)
+})
+
+test("engines report their length in the unit of the cost target", () => {
+  const input = "x.fillStyle='é';x.fillRect(0,0,99,99);x.fillStyle='€';x.fillRect(9,9,99,99);".repeat(3)
+  for (const costTarget of COST_TARGETS) {
+    const result = PackerData.getBestResult(
+      getEngineRegistry()
+        .get("regpack")
+        .create()
+        .runPacker(input, { ...OPTIONS, costTarget }),
+    )
+    assert.equal(result.length, getCostModel(costTarget).measure(result.output), costTarget)
+  }
+})
@@ -0,0 +1,142 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { Replacer } from "../models/Replacer"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { type DecoderFormat, type DecoderParts, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+
+const PATTERNS = ["fillRect(", "strokeRect(", "c.", "red", "blue", "green", "64,", "Style=", "'", ";"]
+
+// Packed form of "xAByABz", with the pattern AB and the token #
+const CASES: Array<{ format: DecoderFormat; parts: Partial<DecoderParts> & Pick<DecoderParts, "payload"> }> = [
+  { format: "token-list", parts: { payload: "x#y#z#AB", tokens: "#" } },
+  { format: "regexp", parts: { payload: "AB#x#y#z", tokens: "#" } },
+]
+
+// Runs a decoder, and returns the unpacked code : the expression of a digits decoder, the variable _ otherwise
+const unpack = (format: DecoderFormat, code: string): string =>
+  format === "digits" ? (0, eval)(code) : new Function(code + ";return _")()
+
+for (const useES6 of [true, false]) {
+  test(`the shortest decoder allowed is built, and unpacks the payload${useES6 ? "" : " in ES5"}`, () => {
+    const catalogue = getDecoderCatalogue()
+    const options = { ...OPTIONS, useES6 }
+    for (const { format, parts } of CASES) {
+      const decoder = catalogue.emit(format, 1, parts, options)
+      assert.equal(unpack(format, decoder.code), "xAByABz", decoder.template.id)
+      assert.ok(useES6 || !decoder.template.es6)
+      for (const template of catalogue.getTemplates(format, options)) {
+        const code = template.build({
+          varName: "_",
+          tokens: "",
+          patterns: [],
+          init: "",
+          delimiters: ["'", '"'],
+          ...parts,
+        })
+        assert.equal(unpack(format, code), "xAByABz", template.id)
+        assert.ok(decoder.code.length <= code.length, template.id)
+      }
+    }
+  })
+}
+
+test("a strict decoder, and a decoder of a different cost target, are chosen among their templates", () => {
+  const catalogue = getDecoderCatalogue()
+  const { parts } = CASES[0]
+  const strict = catalogue.emit("token-list", 1, parts, { ...OPTIONS, strictDecoder: true })
+  assert.ok(strict.template.strict)
+  assert.equal(unpack("token-list", strict.code), "xAByABz")
+  // Every template is measured with the cost model of the target
+  const payload = "x#y#z#" + "é".repeat(40)
+  const decoder = catalogue.emit("token-list", 1, { ...parts, payload }, { ...OPTIONS, costTarget: "utf8" })
+  for (const template of catalogue.getTemplates("token-list", OPTIONS)) {
+    const code = template.build({
+      varName: "_",
+      tokens: "",
+      patterns: [],
+      init: "",
+      delimiters: ["`", "'", '"'],
+      ...parts,
+      payload,
+    })
+    assert.ok(getCostModel("utf8").measure(decoder.code) <= getCostModel("utf8").measure(code), template.id)
+  }
+})
+
+test("the declared costs estimate the size of a build, and rank the templates without building them", () => {
+  const catalogue = getDecoderCatalogue()
+  for (const template of catalogue.getTemplates("token-list", OPTIONS)) {
+    const code = template.build({
+      varName: "_",
+      payload: "",
+      tokens: "#%&",
+      patterns: [],
+      init: "",
+      delimiters: ["'"],
+    })
+    assert.equal(catalogue.estimateCost(template, 3), code.length, template.id)
+  }
+  const ranked = catalogue.rankTemplates("digits", 10, { ...OPTIONS, useES6: false })
+  assert.deepEqual(
+    ranked.map((template) => template.id),
+    ["digit-replace-function"],
+  )
+  const costs = catalogue.rankTemplates("token-list", 5, OPTIONS).map((template) => catalogue.estimateCost(template, 5))
+  assert.deepEqual(
+    costs,
+    [...costs].sort((a, b) => a - b),
+  )
+  assert.equal(catalogue.rankTemplates("digits", 11, OPTIONS).length, 0)
+})
+
+test("the replaceAll decoders insert the patterns as written, $ included", () => {
+  const catalogue = getDecoderCatalogue()
+  const [tokenList] = catalogue
+    .getTemplates("token-list", OPTIONS)
+    .filter((template) => template.id === "replaceall-chain")
+  const code = tokenList.build({
+    varName: "_",
+    payload: "x#y#z#$&$'",
+    tokens: "#",
+    patterns: [],
+    init: "",
+    delimiters: ["'", '"'],
+  })
+  assert.equal(unpack("token-list", code), "x$&$'y$&$'z")
+  const [digits] = catalogue
+    .getTemplates("digits", OPTIONS)
+    .filter((template) => template.id === "digit-replaceall-chain")
+  const patterns = ["$$", "$1"]
+  const expression = digits.build({ varName: "_", payload: "0a1", tokens: "", patterns, init: "", delimiters: ["'"] })
+  assert.equal(unpack("digits", expression), "$$a$1")
+})
+
+test("a digits decoder reads adjacent digits as separate tokens, and decodes ten of them at most", () => {
+  const catalogue = getDecoderCatalogue()
+  const payload = "0123456789 98"
+  for (const useES6 of [true, false]) {
+    const decoder = catalogue.emit("digits", 10, { payload, patterns: PATTERNS }, { ...OPTIONS, useES6 })
+    assert.equal(unpack("digits", decoder.code), PATTERNS.join("") + " ;'", decoder.template.id)
+  }
+  const patterns = [...PATTERNS, "more"]
+  assert.equal(catalogue.select("digits", 11, { payload: "10", patterns }, OPTIONS), null)
+  assert.throws(() => catalogue.emit("digits", 11, { payload: "10", patterns }, OPTIONS), /No digits decoder/)
+})
+
+test("the Replacer counts the decoder in its gain, and gives up when the pack is not shorter", (t) => {
+  t.mock.method(console, "error", () => {})
+  const options = { ...OPTIONS, useBranchSearch: false }
+  // 82 bytes, whose replacements gain less than the decoder costs
+  const short = "c.fillStyle='red';c.fillRect(a,b,w,h);c.fillStyle='blue';c.fillRect(b,a,h,w);c.cc;"
+  assert.equal(short.length, 82)
+  const [failed] = new Replacer().runPacker(short, options)
+  assert.equal(failed.result[0].status, "failure")
+  assert.equal(failed.result[0].error.code, "no-gain")
+
+  const long = short.repeat(4)
+  const [packed] = new Replacer().runPacker(long, options)
+  const result = packed.result[0]
+  assert.equal(result.status, "success", result.details)
+  assert.ok(result.details.includes(`Total gain: ${long.length - result.length} bytes`), result.details)
+})
@@ -0,0 +1,69 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { deflateRawSync, inflateRawSync } from "node:zlib"
+import { getDeflater } from "../utils/Deflate"
+import { canvasCode } from "./fixtures"
+
+// Seeded generator, so that the random inputs are repeatable
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed - 1) / 2147483646
+}
+
+const random = seededRandom(13)
+const randomBytes = (length: number) => Uint8Array.from({ length }, () => Math.floor(random() * 256))
+
+const CODE = canvasCode(["red", "green", "blue", "black"])
+
+const INPUTS: Record<string, Uint8Array> = {
+  empty: new Uint8Array(0),
+  "a single byte": Uint8Array.of(65),
+  code: new TextEncoder().encode(CODE),
+  "non-ASCII text": new TextEncoder().encode("Größe, taille, 大小, 🎨 ".repeat(20)),
+  "a run longer than the longest match": new Uint8Array(1000).fill(7),
+  "random bytes": randomBytes(2000),
+  // Matches at the far end of the 32K window, and beyond it
+  "repeats 30K apart": (() => {
+    const block = randomBytes(30000)
+    const data = new Uint8Array(70000)
+    data.set(block, 0)
+    data.set(block, 30000)
+    data.set(randomBytes(10000), 60000)
+    return data
+  })(),
+}
+
+for (const optimize of [false, true]) {
+  test(`the ${optimize ? "optimizing" : "plain"} parse inflates back to its input`, () => {
+    for (const [name, data] of Object.entries(INPUTS)) {
+      if (optimize && data.length > 10000) continue
+      const compressed = getDeflater().deflate(data, optimize)
+      assert.deepEqual(new Uint8Array(inflateRawSync(compressed)), data, name)
+    }
+  })
+}
+
+test("the streams are about as small as zlib's, and the optimizing parse is never larger", () => {
+  for (const name of ["code", "non-ASCII text", "a run longer than the longest match"]) {
+    const data = INPUTS[name]
+    const zlib = deflateRawSync(data, { level: 9 }).length
+    const plain = getDeflater().deflate(data).length
+    const optimized = getDeflater().deflate(data, true).length
+    assert.ok(plain <= zlib + 4, `${name}: ${plain} against ${zlib}`)
+    assert.ok(optimized <= plain, `${name}: ${optimized} against ${plain}`)
+  }
+  // Incompressible data is stored : five bytes of header over the data
+  const random = INPUTS["random bytes"]
+  assert.equal(getDeflater().deflate(random).length, random.length + 5)
+})
+
+test("the zipped size adds the zip headers and the file name twice to the smallest of deflated and stored", () => {
+  const deflater = getDeflater()
+  const data = new TextEncoder().encode(CODE)
+  const overhead = deflater.zipSize(CODE) - deflater.deflate(data).length
+  assert.equal(deflater.zipSize(CODE, false, "a.html") - deflater.deflate(data).length, overhead - 2 * 4)
+  // Text that deflate cannot shrink is stored
+  assert.ok(deflater.deflate(new TextEncoder().encode("xy")).length > 2)
+  assert.equal(deflater.zipSize("xy"), overhead + 2)
+  assert.ok(deflater.zipSize(CODE, true) <= deflater.zipSize(CODE))
+})
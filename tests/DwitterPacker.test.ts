@@ -0,0 +1,102 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { DwitterPacker } from "../models/DwitterPacker"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS, type PackerOptions } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { isSuccessful } from "../utils/PackerStatus"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+
+const OPTIONS: PackerOptions = applyTargetPreset(DEFAULT_PACKER_OPTIONS, getTargetPreset("dwitter"))
+
+const DWEET =
+  "c.width|=0;for(i=0;i<300;i++)x.fillRect(960+S(i+t)*i*2,540+C(i+t)*i,9,9),x.fillStyle=R(i,99,t*9);" +
+  "for(j=0;j<99;j++)x.fillRect(960+C(j*t)*j*5,540+S(j*t)*j*3,j/9,j/9),x.fillStyle=R(j,j,99)"
+
+/**
+ * Defines the dweet as u(t), with Dwitter globals recording the drawing calls, and returns u and the calls
+ */
+function loadDweet(body: string): { u: ((t: number) => void) & { d?: string }; calls: string[] } {
+  const calls: string[] = []
+  const canvas = { width: 1920, height: 1080 }
+  const context = new Proxy(
+    {},
+    {
+      get:
+        (_target, name) =>
+        (...args: unknown[]) =>
+          calls.push(String(name) + "(" + args.join() + ")"),
+      set: (_target, name, value) => calls.push(String(name) + "=" + value) > 0,
+    },
+  )
+  const R = (r: number, g: number, b: number, a = 1) => `rgba(${r | 0},${g | 0},${b | 0},${a})`
+  const u = new Function("c", "x", "S", "C", "T", "R", "return function u(t){" + body + "\n}")(
+    canvas,
+    context,
+    Math.sin,
+    Math.cos,
+    Math.tan,
+    R,
+  )
+  return { u, calls }
+}
+
+test("the dweet as typed comes first, then every character packer decoding on the first frame only", () => {
+  const packerDataList = new DwitterPacker().runPacker(DWEET, OPTIONS)
+  assert.deepEqual(
+    packerDataList.map((packerData) => packerData.name),
+    ["Dwitter", "Dwitter 2-1 Packer", "Dwitter 2-1+ Packer", "Dwitter 3-1 Packer", "Dwitter 4-1 Packer"],
+  )
+  assert.equal(packerDataList[0].result[0].output, DWEET)
+  const packed = packerDataList
+    .slice(1)
+    .map((packerData) => packerData.result[0])
+    .filter(isSuccessful)
+  assert.ok(packed.length > 0)
+  for (const result of packed) {
+    assert.ok(result.output.includes("u.d"), result.output)
+    assert.ok(result.details.includes("of 140 chars"), result.details)
+  }
+  const best = PackerData.getBestResult(packerDataList)
+  assert.ok(best.length < getCostModel("codepoints").measure(DWEET))
+})
+
+test("every frame of a packed dweet draws what the dweet as typed draws", () => {
+  const original = loadDweet(DWEET)
+  for (const packerData of new DwitterPacker().runPacker(DWEET, OPTIONS).slice(1)) {
+    const result = packerData.result[0]
+    if (!isSuccessful(result)) continue
+    const packed = loadDweet(result.output)
+    for (const t of [0, 0.5, 1]) {
+      original.calls.length = 0
+      packed.calls.length = 0
+      original.u(t)
+      packed.u(t)
+      assert.deepEqual(packed.calls, original.calls, packerData.name + " at t = " + t)
+    }
+    // Decoded once, kept for the next frames
+    assert.equal(typeof packed.u.d, "string")
+  }
+})
+
+test("the results are measured in the unit of the cost target, the details against the dweet limit", () => {
+  const chars = new DwitterPacker().runPacker(DWEET, OPTIONS)
+  const bytes = new DwitterPacker().runPacker(DWEET, { ...OPTIONS, costTarget: "utf8" })
+  for (let i = 0; i < chars.length; ++i) {
+    const result = bytes[i].result[0]
+    if (!isSuccessful(result)) continue
+    assert.equal(result.length, getCostModel("utf8").measure(result.output))
+    assert.equal(chars[i].result[0].length, getCostModel("codepoints").measure(result.output))
+    assert.equal(result.details, chars[i].result[0].details)
+  }
+  // The characters packed two by two take four bytes each
+  assert.ok(bytes[1].result[0].length > chars[1].result[0].length)
+})
+
+test("a decoder overwriting a Dwitter global is rejected", () => {
+  // The 3-1 decoder reads its payload with for(c of ...), losing the canvas of the later frames
+  const packerDataList = new DwitterPacker().runPacker(DWEET, OPTIONS)
+  const result = packerDataList.find((packerData) => packerData.name === "Dwitter 3-1 Packer")!.result[0]
+  assert.equal(result.status, "failure")
+  assert.deepEqual(result.error, { code: "unsafe-decoder", message: "the decoder overwrites c" })
+})
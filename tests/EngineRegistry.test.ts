@@ -0,0 +1,90 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getDeflater } from "../utils/Deflate"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import { INPUT } from "./fixtures"
+
+test("engines are listed in registration order, and grouped in tabs", () => {
+  const registry = getEngineRegistry()
+  const ids = registry.list().map((engine) => engine.id)
+  assert.deepEqual(ids.slice(0, 3), ["regpack", "slowpack", "replacer"])
+  assert.equal(new Set(ids).size, ids.length)
+  assert.ok(registry.has("lz77") && !registry.has("nope"))
+  assert.throws(() => registry.get("nope"), /Unknown engine: nope/)
+
+  const tabs = registry.getTabs()
+  assert.deepEqual(tabs.flatMap((tab) => tab.engines.map((engine) => engine.id)).sort(), [...ids].sort())
+  const characterTab = tabs.find((tab) => tab.title === "Character packers")!
+  assert.deepEqual(
+    characterTab.engines.map((engine) => engine.id),
+    ["2-1", "2-1+", "3-1", "4-1"],
+  )
+  assert.deepEqual(
+    registry.list((engine) => engine.capabilities.searchGraph).map((engine) => engine.id),
+    ["replacer"],
+  )
+})
+
+test("an engine dedicated to a target only packs for it, and is the only one packing for it", () => {
+  const registry = getEngineRegistry()
+  const ids = (target?: string) => registry.listForTarget(target).map((engine) => engine.id)
+  assert.equal(registry.get("dwitter").capabilities.target, "dwitter")
+  assert.deepEqual(ids("dwitter"), ["dwitter"])
+  for (const target of [undefined, "js13k", "js1k"]) {
+    assert.ok(!ids(target).includes("dwitter"))
+    assert.ok(ids(target).includes("regpack"))
+  }
+})
+
+test("an engine is registered once, and runs as soon as it is registered", () => {
+  const registry = getEngineRegistry()
+  const descriptor = {
+    id: "identity",
+    name: "Identity",
+    description: "Returns the input",
+    tab: "Tests",
+    parameters: [],
+    options: [],
+    capabilities: { async: false, searchGraph: false, matchesLookup: false, slow: false, objective: "bytes" as const },
+    create: () => ({
+      runPacker: (input: string) => {
+        const packerData = new PackerData("Identity", input)
+        packerData.result.push({ length: input.length, output: input, details: "", status: "success" })
+        return [packerData]
+      },
+    }),
+  }
+  registry.register(descriptor)
+  assert.throws(() => registry.register(descriptor), /already registered/)
+  assert.equal(registry.getTabs().at(-1)!.title, "Tests")
+  const [packerData] = registry.get("identity").create().runPacker("abc", OPTIONS)
+  assert.equal(packerData.result[0].output, "abc")
+})
+
+test("every fast engine packs the input into a program that evaluates it", (t) => {
+  t.mock.method(console, "error", () => {})
+  for (const engine of getEngineRegistry().listForTarget(undefined, (other) => !other.capabilities.slow)) {
+    if (engine.id === "identity") continue
+    const input = engine.id === "replacer" ? INPUT.replace(/[0-9]/g, "") : INPUT
+    const result = PackerData.getBestResult(engine.create().runPacker(input, { ...OPTIONS, useBranchSearch: false }))
+    assert.ok(isSuccessful(result), engine.id + ": " + result.details)
+    if (engine.capabilities.objective === "bytes") {
+      // The Replacer writes the expression of the unpacked code, not a program
+      const program = engine.id === "replacer" ? "eval(" + result.output + ")" : result.output
+      assert.ok(getExecutionVerifier().verify(program, input).success, engine.id)
+    }
+  }
+})
+
+test("under the zipped objective, the results are measured zipped", () => {
+  const engine = getEngineRegistry().get("regpack")
+  const [packerData] = engine.create().runPacker(INPUT, { ...OPTIONS, objective: "zipped" })
+  for (const result of packerData.result.filter(isSuccessful)) {
+    assert.equal(result.zippedLength, getDeflater().zipSize(result.output))
+    assert.equal(result.length, result.zippedLength)
+  }
+})
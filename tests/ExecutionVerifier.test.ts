@@ -0,0 +1,37 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+
+test("the code handed to eval, Function or setTimeout is captured without running", () => {
+  const verifier = getExecutionVerifier()
+  assert.equal(verifier.run("eval('a'+'b')").executed, "ab")
+  assert.equal(verifier.run("Function('c'+'d')()").executed, "cd")
+  assert.equal(verifier.run("new Function('e')").executed, "e")
+  assert.equal(verifier.run("setTimeout('f',9)").executed, "f")
+  assert.equal(verifier.run("eval('throw 1');throw 2").error, undefined)
+})
+
+test("a decoder is verified against the code it evaluates", () => {
+  const verifier = getExecutionVerifier()
+  const packed = "for(_='0#x.fillRect(#,#,9,9);';g=/[#]/.exec(_);)with(_.split(g))_=join(shift());eval(_)"
+  assert.ok(verifier.verify(packed, "x.fillRect(0,0,9,9);").success)
+  assert.equal(verifier.check(packed, "x.fillRect(1,1,9,9);"), "failed, the evaluated code differs from the input")
+  assert.equal(verifier.check("a=1", "a=1"), "failed, nothing evaluated")
+  assert.match(verifier.check("(", "("), /^failed, SyntaxError/)
+})
+
+test("the globals of the shim read as a stub, and assignments stay local", () => {
+  const verifier = getExecutionVerifier()
+  assert.ok(verifier.verify("c.width=x.getContext('2d').fillStyle;S(t)+C(1);eval(`ok`)", "ok").success)
+  assert.ok(verifier.verify("leaked=1;let kept=2;eval(kept+'')", "2").success)
+  assert.equal((globalThis as { leaked?: number }).leaked, undefined)
+  // The names leading out of the sandbox are stubs too
+  assert.ok(verifier.verify("globalThis.leaked=1;window.leaked=1;eval('ok')", "ok").success)
+  assert.equal((globalThis as { leaked?: number }).leaked, undefined)
+})
+
+test("a program running too long is stopped", () => {
+  const result = getExecutionVerifier().verify("for(;;);eval('never')", "never")
+  assert.equal(result.success, false)
+  assert.match(result.error!, /timed out/)
+})
@@ -0,0 +1,48 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { GrammarPack } from "../models/GrammarPack"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import { canvasCode } from "./fixtures"
+
+// Nested repeats : the statements share the calls, which share the arguments
+const INPUT = canvasCode(["red", "green", "blue"]).repeat(2)
+
+test("both stages decode to the input and are shorter", () => {
+  const [packerData] = new GrammarPack().runPacker(INPUT, OPTIONS)
+  assert.equal(packerData.result.length, 2)
+  for (const result of packerData.result) {
+    assert.ok(isSuccessful(result), result.details)
+    assert.ok(result.length < INPUT.length)
+    assert.ok(getExecutionVerifier().verify(result.output, INPUT).success)
+  }
+})
+
+test("the kept rules are nested patterns for the regexp stage", () => {
+  const [packerData] = new GrammarPack().runPacker(INPUT, OPTIONS)
+  const matches = packerData.matchesLookup!
+  assert.ok(matches.length > 1)
+  // Each pattern expands to a repeated string of the input
+  for (const match of matches) {
+    assert.ok(INPUT.split(match.originalString).length > 2, match.originalString)
+  }
+  // Some rule uses another one, which is a pattern as well
+  assert.ok(matches.some((match) => match.depends !== ""))
+  for (const match of matches) {
+    for (const token of match.depends) {
+      assert.ok(
+        matches.some((other) => other.token === token),
+        "missing rule for " + token,
+      )
+    }
+  }
+})
+
+test("non-ASCII input decodes unchanged", () => {
+  const input = "alert('héllo wörld 😀');".repeat(4)
+  const [packerData] = new GrammarPack().runPacker(input, OPTIONS)
+  const result = packerData.result[0]
+  assert.ok(isSuccessful(result), result.details)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
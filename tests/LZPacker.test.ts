@@ -0,0 +1,56 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { LZPacker } from "../models/LZPacker"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+
+// Every printable ASCII character is used : the dictionary packers have no free token left
+let ascii = ""
+for (let code = 32; code < 127; ++code) ascii += String.fromCharCode(code)
+const INPUT =
+  "/*" +
+  ascii.replace("*/", "") +
+  "*/" +
+  "for(i=0;i<64;i++)c.fillRect(i*8,Math.sin(i/9)*99,8,8),c.strokeRect(i*8,Math.cos(i/9)*99,8,8);".repeat(3)
+
+test("the decoder rebuilds an input without free tokens", () => {
+  const [packerData] = new LZPacker().runPacker(INPUT, OPTIONS)
+  const result = packerData.result[0]
+  assert.ok(isSuccessful(result), result.details)
+  assert.ok(result.length < INPUT.length)
+  assert.ok(getExecutionVerifier().verify(result.output, INPUT).success)
+})
+
+test("the parse covers the input with literal runs and earlier copies", () => {
+  const packer = new LZPacker()
+  const contents = "abcdefabcdefabcdefXabcdef"
+  for (const parameters of [
+    { literalCodes: 16, minLength: 3, offsetWidth: 1 as const },
+    { literalCodes: 8, minLength: 4, offsetWidth: 2 as const },
+  ]) {
+    const steps = packer.parse(contents, "`", parameters)
+    let position = 0
+    for (const step of steps) {
+      if (step.offset > 0) {
+        assert.ok(step.length >= parameters.minLength)
+        // Copies do not overlap their source
+        assert.ok(step.offset >= step.length)
+        assert.equal(contents.substr(position, step.length), contents.substr(position - step.offset, step.length))
+      }
+      position += step.length
+    }
+    assert.equal(position, contents.length)
+    assert.ok(steps.some((step) => step.offset > 0))
+    // The payload holds printable ASCII only
+    assert.match(packer.encode(contents, steps, parameters), /^[\x20-\x7e]*$/)
+  }
+})
+
+test("non-ASCII input decodes unchanged", () => {
+  const input = "alert('héllo → wörld');".repeat(5)
+  const [packerData] = new LZPacker().runPacker(input, OPTIONS)
+  const result = packerData.result[0]
+  assert.ok(isSuccessful(result), result.details)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
@@ -0,0 +1,38 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import { StringHelper } from "../utils/StringHelper"
+import { WORDS, WORD_CODE, asciiComment } from "./fixtures"
+
+// Every ASCII character appears in the comment : no ASCII token is left
+const INPUT = asciiComment() + WORD_CODE.repeat(2) + WORDS.map((word) => word + "Value").join("+")
+
+test("token candidates go beyond ASCII only when characters are counted", () => {
+  const stringHelper = StringHelper.getInstance()
+  const bytes = stringHelper.getTokenCandidates(96, false)
+  assert.ok(bytes.every((token) => token.charCodeAt(0) < 127))
+  assert.ok(!bytes.includes("`") && !bytes.includes("\\") && !bytes.includes("\r"))
+
+  const chars = stringHelper.getTokenCandidates(96, true)
+  assert.deepEqual(chars.slice(0, bytes.length), bytes)
+  assert.ok(chars.length > bytes.length)
+  assert.ok(chars.slice(bytes.length).every((token) => token.charCodeAt(0) >= 0xa1 && token.charCodeAt(0) < 0x1100))
+})
+
+for (const id of ["regpack", "crusher"]) {
+  test(`${id} packs with non-ASCII tokens once the ASCII ones run out, counting characters`, () => {
+    const packer = getEngineRegistry().get(id)
+    const bytes = PackerData.getBestResult(packer.create().runPacker(INPUT, OPTIONS))
+    const chars = PackerData.getBestResult(packer.create().runPacker(INPUT, { ...OPTIONS, costTarget: "codepoints" }))
+    assert.ok(isSuccessful(chars), chars.details)
+    assert.match(chars.output, /[^\x00-\x7f]/)
+    assert.ok(getExecutionVerifier().verify(chars.output, INPUT).success)
+    assert.equal(chars.length, getCostModel("codepoints").measure(chars.output))
+    assert.ok(chars.length < getCostModel("codepoints").measure(bytes.output))
+  })
+}
@@ -0,0 +1,26 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getOccurrenceCounter } from "../utils/OccurrenceCounter"
+
+test("overlapping hits are counted once, the way they get replaced", () => {
+  const counter = getOccurrenceCounter()
+  assert.equal(counter.count("aaaaa", "aaa"), 1)
+  assert.equal(counter.count("aaaaaa", "aa"), 3)
+  assert.equal(counter.count("abcabc", ""), 0)
+  assert.deepEqual(counter.find("aaaaa", "aaa"), { offsets: [0], overlapping: 3 })
+  assert.deepEqual(counter.find("xyxyxyx", "xyx"), { offsets: [0, 4], overlapping: 3 })
+})
+
+test("the count agrees with split, as used by the decoders", () => {
+  const counter = getOccurrenceCounter()
+  const text = "abababa c.fillRect(0,0,1,1);c.fillRect(0,0,1,1);c.fill aaaaaaa"
+  for (const pattern of ["aba", "ab", "c.fill", "c.fillRect(0,0,1,1);", "aaa", "zz"]) {
+    assert.equal(counter.count(text, pattern), text.split(pattern).length - 1, pattern)
+    assert.equal(counter.find(text, pattern).offsets.length, counter.count(text, pattern), pattern)
+  }
+})
+
+test("select keeps the leftmost hits that do not overlap", () => {
+  assert.deepEqual(getOccurrenceCounter().select([0, 1, 2, 3, 5, 9], 3), [0, 3, 9])
+  assert.deepEqual(getOccurrenceCounter().select([], 3), [])
+})
@@ -0,0 +1,69 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PackerData } from "../models/PackerData"
+import { evaluate, summarize } from "../models/PackerEvaluation"
+import { PackerOptimizer } from "../models/PackerOptimizer"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { failedResult } from "../utils/PackerStatus"
+import { INPUT } from "./fixtures"
+
+const variant = (name: string, lengths: number[]) => {
+  const packerData = new PackerData(name, INPUT)
+  packerData.matchesLookup = []
+  for (const length of lengths) {
+    packerData.result.push(
+      Number.isFinite(length)
+        ? { length, output: name + length, details: "", status: "success" }
+        : failedResult("verification-failed", name + " failed"),
+    )
+  }
+  return packerData
+}
+
+test("the smallest successful result is kept, whatever its stage and variant", () => {
+  const evaluation = summarize([variant("first", [90, Number.POSITIVE_INFINITY]), variant("second", [80, 85])], OPTIONS)
+  assert.equal(evaluation.size, 80)
+  assert.equal(evaluation.output, "second80")
+  assert.equal(evaluation.error, undefined)
+})
+
+test("a run fails only when every stage of every variant failed", () => {
+  const evaluation = summarize([variant("first", [Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY])], OPTIONS)
+  assert.equal(evaluation.size, Number.POSITIVE_INFINITY)
+  assert.equal(evaluation.error!.code, "verification-failed")
+  assert.equal(summarize([], OPTIONS).size, Number.POSITIVE_INFINITY)
+})
+
+test("every engine run through an evaluation keeps a verified output", () => {
+  for (const engine of ["regpack", "crusher", "grammarpack"]) {
+    const evaluation = evaluate({ engine, input: INPUT, options: OPTIONS })
+    assert.ok(evaluation.size < INPUT.length, engine)
+    assert.ok(getExecutionVerifier().verify(evaluation.output, INPUT).success, engine)
+  }
+})
+
+test("the Crusher optimizer ends with a finite best size", async () => {
+  const optimizer = new PackerOptimizer("crusher", INPUT)
+  const result = await optimizer.findBestOptions(undefined, { maxEvaluations: 10, maxTime: 60000 })
+  assert.ok(Number.isFinite(result.bestSize))
+  assert.ok(getExecutionVerifier().verify(result.bestOutput, INPUT).success)
+})
+
+test("the sequence holds the replacements of the chosen stage, or its output when it applies none", () => {
+  // No replacement recorded : runs only share a sequence when they share an output
+  const first = summarize([variant("first", [90])], OPTIONS)
+  const second = summarize([variant("second", [90])], OPTIONS)
+  assert.notEqual(first.sequence, second.sequence)
+  assert.equal(summarize([variant("first", [90])], OPTIONS).sequence, first.sequence)
+
+  // Crusher picks its replacements in its second stage, depending on the length factor
+  const evaluations = [0, 1, 2].map((crushLengthFactor) =>
+    evaluate({ engine: "crusher", input: INPUT, options: { ...OPTIONS, crushLengthFactor } }),
+  )
+  for (const a of evaluations) {
+    for (const b of evaluations) {
+      assert.equal(a.sequence === b.sequence, a.output === b.output)
+    }
+  }
+})
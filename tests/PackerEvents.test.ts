@@ -0,0 +1,54 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS, type PackerEvent, type PackerResult } from "../types"
+import { timeStage, verificationEvent } from "../utils/PackerEvents"
+import { INPUT } from "./fixtures"
+
+const ofType = <T extends PackerEvent["type"]>(events: PackerEvent[] | undefined, type: T) =>
+  (events ?? []).filter((event): event is Extract<PackerEvent, { type: T }> => event.type === type)
+
+test("timeStage appends the run time of the stage to the events", () => {
+  const result = timeStage("stage", (): PackerResult => ({ length: 1, output: "x", details: "", status: "success" }))
+  const [timing] = ofType(result.events, "stage-timing")
+  assert.equal(timing.stage, "stage")
+  assert.ok(timing.duration >= 0)
+})
+
+test("verificationEvent records the outcome with its description", () => {
+  assert.deepEqual(verificationEvent({ executed: "a", success: true }), {
+    type: "verification",
+    passed: true,
+    message: "passed",
+  })
+  assert.deepEqual(verificationEvent({ executed: null, success: false }), {
+    type: "verification",
+    passed: false,
+    message: "failed, nothing evaluated",
+  })
+})
+
+for (const id of ["regpack", "crusher", "grammarpack"]) {
+  test(`${id} emits the decisions of its details as typed events`, () => {
+    const [packerData] = getEngineRegistry().get(id).create().runPacker(INPUT, OPTIONS)
+    for (const result of packerData.result as PackerResult[]) {
+      // One timing per stage, and the outcome of the final check when the stage ran one
+      assert.equal(ofType(result.events, "stage-timing").length, 1)
+      const verification = ofType(result.events, "verification").at(-1)
+      assert.equal(verification !== undefined, result.details.includes("Final check"))
+      if (verification) {
+        assert.equal(verification.passed, result.status === "success")
+      }
+      // Every assigned token is replaced in the output
+      for (const event of ofType(result.events, "token-assigned")) {
+        assert.ok(result.output.includes(event.token), event.token)
+        assert.ok(event.copies >= 2)
+      }
+      // The events export as JSON unchanged
+      assert.deepEqual(JSON.parse(JSON.stringify(result.events)), result.events)
+    }
+    const regexpEvents = packerData.result[1].events
+    assert.ok(ofType(regexpEvents, "token-assigned").length > 0)
+    assert.ok(ofType(regexpEvents, "range-chosen").length > 0)
+  })
+}
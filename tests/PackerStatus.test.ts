@@ -0,0 +1,35 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { PackerError, caughtFailure, failedResult, isSuccessful, verifiedResult } from "../utils/PackerStatus"
+
+const CODE = "c.fillStyle='red';c.fillRect(0,0,64,64)"
+
+test("a verified result keeps its output and size", () => {
+  const output = "eval(" + JSON.stringify(CODE) + ")"
+  const result = verifiedResult(
+    { length: output.length, output, details: "" },
+    getExecutionVerifier().verify(output, CODE),
+  )
+  assert.equal(result.status, "success")
+  assert.equal(result.length, output.length)
+  assert.equal(result.output, output)
+  assert.ok(isSuccessful(result))
+})
+
+test("a result failing verification loses its output and size, like any failed result", () => {
+  const output = "eval('c.fillRect(0,0,64,64)')"
+  const verification = getExecutionVerifier().verify(output, CODE)
+  const result = verifiedResult({ length: output.length, output, details: "Final check" }, verification)
+  assert.equal(result.status, "failure")
+  assert.equal(result.error!.code, "verification-failed")
+  assert.equal(result.length, Number.POSITIVE_INFINITY)
+  assert.equal(result.output, "")
+  assert.equal(result.details, "Final check")
+  assert.ok(!isSuccessful(result))
+
+  const failed = failedResult("no-output", "nothing to run")
+  assert.deepEqual([failed.length, failed.output], [result.length, result.output])
+  assert.equal(caughtFailure(new PackerError("no-gain", "too short")).error!.code, "no-gain")
+  assert.equal(caughtFailure(new Error("oops")).error!.code, "exception")
+})
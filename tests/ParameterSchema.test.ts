@@ -0,0 +1,80 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PackerData } from "../models/PackerData"
+import { PackerOptimizer } from "../models/PackerOptimizer"
+import {
+  CRUSH_PARAMETERS,
+  type ParameterSchema,
+  getParameterValues,
+  measureParameterImpact,
+} from "../models/ParameterSchema"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS, type PackerOptions } from "../types"
+
+/**
+ * Engine whose size only depends on its maxInt option, smallest at 7
+ */
+class FakeEngine {
+  public static readonly parameters: ParameterSchema = [
+    { name: "maxInt", label: "Max Replacements", type: "range", min: 1, max: 20, integer: true },
+    { name: "useES6", label: "ES6", type: "boolean" },
+  ]
+
+  public runPacker(input: string, options: PackerOptions): PackerData[] {
+    const packerData = new PackerData("Fake", input)
+    const length = 10 + Math.abs(options.maxInt! - 7)
+    packerData.result.push({ length, output: "x".repeat(length), details: "", status: "success" })
+    return [packerData]
+  }
+}
+
+test("the values of enums and flags are listed, ranges have none", () => {
+  assert.deepEqual(getParameterValues(CRUSH_PARAMETERS[3]), [0, 1, 2])
+  assert.deepEqual(getParameterValues({ name: "useES6", label: "ES6", type: "boolean" }), [true, false])
+  assert.deepEqual(getParameterValues(CRUSH_PARAMETERS[0]), [])
+})
+
+test("the parameters are ranked by the spread of the mean sizes of their values", () => {
+  const samples = [
+    { options: { ...OPTIONS, crushGainFactor: 0.1, crushTiebreakerFactor: 0 }, size: 150 },
+    { options: { ...OPTIONS, crushGainFactor: 0.2, crushTiebreakerFactor: 1 }, size: 146 },
+    { options: { ...OPTIONS, crushGainFactor: 2.9, crushTiebreakerFactor: 0 }, size: 104 },
+    { options: { ...OPTIONS, crushGainFactor: 2.8, crushTiebreakerFactor: 1 }, size: 100 },
+    { options: { ...OPTIONS, crushGainFactor: 1, crushTiebreakerFactor: 2 }, size: Number.POSITIVE_INFINITY },
+  ]
+  const impacts = measureParameterImpact(CRUSH_PARAMETERS, samples)
+  assert.equal(impacts[0].name, "crushGainFactor")
+  assert.equal(impacts[0].spread, 46)
+  assert.equal(impacts[0].bestValue, "2.25 - 3")
+  assert.equal(impacts[1].name, "crushTiebreakerFactor")
+  assert.equal(impacts[1].spread, 4)
+  assert.equal(impacts[1].bestValue, "1")
+  // A parameter taking a single value has no impact
+  assert.equal(impacts.find((impact) => impact.name === "crushLengthFactor")!.spread, 0)
+})
+
+test("integer ranges are described by their first and last values", () => {
+  const schema = FakeEngine.parameters.slice(0, 1)
+  const impacts = measureParameterImpact(schema, [
+    { options: { ...OPTIONS, maxInt: 1 }, size: 20 },
+    { options: { ...OPTIONS, maxInt: 20 }, size: 10 },
+  ])
+  assert.equal(impacts[0].bestValue, "16 - 20")
+})
+
+test("the optimizer searches the parameters declared by any engine", async (t) => {
+  // Seeded generator, so that the search is repeatable
+  let seed = 7
+  t.mock.method(Math, "random", () => {
+    seed = (seed * 16807) % 2147483647
+    return (seed - 1) / 2147483646
+  })
+  const optimizer = new PackerOptimizer(FakeEngine, "input", undefined, { maxInt: 99, costTarget: "codepoints" })
+  const result = await optimizer.findBestOptions(undefined, { maxEvaluations: 60, maxTime: 60000 })
+  assert.equal(result.evaluations, 60)
+  assert.ok(result.bestSize <= 11, `best size ${result.bestSize}`)
+  assert.ok(Math.abs(result.bestOptions.maxInt! - 7) <= 1)
+  // The base options are kept, apart from the searched parameters
+  assert.equal(result.bestOptions.costTarget, "codepoints")
+  assert.equal(result.parameterImpact[0].name, "maxInt")
+  assert.equal(result.fallbackReason, null)
+})
@@ -0,0 +1,77 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getCharPacker } from "../models/CharPacker"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { Pipeline, findBestPipeline, getPipelineObjective } from "../models/Pipeline"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { getDeflater } from "../utils/Deflate"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import { CONTEXT_INPUT } from "./fixtures"
+
+test("each step evaluates the output of the previous one", () => {
+  const result = new Pipeline(["regpack", "2-1"]).run(CONTEXT_INPUT, OPTIONS)
+  assert.equal(result.error, undefined)
+  assert.equal(result.steps.length, 2)
+  const [dictionaryStep, charStep] = result.steps
+  assert.equal(result.output, charStep.output)
+  assert.ok(charStep.chars < dictionaryStep.chars)
+
+  // The character packer may pad its input
+  assert.ok(getCharPacker("2-1").verify(dictionaryStep.output, charStep.output).success)
+  assert.ok(getExecutionVerifier().verify(dictionaryStep.output, CONTEXT_INPUT).success)
+})
+
+test("the dictionary stage starts from the smallest successful result of any stage", () => {
+  for (const id of ["regpack", "crusher"]) {
+    const best = PackerData.getBestResult(getEngineRegistry().get(id).create().runPacker(CONTEXT_INPUT, OPTIONS))
+    assert.ok(isSuccessful(best))
+    const result = new Pipeline([id, "2-1"]).run(CONTEXT_INPUT, OPTIONS)
+    assert.equal(result.error, undefined, id)
+    assert.equal(result.steps[0].output, best.output)
+  }
+})
+
+test("findBestPipeline returns the chain with the fewest characters", () => {
+  const { best, results } = findBestPipeline(CONTEXT_INPUT, OPTIONS, "chars", ["regpack", "crusher"], ["2-1", "3-1"])
+  assert.equal(results.length, 4)
+  assert.ok(best)
+  for (const result of results) {
+    assert.equal(result.error, undefined, result.name)
+    assert.ok(best.chars <= result.chars)
+  }
+})
+
+test("a failing stage stops the pipeline and keeps the steps done", () => {
+  const failing = {
+    id: "fail",
+    name: "Failing",
+    run: () => {
+      throw new Error("no luck")
+    },
+  }
+  const result = new Pipeline(["regpack", failing]).run(CONTEXT_INPUT, OPTIONS)
+  assert.equal(result.error, "no luck")
+  assert.equal(result.steps.length, 1)
+  assert.equal(result.bytes, Number.POSITIVE_INFINITY)
+})
+
+test("the chains are ranked in the unit of the cost target, or zipped", () => {
+  assert.equal(getPipelineObjective(OPTIONS), "bytes")
+  assert.equal(getPipelineObjective({ ...OPTIONS, costTarget: "codepoints" }), "chars")
+  assert.equal(getPipelineObjective({ ...OPTIONS, costTarget: "utf16" }), "units")
+  assert.equal(getPipelineObjective({ ...OPTIONS, costTarget: "codepoints", objective: "zipped" }), "zipped")
+
+  for (const objective of ["bytes", "zipped"] as const) {
+    const { best, results } = findBestPipeline(CONTEXT_INPUT, OPTIONS, objective, ["regpack"], ["2-1", "3-1"])
+    assert.ok(best)
+    for (const result of results) {
+      assert.ok(best[objective] <= result[objective], objective + ": " + result.name)
+    }
+  }
+  const [result] = findBestPipeline(CONTEXT_INPUT, OPTIONS, "units", ["regpack"], ["2-1"]).results
+  assert.equal(result.units, getCostModel("utf16").measure(result.output))
+  assert.equal(result.zipped, getDeflater().zipSize(result.output))
+})
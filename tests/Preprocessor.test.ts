@@ -0,0 +1,46 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PackerData } from "../models/PackerData"
+import { Preprocessor } from "../models/Preprocessor"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+
+const CODE = "for(q=0,z=0;q<9;q++)z+=q*2;out(z,a)"
+
+/**
+ * Values the code hands to out(), with a given as a global
+ */
+function run(code: string): unknown[] {
+  const calls: unknown[] = []
+  new Function("a", "out", code)(7, (...values: unknown[]) => calls.push(values))
+  return calls
+}
+
+test("renamed variants behave as the original code and use fewer distinct characters", () => {
+  const variants = new Preprocessor().reassignVariableNames(new PackerData("", CODE), {
+    ...OPTIONS,
+    varsNotReassigned: ["a"],
+  })
+  assert.ok(variants.length > 0)
+  for (const variant of variants) {
+    assert.deepEqual(run(variant.contents), run(CODE))
+    assert.ok(new Set(variant.contents).size < new Set(CODE).size)
+    assert.match(variant.contents, /out\([a-zA-Z],a\)$/)
+  }
+})
+
+test("preprocessCode keeps the untouched input first and adds the renamed variants", () => {
+  const inputList = new Preprocessor().preprocessCode(CODE, { ...OPTIONS, reassignVars: true })
+  assert.equal(inputList[0].contents, CODE)
+  assert.ok(inputList.length > 1)
+  assert.equal(new Set(inputList.map((packerData) => packerData.contents)).size, inputList.length)
+
+  assert.equal(new Preprocessor().preprocessCode(CODE, OPTIONS).length, 1)
+})
+
+test("no variant when every variable must be kept", () => {
+  const variants = new Preprocessor().reassignVariableNames(new PackerData("", CODE), {
+    ...OPTIONS,
+    varsNotReassigned: ["a", "q", "z"],
+  })
+  assert.deepEqual(variants, [])
+})
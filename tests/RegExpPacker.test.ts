@@ -0,0 +1,47 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { RegPack } from "../models/RegPack"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS, type PackerOptions } from "../types"
+import { getCostModel } from "../utils/CostModel"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import { WORD_CODE, asciiComment } from "./fixtures"
+
+/**
+ * Result of the regexp stage of RegPack, which runs the RegExpPacker on the first stage matches
+ */
+function packToRegexp(input: string, options: PackerOptions = OPTIONS) {
+  const [packerData] = new RegPack().runPacker(input, options)
+  return packerData.result[1]
+}
+
+test("the character class holds ASCII tokens while some are left", () => {
+  const input = WORD_CODE.repeat(2)
+  const result = packToRegexp(input)
+  assert.ok(isSuccessful(result), result.details)
+  assert.doesNotMatch(result.output, /[^\x00-\x7f]/)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
+
+test("non-ASCII tokens take over once the ASCII ones run out", () => {
+  // Every ASCII character but the comment delimiters appears in the input
+  const input = asciiComment() + WORD_CODE.repeat(3)
+
+  for (const costTarget of ["codepoints", "utf16"] as const) {
+    const result = packToRegexp(input, { ...OPTIONS, costTarget })
+    assert.ok(isSuccessful(result), result.details)
+    assert.match(result.details, /Out of ASCII tokens, switching to Unicode/)
+    assert.ok(getExecutionVerifier().verify(result.output, input).success, costTarget)
+    assert.equal(result.length, getCostModel(costTarget).measure(result.output))
+    assert.ok(result.length < getCostModel(costTarget).measure(input))
+  }
+})
+
+test("a dash left free stays first in the character class, before the non-ASCII tokens", () => {
+  // Only the dash and the hash are left in ASCII, the other tokens are non-ASCII
+  const input = asciiComment([35, 45]) + WORD_CODE.repeat(3)
+  const result = packToRegexp(input, { ...OPTIONS, costTarget: "codepoints" })
+  assert.ok(isSuccessful(result), result.details)
+  assert.match(result.output, /\/\[-#?[^\x00-\x7f]/)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
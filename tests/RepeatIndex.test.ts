@@ -0,0 +1,82 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { RegPack } from "../models/RegPack"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { getOccurrenceCounter } from "../utils/OccurrenceCounter"
+import { RepeatIndex } from "../utils/RepeatIndex"
+
+// Block of distinct statements, with no repeat longer than a few characters
+const block = (size: number) => {
+  let code = ""
+  for (let i = 0; code.length < size; ++i) code += `v${i.toString(36)}=${(i * 7919) % 1000};`
+  return code.slice(0, size)
+}
+
+test("the maximal repeats are reported, with the shorter strings that fit more times", () => {
+  const repeats = new RepeatIndex("abcXabcYabcZbc").findRepeats()
+  assert.deepEqual(
+    repeats.map(({ string, count }) => [string, count]),
+    [
+      ["bc", 4],
+      ["abc", 3],
+    ],
+  )
+  // "aaa" fits once in "aaaaa", "aa" twice
+  assert.deepEqual(
+    new RepeatIndex("aaaaa").findRepeats().map(({ string, count }) => [string, count]),
+    [["aa", 2]],
+  )
+})
+
+test("every reported count is the number of non-overlapping occurrences", () => {
+  const text = "x.fillRect(0,0,9,9);x.fillRect(1,1,9,9);x.fillStyle=`red`;x.fillStyle=`blue`;aaaaaaa"
+  const repeats = new RepeatIndex(text).findRepeats()
+  assert.ok(repeats.some(({ string }) => string === "x.fillRect("))
+  assert.ok(repeats.some(({ string }) => string === ";x.fillStyle=`"))
+  for (const { string, offset, count } of repeats) {
+    assert.equal(count, getOccurrenceCounter().count(text, string), string)
+    assert.equal(text.indexOf(string), offset, string)
+  }
+})
+
+test("filters apply to the reported strings", () => {
+  const text = "ab1cdab1cdab1cd"
+  const repeats = new RepeatIndex(text).findRepeats({ exclude: /[0-9]/, minLength: 2, minCount: 3 })
+  assert.ok(repeats.length > 0)
+  for (const { string, count } of repeats) {
+    assert.doesNotMatch(string, /[0-9]/)
+    assert.ok(count >= 3)
+  }
+  assert.ok(new RepeatIndex(text).findRepeats({ maxLength: 3 }).every(({ string }) => string.length <= 3))
+})
+
+test("a long block repeated twice is found whole, in near-linear time", () => {
+  const repeated = block(6000)
+  const text = repeated + repeated
+  const start = Date.now()
+  const repeats = new RepeatIndex(text).findRepeats()
+  assert.ok(Date.now() - start < 10000)
+  assert.ok(repeats.length < text.length)
+  assert.deepEqual(repeats[repeats.length - 1], { string: repeated, offset: 0, count: 2 })
+})
+
+test("counts follow a token substitution", () => {
+  const index = new RepeatIndex("fooBARfooBARbazbaz")
+  assert.equal(index.count("foo"), 2)
+  assert.equal(index.count("baz"), 2)
+  const next = index.substitute("fooBAR", "#", "#fooBAR")
+  assert.equal(next.text, "##bazbaz#fooBAR")
+  assert.equal(next.count("baz"), 2)
+  assert.equal(next.count("foo"), 1)
+  assert.equal(next.count("#"), 3)
+})
+
+test("a packer verifies on a long repeated input", () => {
+  const repeated = block(1500)
+  const input = repeated + repeated
+  const [packerData] = new RegPack().runPacker(input, OPTIONS)
+  const result = packerData.result[0]
+  assert.ok(result.length < input.length)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+})
@@ -0,0 +1,59 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { PackerOptimizer } from "../models/PackerOptimizer"
+import { CRUSH_PARAMETERS } from "../models/ParameterSchema"
+import { RegPack } from "../models/RegPack"
+import { type SearchStrategyName, createSearchStrategy } from "../models/SearchStrategy"
+import type { PackerOptions } from "../types"
+
+const STRATEGIES: SearchStrategyName[] = ["random-restarts", "annealing", "population"]
+
+// Smallest at gain 2.5, length 0.5, copies 1 and tiebreaker 2
+const objective = (options: PackerOptions) =>
+  (options.crushGainFactor - 2.5) ** 2 +
+  (options.crushLengthFactor - 0.5) ** 2 +
+  (options.crushCopiesFactor - 1) ** 2 +
+  (options.crushTiebreakerFactor === 2 ? 0 : 1)
+
+// Seeded generator, so that the searches are repeatable
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647
+  return (seed - 1) / 2147483646
+}
+
+for (const name of STRATEGIES) {
+  test(`${name} proposes options within the parameter space, and gets closer to the minimum`, (t) => {
+    t.mock.method(Math, "random", seededRandom(42))
+    const budget = { maxEvaluations: 200, maxTime: 60000 }
+    const search = createSearchStrategy(name, CRUSH_PARAMETERS, budget)
+    assert.equal(search.name, name)
+    let first = Number.POSITIVE_INFINITY
+    let best = Number.POSITIVE_INFINITY
+    for (let i = 0; i < budget.maxEvaluations; ++i) {
+      const options = search.ask()
+      for (const factor of ["crushGainFactor", "crushLengthFactor", "crushCopiesFactor"] as const) {
+        assert.ok(options[factor] >= 0 && options[factor] <= 3, factor)
+      }
+      assert.ok([0, 1, 2].includes(options.crushTiebreakerFactor))
+      const size = objective(options)
+      search.tell(options, size)
+      if (i === 0) first = size
+      best = Math.min(best, size)
+    }
+    assert.ok(best < 0.25, `${name} stopped at ${best}`)
+    assert.ok(best <= first)
+  })
+}
+
+test("the optimizer counts the runs repeating a replacement sequence as duplicates", async () => {
+  const input = "c.fillRect(0,0,9,9);c.fillRect(1,1,9,9);c.fillRect(2,2,9,9);c.fillStyle='red';c.fillStyle='blue';"
+  const optimizer = new PackerOptimizer(RegPack, input)
+  const result = await optimizer.findBestOptions(undefined, { maxEvaluations: 30, maxTime: 60000 })
+  assert.equal(result.evaluations, 30)
+  assert.equal(result.strategy, "annealing")
+  assert.equal(result.allResults.length + result.duplicates, result.evaluations)
+  // The factors only change the order of a few replacements : most runs repeat one
+  assert.ok(result.duplicates > 0)
+  assert.ok(Number.isFinite(result.bestSize))
+  assert.ok(result.allResults.every(({ size }) => size >= result.bestSize))
+})
@@ -0,0 +1,58 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { Replacer } from "../models/Replacer"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { ES5_STRING_DELIMITERS, STRING_DELIMITERS, getStringEmitter } from "../utils/StringEmitter"
+
+const STRINGS = [
+  "plain",
+  'it\'s a "quote"',
+  "`tick` and ${not} a placeholder, $ alone, {braces}",
+  "back\\slash\\",
+  "\\`\\${",
+  "line\nfeed\r\ncarriage\rreturn",
+  "line\u2028separator\u2029paragraph",
+  "",
+]
+
+test("a string written as a literal evaluates to itself, whatever the delimiter", () => {
+  const emitter = getStringEmitter()
+  for (const str of STRINGS) {
+    for (const delimiter of STRING_DELIMITERS) {
+      const literal = emitter.quote(str, delimiter)
+      assert.equal((0, eval)(literal), str, literal)
+      assert.equal(literal.length - str.length - 2, emitter.escapeCost(str, delimiter))
+    }
+    assert.equal((0, eval)(emitter.literal(str)), str)
+  }
+})
+
+test("the delimiter needing the fewest escapes is chosen, among the allowed ones", () => {
+  const emitter = getStringEmitter()
+  assert.equal(emitter.chooseDelimiter("'\"'\""), "`")
+  assert.equal(emitter.chooseDelimiter("'\"'\"", ES5_STRING_DELIMITERS), "'")
+  assert.equal(emitter.chooseDelimiter("''\"``"), '"')
+  // Line feeds are only free in a template literal
+  assert.equal(emitter.chooseDelimiter("\n\n'"), "`")
+  assert.equal(emitter.literal("a`b'c\"d", ES5_STRING_DELIMITERS)[0], "'")
+})
+
+test("a list is joined on a separator absent from its parts", () => {
+  const emitter = getStringEmitter()
+  const parts = ["a|b", "c,d", "e;f", ""]
+  assert.deepEqual((0, eval)(emitter.list(parts)), parts)
+  const separators = "|,; ~^!#%&*+-./:<=>?@_"
+  assert.equal(emitter.chooseSeparator([separators]), "¡")
+})
+
+test("in ES5, the Replacer neither uses a template literal nor ES6 syntax", (t) => {
+  t.mock.method(console, "error", () => {})
+  const input = `alert("it's");`.repeat(12)
+  const [packerData] = new Replacer().runPacker(input, { ...OPTIONS, useES6: false, useBranchSearch: false })
+  assert.notEqual(packerData.packedStringDelimiter, "`")
+  const result = packerData.result[0]
+  assert.equal(result.status, "success", result.details)
+  assert.ok(!/`|=>/.test(result.output), result.output)
+  assert.ok(getExecutionVerifier().verify("eval(" + result.output + ")", input).success)
+})
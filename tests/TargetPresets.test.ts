@@ -0,0 +1,94 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getDeflater } from "../utils/Deflate"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { isSuccessful } from "../utils/PackerStatus"
+import {
+  TARGET_PRESETS,
+  applyTargetPreset,
+  getTargetPreset,
+  measureBudget,
+  parseTargetPreset,
+} from "../utils/TargetPresets"
+import { INPUT } from "./fixtures"
+
+test("the built-in presets are found by id, an unknown one lists the known ids", () => {
+  assert.deepEqual(
+    TARGET_PRESETS.map((preset) => preset.id),
+    ["js1k", "js13k", "dwitter", "tweet", "golf-horse"],
+  )
+  assert.equal(getTargetPreset("js13k").zipped, true)
+  assert.throws(
+    () => getTargetPreset("js2k"),
+    /Unknown target: js2k \(known: js1k, js13k, dwitter, tweet, golf-horse\)/,
+  )
+})
+
+test("a parsed preset gets the defaults, an invalid one is rejected with every invalid field", () => {
+  const preset = parseTargetPreset({ id: "demo-4k", name: "Demo", objective: "utf8", sizeLimit: 4096 })
+  assert.equal(preset.zipped, false)
+  assert.equal(preset.useES6, true)
+  assert.equal(preset.globals, "")
+  assert.equal(preset.environment, "")
+  assert.throws(
+    () => parseTargetPreset({ id: "Demo 4k", name: "Demo", objective: "bytes", sizeLimit: -1, globals: "ab1" }),
+    (error: Error) =>
+      ["id:", "objective:", "sizeLimit:", "globals:"].every((field) => error.message.includes(field)) &&
+      error.message.startsWith("Invalid target preset: "),
+  )
+})
+
+test("applying a preset sets the objective, the decoder constraints and the globals of the shim", () => {
+  const options = applyTargetPreset({ ...OPTIONS, varsNotReassigned: ["a", "z"] }, getTargetPreset("js1k"))
+  assert.equal(options.target, "js1k")
+  assert.equal(options.costTarget, "utf8")
+  assert.equal(options.objective, "raw")
+  assert.deepEqual(options.varsNotReassigned, ["a", "z", "b", "c", "d"])
+  assert.equal(options.contextVariableName, "c")
+  assert.equal(options.contextType, "2d")
+
+  const strict = parseTargetPreset({
+    id: "strict",
+    name: "Strict",
+    objective: "utf16",
+    strictDecoder: true,
+    avoidEval: true,
+    useES6: false,
+  })
+  const strictOptions = applyTargetPreset(OPTIONS, strict)
+  assert.equal(strictOptions.useES6, false)
+  assert.equal(strictOptions.strictDecoder, true)
+  assert.equal(strictOptions.avoidEval, true)
+  assert.equal(strictOptions.contextVariableName, undefined)
+  assert.equal(applyTargetPreset(OPTIONS, getTargetPreset("js13k")).objective, "zipped")
+})
+
+test("the budget is measured in the unit of the target, or zipped", () => {
+  const output = "x.fillRect(0,0,é,9)"
+  assert.deepEqual(measureBudget(output, getTargetPreset("js1k")), {
+    size: 20,
+    limit: 1024,
+    remaining: 1004,
+    unit: "bytes",
+  })
+  assert.equal(measureBudget(output, getTargetPreset("dwitter")).size, 19)
+  assert.equal(measureBudget(output, getTargetPreset("dwitter")).unit, "chars")
+  const zipped = measureBudget(output, getTargetPreset("js13k"))
+  assert.equal(zipped.size, getDeflater().zipSize(output))
+  assert.equal(zipped.unit, "zipped bytes")
+  const unlimited = measureBudget(output, getTargetPreset("golf-horse"))
+  assert.equal(unlimited.limit, Number.POSITIVE_INFINITY)
+  assert.equal(measureBudget("x".repeat(300), getTargetPreset("tweet")).remaining, -20)
+})
+
+test("an entry packed under a preset keeps the globals of its shim, and fits its budget", () => {
+  const options = applyTargetPreset(OPTIONS, getTargetPreset("js1k"))
+  const input = "a.width=99;" + INPUT + "d.title='red';"
+  const result = PackerData.getBestResult(getEngineRegistry().get("regpack").create().runPacker(input, options))
+  assert.ok(isSuccessful(result), result.details)
+  assert.ok(getExecutionVerifier().verify(result.output, input).success)
+  assert.ok(measureBudget(result.output, getTargetPreset("js1k")).remaining > 0)
+})
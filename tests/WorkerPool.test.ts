@@ -0,0 +1,53 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { getEvaluationFallback, runEvaluation } from "../models/PackerEvaluation"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { getExecutionVerifier } from "../utils/ExecutionVerifier"
+import { WorkerPool } from "../utils/WorkerPool"
+import { INPUT } from "./fixtures"
+
+test("without workers the tasks run on the calling thread, and the pool tells why", async () => {
+  const pool = new WorkerPool<number, number>(
+    () => null,
+    (task) => task * 2,
+    2,
+  )
+  assert.deepEqual(await Promise.all([pool.run(1), pool.run(2), pool.run(3)]), [2, 4, 6])
+  assert.equal(typeof pool.fallbackReason, "string")
+
+  const failing = new WorkerPool<number, number>(
+    () => {
+      throw new Error("no worker for you")
+    },
+    (task) => task + 1,
+  )
+  assert.equal(await failing.run(1), 2)
+  assert.equal(failing.fallbackReason, "no worker for you")
+})
+
+test("an aborted task is rejected", async () => {
+  const pool = new WorkerPool<number, number>(
+    () => null,
+    (task) => task,
+    1,
+  )
+  const controller = new AbortController()
+  const running = pool.run(1, controller.signal)
+  controller.abort()
+  await assert.rejects(running, /aborted/)
+  await assert.rejects(pool.run(1, controller.signal), /aborted/)
+})
+
+test("evaluations run on worker threads, whatever the working directory", async () => {
+  const directory = process.cwd()
+  process.chdir("/tmp")
+  try {
+    const evaluation = await runEvaluation({ engine: "regpack", input: INPUT, options: OPTIONS })
+    assert.equal(getEvaluationFallback(), null)
+    assert.equal(evaluation.error, undefined)
+    assert.ok(evaluation.size < INPUT.length)
+    assert.ok(getExecutionVerifier().verify(evaluation.output, INPUT).success)
+  } finally {
+    process.chdir(directory)
+  }
+})
@@ -0,0 +1,38 @@
+/**
+ * Inputs shared by the tests
+ */
+
+/**
+ * Canvas calls repeated for each color, each line followed by the suffix
+ */
+export const canvasCode = (colors: string[], suffix = ""): string =>
+  colors
+    .map((color, i) => `c.fillStyle='${color}';c.fillRect(${i},${i},64,64);c.strokeRect(${i},${i},64,64);${suffix}`)
+    .join("")
+
+// The code most engines are tested on
+export const INPUT = canvasCode(["red", "green", "blue"])
+
+// Longer calls on a context, worth chaining a dictionary packer and a character packer
+export const CONTEXT_INPUT = ["red", "blue", "green", "black"]
+  .map(
+    (color, i) =>
+      `context.fillStyle='${color}';context.fillRect(${i},${i},100,100);context.strokeRect(${i},${i},50,50);`,
+  )
+  .join("")
+
+export const WORDS = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf", "hotel", "india", "juliet"]
+
+// Assignments repeating each word twice
+export const WORD_CODE = WORDS.map((word, i) => `${word}Value=${word}Count*${i};`).join("")
+
+/**
+ * A comment holding every ASCII character but its delimiters and the excluded ones, leaving no other ASCII token
+ */
+export function asciiComment(excluded: number[] = []): string {
+  let ascii = ""
+  for (let code = 1; code < 127; ++code) {
+    if (code !== 42 && code !== 47 && !excluded.includes(code)) ascii += String.fromCharCode(code)
+  }
+  return "/*" + ascii + "*/"
+}
@@ -0,0 +1,109 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { findWinner, main, runEngines } from "../cli/jscg"
+import { getEngineRegistry } from "../models/EngineRegistry"
+import { PackerData } from "../models/PackerData"
+import { DEFAULT_PACKER_OPTIONS as OPTIONS } from "../types"
+import { applyTargetPreset, getTargetPreset } from "../utils/TargetPresets"
+import { CONTEXT_INPUT } from "./fixtures"
+
+test("runEngines runs the selected engines, in engine order", () => {
+  const runs = runEngines(CONTEXT_INPUT, OPTIONS, ["2-1", "regpack"])
+  assert.deepEqual(
+    runs.map((run) => run.id),
+    ["regpack", "2-1"],
+  )
+  for (const run of runs) {
+    assert.equal(run.error, undefined)
+    assert.ok(run.output.length > 0)
+  }
+})
+
+test("under the dwitter preset only the Dwitter engine runs, and it is left out of the other targets", () => {
+  const dweet = "for(i=0;i<300;i++)x.fillRect(960+S(i+t)*i*2,540+C(i+t)*i,9,9),x.fillStyle=R(i,99,t*9)"
+  const runs = runEngines(dweet, applyTargetPreset(OPTIONS, getTargetPreset("dwitter")))
+  assert.deepEqual(
+    runs.map((run) => run.id),
+    ["dwitter"],
+  )
+  assert.ok(findWinner(runs)!.output === dweet || findWinner(runs)!.output.includes("u.d"))
+  for (const options of [OPTIONS, applyTargetPreset(OPTIONS, getTargetPreset("js13k"))]) {
+    const ids = runEngines(CONTEXT_INPUT, options, ["regpack", "dwitter", "2-1+"]).map((run) => run.id)
+    assert.deepEqual(ids, ["regpack", "2-1+"])
+  }
+})
+
+test("findWinner picks the smallest successful run", () => {
+  const run = { name: "", size: 0, chars: 0, zipped: 0, output: "x" }
+  const winner = findWinner([
+    { ...run, id: "a", length: 30 },
+    { ...run, id: "b", length: 10, error: "failed" },
+    { ...run, id: "c", length: 20 },
+  ])
+  assert.equal(winner?.id, "c")
+  assert.equal(findWinner([{ ...run, id: "a", length: 10, error: "failed" }]), null)
+})
+
+test("main writes the winning output to the --output file", (t) => {
+  t.mock.method(console, "error", () => {})
+  const directory = mkdtempSync(join(tmpdir(), "jscg-"))
+  const inputFile = join(directory, "input.js")
+  const outputFile = join(directory, "packed.js")
+  writeFileSync(inputFile, CONTEXT_INPUT)
+
+  assert.equal(main(["pack", inputFile, "-e", "regpack", "-o", outputFile]), 0)
+  const packed = readFileSync(outputFile, "utf8")
+  assert.ok(packed.length < CONTEXT_INPUT.length)
+  assert.equal(packed, runEngines(CONTEXT_INPUT, { ...OPTIONS, beamWidth: 5, maxInt: 10 }, ["regpack"])[0].output)
+})
+
+test("main rejects unknown engines and missing arguments", (t) => {
+  t.mock.method(console, "error", () => {})
+  assert.equal(main(["pack"]), 2)
+  assert.equal(main(["pack", "input.js", "-e", "nope"]), 2)
+  assert.equal(main(["pack", "input.js", "--target", "bits"]), 2)
+  // Engines not packing for the target
+  const inputFile = join(mkdtempSync(join(tmpdir(), "jscg-")), "input.js")
+  writeFileSync(inputFile, CONTEXT_INPUT)
+  const errors = t.mock.method(console, "error", () => {})
+  assert.equal(main(["pack", inputFile, "-e", "dwitter"]), 2)
+  assert.equal(main(["pack", inputFile, "--preset", "dwitter", "-e", "regpack"]), 2)
+  assert.deepEqual(
+    errors.mock.calls.map((call) => call.arguments[0]),
+    ["Engine(s) not packing for this target: dwitter", "Engine(s) not packing for the dwitter target: regpack"],
+  )
+})
+
+test("--chains picks the chain smallest in the unit the target is scored in", (t) => {
+  t.mock.method(console, "error", () => {})
+  const inputFile = join(mkdtempSync(join(tmpdir(), "jscg-")), "input.js")
+  writeFileSync(inputFile, CONTEXT_INPUT)
+  for (const [flags, metric] of [
+    [[], "bytes"],
+    [["--target", "codepoints"], "chars"],
+    [["--objective", "zipped"], "zipped"],
+  ] as const) {
+    const log = t.mock.method(console, "log", () => {})
+    assert.equal(main(["pack", inputFile, "--chains", "--json", "-e", "regpack,2-1,3-1", ...flags]), 0)
+    const { winner, results } = JSON.parse(log.mock.calls[0].arguments[0])
+    log.mock.restore()
+    const best = results.find((result: { name: string }) => result.name === winner)
+    for (const result of results) {
+      assert.ok(best[metric] <= result[metric], metric + ": " + result.name)
+    }
+  }
+})
+
+test("runEngines keeps the smallest successful result of an engine, or the reason it failed", () => {
+  const [run] = runEngines(CONTEXT_INPUT, OPTIONS, ["regpack"])
+  const best = PackerData.getBestResult(getEngineRegistry().get("regpack").create().runPacker(CONTEXT_INPUT, OPTIONS))
+  assert.equal(run.output, best.output)
+  assert.equal(run.length, best.length)
+  // Too short for the Replacer to gain anything
+  const [failed] = runEngines("x=1", OPTIONS, ["replacer"])
+  assert.match(failed.error!, /^[a-z-]+: /)
+  assert.equal(findWinner([failed]), null)
+})
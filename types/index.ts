@@ -1,3 +1,7 @@
+import type { CostTarget } from "../utils/CostModel"
+import type { SizeObjective } from "../utils/Deflate"
+import type { CrusherHeuristic } from "../models/Crusher"
+
 export interface Match {
   token: string
   string: string
@@ -27,9 +31,34 @@ export interface PackerOptions {
   onComplete?: (result: PackerResult) => void // Callback when worker completes
   beamWidth?: number // Added beam width parameter for beam search
   lookAheadDepth?: number // Added look-ahead depth parameter for multi-level gain predictions
-  maxInt?: number // Added maxInt parameter for Replacer token range (1-100)
+  maxInt?: number // Added maxInt parameter for Replacer token range (1-10)
   maxReplacements?: number // Maximum number of replacements to perform
   prioritizeHighestGain?: boolean // Whether to prioritize replacements with highest gain
+  crusherHeuristic?: CrusherHeuristic // Crusher: pattern selection strategy, overrides the one given to the constructor
+  costTarget?: CostTarget // Unit of the size to minimize and report: UTF-8 bytes (default), UTF-16 units or code points
+  objective?: SizeObjective // Size the results are ranked by: raw output in the cost target (default) or zipped (js13k)
+  optimizeZip?: boolean // Zipped objective: measure with the optimizing (advzip-like) deflate parse, slower
+  reassignVars?: boolean // Preprocessor: rename one-letter variables to free up token characters
+  varsNotReassigned?: string[] // Preprocessor: one-letter names that must be kept (globals provided by a shim)
+  hash2DContext?: boolean // Preprocessor: shorten the method calls on CanvasRenderingContext2D objects
+  hashWebGLContext?: boolean // Preprocessor: shorten the method calls on WebGLRenderingContext objects
+  hashAudioContext?: boolean // Preprocessor: shorten the method calls on AudioContext objects
+  contextVariableName?: string // Preprocessor: context provided by a shim, not declared in the code
+  contextType?: "2d" | "webgl" | "audio" // Preprocessor: type of the context provided by a shim
+  strictDecoder?: boolean // Decoders: only emit decoders valid in strict mode (no with, declared variables)
+  avoidEval?: boolean // Decoders: run the unpacked code with Function instead of eval
+  interpreterCall?: string // Decoders: call running the unpacked code held in _, overrides the one avoidEval picks
+  environment?: string // Preprocessor: code run between the decoder and the unpacked code
+  target?: string // Id of the target preset applied to these options (see applyTargetPreset)
+}
+
+// Options the packers run with when nothing else is set
+export const DEFAULT_PACKER_OPTIONS: Readonly<PackerOptions> = {
+  crushGainFactor: 2,
+  crushLengthFactor: 1,
+  crushCopiesFactor: 0,
+  crushTiebreakerFactor: 1,
+  useES6: true,
 }
 
 export interface ProgressInfo {
@@ -40,13 +69,55 @@ export interface ProgressInfo {
 }
 
 export interface PackerResult {
-  length: number
+  length: number // In the cost target unit, or zipped bytes under the zipped objective
   output: string
   details: string
+  status: PackerStatus // Only successful results can be compared by length
+  error?: PackerFailure // Why the result failed
+  events?: PackerEvent[] // The decisions written in details, as typed entries
+  zippedLength?: number // Size of the output in a zip file, in bytes, measured under the zipped objective
   transform?: any[]
   isRunning?: boolean // Indicates if the worker is still running
 }
 
+export type PackerStatus = "success" | "failure"
+
+/**
+ * Reason of a failed result
+ */
+export type PackerErrorCode =
+  | "exception" // The engine threw an unexpected error
+  | "input-contains-digits" // Replacer : the digits are its tokens
+  | "out-of-tokens" // No character left to use as a token
+  | "verification-failed" // The packed program does not evaluate to the input
+  | "no-gain" // The packed program, decoder included, is not shorter than the input
+  | "unsafe-decoder" // The decoder overwrites a global the target provides
+  | "no-output" // The engine produced nothing
+  | "running" // The result is still being computed in a worker
+  | "worker-error" // The worker computing the result failed
+
+export interface PackerFailure {
+  code: PackerErrorCode
+  message: string
+}
+
+/**
+ * Entry of the event log of a result : the same steps as the details, readable without parsing the text
+ */
+export type PackerEvent =
+  // A pattern replaced by a token
+  | { type: "token-assigned"; token: string; string: string; gain: number; copies: number; score?: number }
+  // A pattern worth replacing, left out (no token left, or a better choice made)
+  | { type: "candidate-rejected"; string: string; gain: number; copies: number; score?: number; reason: string }
+  // A pattern one occurrence short of a gain
+  | { type: "near-miss"; string: string; gain: number; gainWithOneMore: number; copies: number; score?: number }
+  // A range of token characters of the regexp character class
+  | { type: "range-chosen"; first: number; last: number; charClass: string; cost: number }
+  // Outcome of running the packed program
+  | { type: "verification"; passed: boolean; message: string }
+  // Run time of a stage of the engine, in milliseconds
+  | { type: "stage-timing"; stage: string; duration: number }
+
 export interface ThermalMapping {
   inLength: number
   outLength: number
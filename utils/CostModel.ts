@@ -0,0 +1,118 @@
+import { getStringEmitter } from "./StringEmitter"
+
+/**
+ * Unit in which the size of the packed code is counted
+ * - utf8: bytes of the UTF-8 encoded file (js1k, js13k)
+ * - utf16: UTF-16 code units, the JavaScript string length
+ * - codepoints: Unicode code points, as counted by Twitter-style character limits
+ */
+export type CostTarget = "utf8" | "utf16" | "codepoints"
+
+export const COST_TARGETS: CostTarget[] = ["utf8", "utf16", "codepoints"]
+
+const COST_TARGET_UNITS: Record<CostTarget, string> = {
+  utf8: "bytes",
+  utf16: "code units",
+  codepoints: "chars",
+}
+
+/**
+ * CostModel - measures strings in the selected target unit.
+ * Shared by all engines, for scoring the replacements as well as for the reported result length.
+ */
+export class CostModel {
+  private static instances: Partial<Record<CostTarget, CostModel>> = {}
+
+  private constructor(public readonly target: CostTarget) {}
+
+  /**
+   * Returns the shared cost model for a target, UTF-8 bytes by default
+   */
+  public static get(target: CostTarget = "utf8"): CostModel {
+    if (!CostModel.instances[target]) {
+      CostModel.instances[target] = new CostModel(target)
+    }
+    return CostModel.instances[target]!
+  }
+
+  /**
+   * Name of the unit, for the logs
+   */
+  public get unit(): string {
+    return COST_TARGET_UNITS[this.target]
+  }
+
+  /**
+   * Tells whether characters are counted rather than bytes, making non-ASCII tokens as cheap as ASCII ones
+   */
+  public get countsCharacters(): boolean {
+    return this.target !== "utf8"
+  }
+
+  /**
+   * Returns the size of a string "as is" (with no further escaping).
+   * A lone surrogate counts as one code point, and as 3 bytes (its U+FFFD replacement) in UTF-8.
+   */
+  public measure(str: string): number {
+    switch (this.target) {
+      case "utf16":
+        return str.length
+      case "codepoints":
+        return this.countCodePoints(str)
+      default: {
+        let size = 0
+        for (let i = 0; i < str.length; ++i) {
+          const code = str.charCodeAt(i)
+          if (code < 0x80) {
+            size += 1
+          } else if (code < 0x800) {
+            size += 2
+          } else if (this.isSurrogatePair(str, i)) {
+            size += 4
+            ++i
+          } else {
+            size += 3
+          }
+        }
+        return size
+      }
+    }
+  }
+
+  /**
+   * Returns the size of a string once inserted in a string literal : backslashes are escaped,
+   * and so are the delimiter and the sequences it forbids when one is given
+   */
+  public measureEscaped(str: string, delimiter = ""): number {
+    return this.measure(getStringEmitter().escape(str, delimiter))
+  }
+
+  /**
+   * Returns the size of a single character given by its code point
+   */
+  public measureChar(codePoint: number): number {
+    if (this.target === "codepoints") return 1
+    if (this.target === "utf16") return codePoint > 0xffff ? 2 : 1
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+  }
+
+  private countCodePoints(str: string): number {
+    let count = 0
+    for (let i = 0; i < str.length; ++i) {
+      if (this.isSurrogatePair(str, i)) ++i
+      ++count
+    }
+    return count
+  }
+
+  private isSurrogatePair(str: string, i: number): boolean {
+    const code = str.charCodeAt(i)
+    const next = str.charCodeAt(i + 1)
+    return code >= 0xd800 && code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff
+  }
+}
+
+/**
+ * Returns the shared cost model for a target, UTF-8 bytes by default
+ */
+export const getCostModel = (target?: CostTarget): CostModel => CostModel.get(target)
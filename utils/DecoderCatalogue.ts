@@ -0,0 +1,451 @@
+import type { PackerOptions } from "../types"
+import { getCostModel } from "./CostModel"
+import { ES5_STRING_DELIMITERS, STRING_DELIMITERS, type StringDelimiter, getStringEmitter } from "./StringEmitter"
+
+/**
+ * Layout of the packed string, that a decoder reads
+ * - token-list : each token is followed by its pattern at the end of the string, the tokens are listed in decoding order
+ * - regexp : each pattern is followed by its token at the start of the string, a char class matches every token
+ * - digits : the tokens are the digits, the patterns are given in a separate list (Replacer)
+ */
+export type DecoderFormat = "token-list" | "regexp" | "digits"
+
+/**
+ * What a decoder is built from
+ */
+export interface DecoderParts {
+  // Variable receiving the unpacked code. A digits decoder is an expression, and sets no variable.
+  varName: string
+  // Packed string, unescaped
+  payload: string
+  // token-list : the tokens, in decoding order. regexp : contents of the char class.
+  tokens: string
+  // digits : the pattern of each digit
+  patterns: string[]
+  // Expression evaluated by the decoder before the code runs (declarations from the preprocessor), may be empty
+  init: string
+  // Delimiters allowed for the string literals
+  delimiters: StringDelimiter[]
+}
+
+/**
+ * A way of writing the decoder of a format. Every template allowed is built, the shortest one is kept.
+ * The declared costs rank the templates without building them.
+ */
+export interface DecoderTemplate {
+  id: string
+  name: string
+  format: DecoderFormat
+  // Uses ES6 syntax or later : for...of, let, tagged templates, arrow functions or replaceAll
+  es6: boolean
+  // Runs in strict mode : no with, every variable declared
+  strict: boolean
+  // Largest number of tokens the template can decode
+  maxTokens?: number
+  // Size of the decoder around an empty payload, with no token
+  fixedCost: number
+  // Size added by each token, its pattern left out
+  tokenCost: number
+  build: (parts: DecoderParts) => string
+}
+
+/**
+ * Template as written, its costs measured from its build
+ */
+type TemplateDefinition = Omit<DecoderTemplate, "fixedCost" | "tokenCost">
+
+/**
+ * A way of running the unpacked code
+ */
+export interface InterpreterTemplate {
+  id: string
+  name: string
+  usesEval: boolean
+  build: (varName: string) => string
+}
+
+/**
+ * Options restricting the templates
+ */
+export type DecoderOptions = Pick<PackerOptions, "useES6" | "strictDecoder" | "avoidEval" | "costTarget">
+
+/**
+ * Decoder chosen for a packed string
+ */
+export interface Decoder {
+  template: DecoderTemplate
+  code: string
+}
+
+const emitter = getStringEmitter()
+
+// Tagged template argument : split`x` and join`x` read the string as their argument
+const tagged = (str: string) => emitter.quote(str, "`")
+
+/**
+ * Escapes the $ of a replacement string, so that replaceAll inserts it as is
+ */
+const replacement = (pattern: string) => pattern.replace(/\$/g, "$$$$")
+
+/**
+ * Declares the costs of a template, measured on builds with one and two tokens, empty payload and patterns
+ */
+function declareCosts(definition: TemplateDefinition): DecoderTemplate {
+  const measure = (tokens: string) =>
+    definition.build({
+      varName: "_",
+      payload: "",
+      tokens,
+      patterns: Array.from(tokens, () => ""),
+      init: "",
+      delimiters: ["'"],
+    }).length
+  const tokenCost = measure("#%") - measure("#")
+  return { ...definition, fixedCost: measure("#") - tokenCost, tokenCost }
+}
+
+/**
+ * Replays a token-list decoder : returns the code once every pattern is cut off, tokens left in,
+ * and the pattern popped for each token, as the decoder gets it
+ */
+function readTokenList(payload: string, tokens: string): { body: string; patterns: string[] } {
+  let body = payload
+  let decoded = payload
+  const patterns: string[] = []
+  for (const token of tokens) {
+    body = body.slice(0, body.lastIndexOf(token))
+    const pieces = decoded.split(token)
+    const pattern = pieces.pop()!
+    patterns.push(pattern)
+    decoded = pieces.join(pattern)
+  }
+  return { body, patterns }
+}
+
+const TEMPLATE_DEFINITIONS: TemplateDefinition[] = [
+  {
+    id: "with-of",
+    name: "for...of + with",
+    format: "token-list",
+    es6: true,
+    strict: false,
+    build: ({ varName: v, payload, tokens, init, delimiters }) =>
+      v +
+      "=" +
+      emitter.literal(payload, delimiters) +
+      ";for(i of" +
+      emitter.literal(tokens, delimiters) +
+      ")with(" +
+      v +
+      ".split(i))" +
+      v +
+      "=join(pop(" +
+      init +
+      "));",
+  },
+  {
+    id: "with-in",
+    name: "for...in + with",
+    format: "token-list",
+    es6: false,
+    strict: false,
+    build: ({ varName: v, payload, tokens, init, delimiters }) =>
+      v +
+      "=" +
+      emitter.literal(payload, delimiters) +
+      ";for(i in G=" +
+      emitter.literal(tokens, delimiters) +
+      ")with(" +
+      v +
+      ".split(G[i]))" +
+      v +
+      "=join(pop(" +
+      init +
+      "));",
+  },
+  {
+    id: "split-of",
+    name: "for...of + split, strict",
+    format: "token-list",
+    es6: true,
+    strict: true,
+    build: ({ varName: v, payload, tokens, init, delimiters }) =>
+      "let " +
+      v +
+      "=" +
+      emitter.literal(payload, delimiters) +
+      ";for(let i of" +
+      emitter.literal(tokens, delimiters) +
+      ")" +
+      v +
+      "=(" +
+      v +
+      "=" +
+      v +
+      ".split(i)).join(" +
+      v +
+      ".pop(" +
+      init +
+      "));",
+  },
+  {
+    id: "split-join-chain",
+    name: "split/join chain, strict",
+    format: "token-list",
+    es6: true,
+    strict: true,
+    build: ({ varName: v, payload, tokens, init, delimiters }) => {
+      const { body, patterns } = readTokenList(payload, tokens)
+      const chain = Array.from(tokens)
+        .map((token, i) => ".split" + tagged(token) + ".join" + tagged(patterns[i]))
+        .join("")
+      return (init ? init + ";" : "") + "let " + v + "=" + emitter.literal(body, delimiters) + chain + ";"
+    },
+  },
+  {
+    id: "replaceall-chain",
+    name: "replaceAll chain, strict",
+    format: "token-list",
+    es6: true,
+    strict: true,
+    build: ({ varName: v, payload, tokens, init, delimiters }) => {
+      const { body, patterns } = readTokenList(payload, tokens)
+      const chain = Array.from(tokens)
+        .map(
+          (token, i) =>
+            ".replaceAll(" +
+            emitter.literal(token, delimiters) +
+            "," +
+            emitter.literal(replacement(patterns[i]), delimiters) +
+            ")",
+        )
+        .join("")
+      return (init ? init + ";" : "") + "let " + v + "=" + emitter.literal(body, delimiters) + chain + ";"
+    },
+  },
+  {
+    id: "regexp-with",
+    name: "regexp + with",
+    format: "regexp",
+    es6: false,
+    strict: false,
+    build: ({ varName: v, payload, tokens, init, delimiters }) =>
+      "for(" +
+      v +
+      "=" +
+      emitter.literal(payload, delimiters) +
+      ";G=/[" +
+      tokens +
+      "]/.exec(" +
+      v +
+      ");)with(" +
+      v +
+      ".split(G))" +
+      v +
+      "=join(shift(" +
+      init +
+      "));",
+  },
+  {
+    id: "regexp-split",
+    name: "regexp + split, strict",
+    format: "regexp",
+    es6: true,
+    strict: true,
+    build: ({ varName: v, payload, tokens, init, delimiters }) =>
+      "let " +
+      v +
+      "=" +
+      emitter.literal(payload, delimiters) +
+      ";for(let G;G=/[" +
+      tokens +
+      "]/.exec(" +
+      v +
+      ");)" +
+      v +
+      "=(" +
+      v +
+      "=" +
+      v +
+      ".split(G)).join(" +
+      v +
+      ".shift(" +
+      init +
+      "));",
+  },
+  {
+    id: "digit-replace",
+    name: "replace with a pattern list",
+    format: "digits",
+    es6: true,
+    strict: true,
+    // Multi-digit tokens would be read as one token each
+    maxTokens: 10,
+    build: ({ payload, patterns, delimiters }) =>
+      emitter.literal(payload, delimiters) + ".replace(/\\d/g,i=>" + emitter.list(patterns, delimiters) + "[i])",
+  },
+  {
+    id: "digit-replace-function",
+    name: "replace with a function, ES5",
+    format: "digits",
+    es6: false,
+    strict: true,
+    maxTokens: 10,
+    build: ({ payload, patterns, delimiters }) => {
+      const separator = emitter.chooseSeparator(patterns)
+      return (
+        emitter.literal(payload, delimiters) +
+        ".replace(/\\d/g,function(i){return" +
+        emitter.literal(patterns.join(separator), delimiters) +
+        ".split(" +
+        emitter.literal(separator, delimiters) +
+        ")[i]})"
+      )
+    },
+  },
+  {
+    id: "digit-split-join-chain",
+    name: "split/join chain",
+    format: "digits",
+    es6: true,
+    strict: true,
+    // Multi-digit tokens would be split on their first digit
+    maxTokens: 10,
+    build: ({ payload, patterns, delimiters }) =>
+      emitter.literal(payload, delimiters) +
+      patterns.map((pattern, i) => ".split" + tagged(String(i)) + ".join" + tagged(pattern)).join(""),
+  },
+  {
+    id: "digit-replaceall-chain",
+    name: "replaceAll chain",
+    format: "digits",
+    es6: true,
+    strict: true,
+    // Multi-digit tokens would be replaced on their first digit
+    maxTokens: 10,
+    build: ({ payload, patterns, delimiters }) =>
+      emitter.literal(payload, delimiters) +
+      patterns
+        .map((pattern, i) => ".replaceAll(" + i + "," + emitter.literal(replacement(pattern), delimiters) + ")")
+        .join(""),
+  },
+]
+
+export const DECODER_TEMPLATES: DecoderTemplate[] = TEMPLATE_DEFINITIONS.map(declareCosts)
+
+export const INTERPRETER_TEMPLATES: InterpreterTemplate[] = [
+  { id: "eval", name: "eval", usesEval: true, build: (v) => "eval(" + v + ")" },
+  { id: "function", name: "Function", usesEval: false, build: (v) => "Function(" + v + ")()" },
+  { id: "timeout", name: "setTimeout", usesEval: false, build: (v) => "setTimeout(" + v + ")" },
+]
+
+/**
+ * DecoderCatalogue - builds the shortest decoder allowed by the options, for a format and its parts.
+ * Options : useES6 allows the ES6 templates, strictDecoder keeps the templates valid in strict mode,
+ * avoidEval runs the unpacked code with Function (or setTimeout) instead of eval,
+ * costTarget is the measure of the decoders compared.
+ */
+export class DecoderCatalogue {
+  private static instance: DecoderCatalogue
+
+  private constructor() {}
+
+  public static getInstance(): DecoderCatalogue {
+    if (!DecoderCatalogue.instance) {
+      DecoderCatalogue.instance = new DecoderCatalogue()
+    }
+    return DecoderCatalogue.instance
+  }
+
+  /**
+   * Returns the templates of a format allowed by the options
+   */
+  public getTemplates(format: DecoderFormat, options: DecoderOptions): DecoderTemplate[] {
+    return DECODER_TEMPLATES.filter(
+      (template) =>
+        template.format === format && (options.useES6 || !template.es6) && (!options.strictDecoder || template.strict),
+    )
+  }
+
+  /**
+   * Returns the estimated size of a template decoding a number of tokens, its payload left out
+   */
+  public estimateCost(template: DecoderTemplate, tokenCount: number): number {
+    return template.fixedCost + template.tokenCost * tokenCount
+  }
+
+  /**
+   * Returns the templates of a format allowed by the options and able to decode the tokens, from the cheapest
+   * estimate, without building them
+   */
+  public rankTemplates(format: DecoderFormat, tokenCount: number, options: DecoderOptions): DecoderTemplate[] {
+    return this.getTemplates(format, options)
+      .filter((template) => tokenCount <= (template.maxTokens ?? Number.POSITIVE_INFINITY))
+      .sort((a, b) => this.estimateCost(a, tokenCount) - this.estimateCost(b, tokenCount))
+  }
+
+  /**
+   * Builds every template of a format allowed by the options and able to decode the tokens,
+   * and returns the shortest decoder, or null if the options rule them all out
+   * @param format Layout of the payload
+   * @param tokenCount Number of tokens to decode
+   * @param parts Payload, tokens and init, the delimiters default to the ones allowed by the options
+   * @param options Options restricting the templates
+   */
+  public select(
+    format: DecoderFormat,
+    tokenCount: number,
+    parts: Partial<DecoderParts> & Pick<DecoderParts, "payload">,
+    options: DecoderOptions,
+  ): Decoder | null {
+    const costModel = getCostModel(options.costTarget)
+    const fullParts: DecoderParts = {
+      varName: "_",
+      tokens: "",
+      patterns: [],
+      init: "",
+      delimiters: options.useES6 ? STRING_DELIMITERS : ES5_STRING_DELIMITERS,
+      ...parts,
+    }
+    let best: Decoder | null = null
+    let bestCost = Number.POSITIVE_INFINITY
+    for (const template of this.rankTemplates(format, tokenCount, options)) {
+      const code = template.build(fullParts)
+      const cost = costModel.measure(code)
+      if (cost < bestCost) {
+        best = { template, code }
+        bestCost = cost
+      }
+    }
+    return best
+  }
+
+  /**
+   * Builds the shortest decoder for the parts, throws if the options rule out every template
+   */
+  public emit(
+    format: DecoderFormat,
+    tokenCount: number,
+    parts: Partial<DecoderParts> & Pick<DecoderParts, "payload">,
+    options: DecoderOptions,
+  ): Decoder {
+    const decoder = this.select(format, tokenCount, parts, options)
+    if (!decoder) {
+      throw new Error("No " + format + " decoder allowed by the options")
+    }
+    return decoder
+  }
+
+  /**
+   * Returns the call running the unpacked code, the first interpreter allowed by the options
+   */
+  public interpreterCall(varName: string, options: DecoderOptions): string {
+    const interpreter = INTERPRETER_TEMPLATES.find((template) => !options.avoidEval || !template.usesEval)!
+    return interpreter.build(varName)
+  }
+}
+
+/**
+ * Returns the shared decoder catalogue
+ */
+export const getDecoderCatalogue = (): DecoderCatalogue => DecoderCatalogue.getInstance()
@@ -0,0 +1,479 @@
+/**
+ * What the packed entries are ranked by
+ * - raw: the size of the output in the cost target unit
+ * - zipped: the size of the output deflated in a zip file (js13k)
+ */
+export type SizeObjective = "raw" | "zipped"
+
+export const SIZE_OBJECTIVES: SizeObjective[] = ["raw", "zipped"]
+
+// Length and distance codes of RFC 1951 : base value and number of extra bits of each symbol
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+]
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+]
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+]
+// Order in which the lengths of the code length code are written
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const END_OF_BLOCK = 256
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const WINDOW_SIZE = 32768
+const MAX_STORED_BLOCK = 65535
+// A 3-byte match further than this costs more than its literals (zlib's TOO_FAR)
+const TOO_FAR = 4096
+// Previous occurrences examined for each position, by the plain parse and by the optimizing one
+const MAX_CHAIN = 256
+const MAX_CHAIN_OPTIMIZED = 4096
+// Passes of the optimizing parse, each one priced with the Huffman codes of the previous one
+const OPTIMIZING_PASSES = 10
+
+// Zip file holding a single entry : local header, central directory entry and end of central directory
+const ZIP_LOCAL_HEADER = 30
+const ZIP_CENTRAL_HEADER = 46
+const ZIP_END_OF_DIRECTORY = 22
+
+/**
+ * Matches found at a position, as parallel lists of increasing lengths and distances :
+ * the shortest distance reaching a length is the first one whose length is at least as long
+ */
+interface MatchList {
+  lengths: number[]
+  distances: number[]
+}
+
+/**
+ * Parse of the input : a literal (length 1, value the byte) or a copy (length, value the distance) per item
+ */
+interface Parse {
+  lengths: number[]
+  values: number[]
+}
+
+/**
+ * Writes bits least significant first, as deflate does
+ */
+class BitWriter {
+  public bytes: number[] = []
+  private buffer = 0
+  private count = 0
+
+  public write(value: number, bits: number): void {
+    this.buffer |= value << this.count
+    this.count += bits
+    while (this.count >= 8) {
+      this.bytes.push(this.buffer & 0xff)
+      this.buffer >>>= 8
+      this.count -= 8
+    }
+  }
+
+  public finish(): Uint8Array {
+    if (this.count > 0) this.bytes.push(this.buffer & 0xff)
+    this.buffer = 0
+    this.count = 0
+    return Uint8Array.from(this.bytes)
+  }
+}
+
+// Symbol index (0-28) of each match length, and of the distances up to 256 and of the larger ones divided by 128
+const LENGTH_SYMBOL = new Uint8Array(MAX_MATCH + 1)
+for (let symbol = 0; symbol < LENGTH_BASE.length; ++symbol) {
+  for (let length = LENGTH_BASE[symbol]; length < LENGTH_BASE[symbol] + (1 << LENGTH_EXTRA[symbol]); ++length) {
+    if (length <= MAX_MATCH) LENGTH_SYMBOL[length] = symbol
+  }
+}
+LENGTH_SYMBOL[MAX_MATCH] = LENGTH_BASE.length - 1
+
+function distanceSymbol(distance: number): number {
+  let symbol = 0
+  while (symbol + 1 < DISTANCE_BASE.length && DISTANCE_BASE[symbol + 1] <= distance) ++symbol
+  return symbol
+}
+
+/**
+ * Huffman code lengths for the frequencies, none longer than maxBits.
+ * Too long codes are avoided by halving the frequencies and building again.
+ * A code is always complete : a lone symbol gets a companion, as inflaters reject incomplete codes.
+ */
+function buildCodeLengths(frequencies: number[], maxBits: number): number[] {
+  const lengths = new Array<number>(frequencies.length).fill(0)
+  const symbols = frequencies.map((_, symbol) => symbol).filter((symbol) => frequencies[symbol] > 0)
+  if (symbols.length < 2) {
+    const first = symbols[0] ?? 0
+    lengths[first] = 1
+    lengths[first === 0 ? 1 : 0] = 1
+    return lengths
+  }
+
+  let weights = frequencies.slice()
+  for (;;) {
+    symbols.sort((a, b) => weights[a] - weights[b] || a - b)
+    // Two-queue construction : the leaves in order of weight, then the merged nodes, created in order of weight
+    const leafCount = symbols.length
+    const weight = symbols.map((symbol) => weights[symbol])
+    const parent = new Array<number>(2 * leafCount - 1).fill(0)
+    let leaf = 0
+    let node = leafCount
+    const pick = (): number => {
+      if (leaf < leafCount && (node >= weight.length || weight[leaf] <= weight[node])) return leaf++
+      return node++
+    }
+    while (weight.length < 2 * leafCount - 1) {
+      const a = pick()
+      const b = pick()
+      parent[a] = parent[b] = weight.length
+      weight.push(weight[a] + weight[b])
+    }
+    // Parents come after their children : depths are computed from the root down
+    const depth = new Array<number>(weight.length).fill(0)
+    for (let i = weight.length - 2; i >= 0; --i) depth[i] = depth[parent[i]] + 1
+    if (Math.max(...depth) <= maxBits) {
+      symbols.forEach((symbol, i) => (lengths[symbol] = depth[i]))
+      return lengths
+    }
+    weights = weights.map((w) => (w > 0 ? (w + 1) >> 1 : 0))
+  }
+}
+
+/**
+ * Canonical Huffman codes for the code lengths, bit-reversed for the least significant first writer
+ */
+function buildCodes(lengths: number[]): number[] {
+  const maxBits = Math.max(...lengths)
+  const count = new Array<number>(maxBits + 1).fill(0)
+  for (const length of lengths) if (length) count[length]++
+  const next = new Array<number>(maxBits + 2).fill(0)
+  for (let bits = 1, code = 0; bits <= maxBits; ++bits) {
+    code = (code + count[bits - 1]) << 1
+    next[bits] = code
+  }
+  return lengths.map((length) => {
+    if (!length) return 0
+    let code = next[length]++
+    let reversed = 0
+    for (let i = 0; i < length; ++i) {
+      reversed = (reversed << 1) | (code & 1)
+      code >>= 1
+    }
+    return reversed
+  })
+}
+
+/**
+ * Deflater - raw DEFLATE encoder (RFC 1951), measuring what a packed entry weighs once zipped.
+ * The input is written as a single block, dynamic, fixed or stored, whichever is the smallest.
+ * The plain parse is zlib's lazy matching. The optimizing one, in the spirit of advzip and zopfli, finds the
+ * cheapest parse for the Huffman codes of the previous pass, a few passes over.
+ */
+export class Deflater {
+  private static instance: Deflater
+  // Zipped sizes already measured, by optimization then text
+  private cache = new Map<string, number>()
+
+  private constructor() {}
+
+  public static getInstance(): Deflater {
+    if (!Deflater.instance) {
+      Deflater.instance = new Deflater()
+    }
+    return Deflater.instance
+  }
+
+  /**
+   * Compresses bytes to a raw deflate stream
+   * @param data Bytes to compress
+   * @param optimize Runs the optimizing parse, slower and a few percent smaller
+   */
+  public deflate(data: Uint8Array, optimize = false): Uint8Array {
+    const matches = this.findMatches(data, optimize ? MAX_CHAIN_OPTIMIZED : MAX_CHAIN)
+    let best = this.writeBlock(data, this.lazyParse(data, matches))
+    if (optimize) {
+      let parse = this.lazyParse(data, matches)
+      for (let pass = 0; pass < OPTIMIZING_PASSES; ++pass) {
+        parse = this.optimalParse(data, matches, parse)
+        const output = this.writeBlock(data, parse)
+        if (output.length < best.length) best = output
+      }
+    }
+    return best
+  }
+
+  /**
+   * Size of a zip file holding the text, UTF-8 encoded, as a single entry. The entry is stored when deflate does not help.
+   * @param text Contents of the entry
+   * @param optimize Runs the optimizing parse
+   * @param fileName Name of the entry
+   */
+  public zipSize(text: string, optimize = false, fileName = "index.html"): number {
+    const key = (optimize ? "1" : "0") + fileName + "\0" + text
+    let size = this.cache.get(key)
+    if (size === undefined) {
+      const data = new TextEncoder().encode(text)
+      const name = new TextEncoder().encode(fileName).length
+      const compressed = Math.min(data.length, this.deflate(data, optimize).length)
+      size = ZIP_LOCAL_HEADER + ZIP_CENTRAL_HEADER + 2 * name + ZIP_END_OF_DIRECTORY + compressed
+      if (this.cache.size > 1000) this.cache.clear()
+      this.cache.set(key, size)
+    }
+    return size
+  }
+
+  /**
+   * Matches at every position, through hash chains on 3 bytes, within the 32K window
+   */
+  private findMatches(data: Uint8Array, maxChain: number): MatchList[] {
+    const matches: MatchList[] = []
+    const head = new Map<number, number>()
+    const previous = new Int32Array(data.length).fill(-1)
+    for (let i = 0; i < data.length; ++i) {
+      const list: MatchList = { lengths: [], distances: [] }
+      matches.push(list)
+      if (i + MIN_MATCH > data.length) continue
+      const hash = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2]
+      const maxLength = Math.min(MAX_MATCH, data.length - i)
+      let longest = MIN_MATCH - 1
+      let chain = 0
+      for (let candidate = head.get(hash) ?? -1; candidate >= 0 && chain < maxChain; candidate = previous[candidate]) {
+        const distance = i - candidate
+        if (distance > WINDOW_SIZE) break
+        ++chain
+        if (data[candidate + longest] !== data[i + longest]) continue
+        let length = 0
+        while (length < maxLength && data[candidate + length] === data[i + length]) ++length
+        if (length > longest) {
+          list.lengths.push(length)
+          list.distances.push(distance)
+          longest = length
+          if (length === maxLength) break
+        }
+      }
+      previous[i] = head.get(hash) ?? -1
+      head.set(hash, i)
+    }
+    return matches
+  }
+
+  /**
+   * zlib's lazy matching : a match is dropped for a literal when the next position starts a longer one
+   */
+  private lazyParse(data: Uint8Array, matches: MatchList[]): Parse {
+    const parse: Parse = { lengths: [], values: [] }
+    const longest = (i: number): [number, number] => {
+      const list = matches[i]
+      if (!list || list.lengths.length === 0) return [0, 0]
+      const length = list.lengths[list.lengths.length - 1]
+      const distance = list.distances[list.distances.length - 1]
+      return length === MIN_MATCH && distance > TOO_FAR ? [0, 0] : [length, distance]
+    }
+    for (let i = 0; i < data.length;) {
+      const [length, distance] = longest(i)
+      if (length >= MIN_MATCH && longest(i + 1)[0] <= length) {
+        parse.lengths.push(length)
+        parse.values.push(distance)
+        i += length
+      } else {
+        parse.lengths.push(1)
+        parse.values.push(data[i])
+        ++i
+      }
+    }
+    return parse
+  }
+
+  /**
+   * Cheapest parse for the bit costs of the Huffman codes built from a previous parse : shortest path from the end
+   */
+  private optimalParse(data: Uint8Array, matches: MatchList[], previous: Parse): Parse {
+    const { literalLengths, distanceLengths } = this.buildLengths(previous)
+    // Symbols the previous parse never used still get a price, a little over the longest code
+    const price = (lengths: number[], symbol: number) => lengths[symbol] || Math.max(...lengths) + 1
+    const literalCost = Array.from({ length: 256 }, (_, byte) => price(literalLengths, byte))
+    const lengthCost = Array.from({ length: MAX_MATCH + 1 }, (_, length) =>
+      length < MIN_MATCH ? 0 : price(literalLengths, 257 + LENGTH_SYMBOL[length]) + LENGTH_EXTRA[LENGTH_SYMBOL[length]],
+    )
+    const distanceCost = DISTANCE_BASE.map((_, symbol) => price(distanceLengths, symbol) + DISTANCE_EXTRA[symbol])
+
+    const n = data.length
+    const cost = new Float64Array(n + 1)
+    const choiceLength = new Int32Array(n)
+    const choiceDistance = new Int32Array(n)
+    for (let i = n - 1; i >= 0; --i) {
+      let best = literalCost[data[i]] + cost[i + 1]
+      let bestLength = 1
+      let bestDistance = 0
+      const list = matches[i]
+      let shorter = MIN_MATCH - 1
+      for (let k = 0; k < list.lengths.length; ++k) {
+        const distance = list.distances[k]
+        const distancePrice = distanceCost[distanceSymbol(distance)]
+        for (let length = shorter + 1; length <= list.lengths[k]; ++length) {
+          const total = lengthCost[length] + distancePrice + cost[i + length]
+          if (total < best) {
+            best = total
+            bestLength = length
+            bestDistance = distance
+          }
+        }
+        shorter = list.lengths[k]
+      }
+      cost[i] = best
+      choiceLength[i] = bestLength
+      choiceDistance[i] = bestDistance
+    }
+
+    const parse: Parse = { lengths: [], values: [] }
+    for (let i = 0; i < n; i += choiceLength[i]) {
+      parse.lengths.push(choiceLength[i])
+      parse.values.push(choiceLength[i] === 1 ? data[i] : choiceDistance[i])
+    }
+    return parse
+  }
+
+  /**
+   * Huffman code lengths of the literal/length and distance alphabets for a parse
+   */
+  private buildLengths(parse: Parse): { literalLengths: number[]; distanceLengths: number[] } {
+    const literalFrequencies = new Array<number>(286).fill(0)
+    const distanceFrequencies = new Array<number>(30).fill(0)
+    literalFrequencies[END_OF_BLOCK] = 1
+    parse.lengths.forEach((length, i) => {
+      if (length === 1) {
+        literalFrequencies[parse.values[i]]++
+      } else {
+        literalFrequencies[257 + LENGTH_SYMBOL[length]]++
+        distanceFrequencies[distanceSymbol(parse.values[i])]++
+      }
+    })
+    return {
+      literalLengths: buildCodeLengths(literalFrequencies, 15),
+      distanceLengths: buildCodeLengths(distanceFrequencies, 15),
+    }
+  }
+
+  /**
+   * Writes the parse as a final block, with the smallest of the three block types
+   */
+  private writeBlock(data: Uint8Array, parse: Parse): Uint8Array {
+    const { literalLengths, distanceLengths } = this.buildLengths(parse)
+    const dynamic = new BitWriter()
+    dynamic.write(1, 1)
+    dynamic.write(2, 2)
+    this.writeTrees(dynamic, literalLengths, distanceLengths)
+    this.writeSymbols(dynamic, parse, literalLengths, distanceLengths)
+
+    const fixedLiteralLengths = Array.from({ length: 288 }, (_, symbol) =>
+      symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8,
+    )
+    const fixed = new BitWriter()
+    fixed.write(1, 1)
+    fixed.write(1, 2)
+    this.writeSymbols(fixed, parse, fixedLiteralLengths, new Array<number>(30).fill(5))
+
+    const best = [dynamic.finish(), fixed.finish()].reduce((a, b) => (b.length < a.length ? b : a))
+    const storedSize = data.length + 5 * Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK))
+    return storedSize < best.length ? this.writeStored(data) : best
+  }
+
+  /**
+   * Header of a dynamic block : the code lengths of both alphabets, run-length encoded with the code length code
+   */
+  private writeTrees(writer: BitWriter, literalLengths: number[], distanceLengths: number[]): void {
+    let literalCount = 286
+    while (literalCount > 257 && !literalLengths[literalCount - 1]) --literalCount
+    let distanceCount = 30
+    while (distanceCount > 1 && !distanceLengths[distanceCount - 1]) --distanceCount
+    const all = [...literalLengths.slice(0, literalCount), ...distanceLengths.slice(0, distanceCount)]
+
+    // Runs : 16 repeats the previous length 3-6 times, 17 and 18 write 3-10 and 11-138 zeros
+    const symbols: Array<[number, number]> = []
+    for (let i = 0; i < all.length;) {
+      let run = 1
+      while (i + run < all.length && all[i + run] === all[i]) ++run
+      if (all[i] === 0 && run >= 3) {
+        const count = Math.min(run, 138)
+        symbols.push(count >= 11 ? [18, count - 11] : [17, count - 3])
+        i += count
+      } else if (all[i] !== 0 && run >= 4) {
+        symbols.push([all[i], 0])
+        const count = Math.min(run - 1, 6)
+        symbols.push([16, count - 3])
+        i += count + 1
+      } else {
+        symbols.push([all[i], 0])
+        ++i
+      }
+    }
+
+    const codeLengthFrequencies = new Array<number>(19).fill(0)
+    for (const [symbol] of symbols) codeLengthFrequencies[symbol]++
+    const codeLengthLengths = buildCodeLengths(codeLengthFrequencies, 7)
+    const codeLengthCodes = buildCodes(codeLengthLengths)
+    let codeLengthCount = 19
+    while (codeLengthCount > 4 && !codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]]) --codeLengthCount
+
+    writer.write(literalCount - 257, 5)
+    writer.write(distanceCount - 1, 5)
+    writer.write(codeLengthCount - 4, 4)
+    for (let i = 0; i < codeLengthCount; ++i) writer.write(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3)
+    for (const [symbol, extra] of symbols) {
+      writer.write(codeLengthCodes[symbol], codeLengthLengths[symbol])
+      if (symbol === 16) writer.write(extra, 2)
+      if (symbol === 17) writer.write(extra, 3)
+      if (symbol === 18) writer.write(extra, 7)
+    }
+  }
+
+  /**
+   * Literals and copies of the parse, followed by the end of the block
+   */
+  private writeSymbols(writer: BitWriter, parse: Parse, literalLengths: number[], distanceLengths: number[]): void {
+    const literalCodes = buildCodes(literalLengths)
+    const distanceCodes = buildCodes(distanceLengths)
+    parse.lengths.forEach((length, i) => {
+      if (length === 1) {
+        writer.write(literalCodes[parse.values[i]], literalLengths[parse.values[i]])
+        return
+      }
+      const lengthSymbol = LENGTH_SYMBOL[length]
+      writer.write(literalCodes[257 + lengthSymbol], literalLengths[257 + lengthSymbol])
+      writer.write(length - LENGTH_BASE[lengthSymbol], LENGTH_EXTRA[lengthSymbol])
+      const distance = parse.values[i]
+      const symbol = distanceSymbol(distance)
+      writer.write(distanceCodes[symbol], distanceLengths[symbol])
+      writer.write(distance - DISTANCE_BASE[symbol], DISTANCE_EXTRA[symbol])
+    })
+    writer.write(literalCodes[END_OF_BLOCK], literalLengths[END_OF_BLOCK])
+  }
+
+  /**
+   * Stored blocks : the bytes as they are, 65535 at most per block
+   */
+  private writeStored(data: Uint8Array): Uint8Array {
+    const bytes: number[] = []
+    for (let start = 0; start === 0 || start < data.length; start += MAX_STORED_BLOCK) {
+      const length = Math.min(MAX_STORED_BLOCK, data.length - start)
+      bytes.push(
+        start + length >= data.length ? 1 : 0,
+        length & 0xff,
+        length >> 8,
+        ~length & 0xff,
+        (~length >> 8) & 0xff,
+      )
+      for (let i = start; i < start + length; ++i) bytes.push(data[i])
+    }
+    return Uint8Array.from(bytes)
+  }
+}
+
+/**
+ * Returns the shared deflater
+ */
+export const getDeflater = (): Deflater => Deflater.getInstance()
@@ -0,0 +1,213 @@
+/**
+ * Outcome of running a packed program in the sandbox
+ */
+export interface ExecutionResult {
+  // Code handed to eval (or Function, setTimeout), null if the program never got there
+  executed: string | null
+  error?: string
+}
+
+/**
+ * Outcome of comparing the code run by a packed program with the expected one
+ */
+export interface VerificationResult extends ExecutionResult {
+  success: boolean
+}
+
+// Upper bound on the run time of a packed program
+const EXECUTION_TIMEOUT = 5000
+
+// Thrown by the intercepted eval to stop the program once the code has been captured
+const CAPTURED = Symbol("captured")
+
+// Thrown by the built-ins of the browser sandbox once the program has run out of time
+const TIMED_OUT = Symbol("timed out")
+
+// Words that cannot be declared as variables, or that the sandbox provides itself
+const RESERVED_WORDS = new Set(
+  (
+    "break case catch class const continue debugger default delete do else enum export extends false finally for " +
+    "function if import in instanceof let new null return static super switch this throw true try typeof var void " +
+    "while with yield await arguments eval Function setTimeout undefined NaN Infinity"
+  ).split(" "),
+)
+
+// Globals leading out of the browser sandbox, to the page or its document : they read as the stub
+const ESCAPE_NAMES = new Set(
+  "window self top parent frames frameElement opener globalThis document location".split(" "),
+)
+
+/**
+ * Hidden iframe the programs run in on a page, and the time its built-ins stop working at
+ */
+interface Sandbox {
+  realm: Window & typeof globalThis
+  deadline: number
+}
+
+/**
+ * ExecutionVerifier - runs packed programs instead of simulating their decoder.
+ * The program runs inside a function where eval, Function and setTimeout are parameters that only record the code
+ * they are given, and where every other free name is a local variable : assignments do not leak out,
+ * and the globals a shim would provide (canvas, context) read as an inert stub.
+ * Under Node, the program also runs in a separate vm context, with a timeout.
+ * On a page, it runs in the realm of a hidden sandboxed iframe, whose string, array, regexp and math built-ins
+ * throw once the time is up : decoder loops call them at every step, a loop calling none is not interrupted.
+ * In a Web Worker, the program runs in the realm of the worker, away from the page.
+ */
+export class ExecutionVerifier {
+  private static instance: ExecutionVerifier
+  private sandbox?: Sandbox
+
+  private constructor() {}
+
+  public static getInstance(): ExecutionVerifier {
+    if (!ExecutionVerifier.instance) {
+      ExecutionVerifier.instance = new ExecutionVerifier()
+    }
+    return ExecutionVerifier.instance
+  }
+
+  /**
+   * Runs a packed program and returns the code it evaluates
+   */
+  public run(packed: string): ExecutionResult {
+    let executed: string | null = null
+    const capture = (code: unknown): never => {
+      executed = String(code)
+      throw CAPTURED
+    }
+    const capturingFunction = new Proxy(function () {}, {
+      apply: (target, thisArg, args) => capture(args[args.length - 1]),
+      construct: (target, args) => capture(args[args.length - 1]),
+    })
+    const stub = this.createStub()
+
+    try {
+      const vm = typeof process !== "undefined" ? process.getBuiltinModule?.("node:vm") : undefined
+      if (vm) {
+        const context = vm.createContext({ __capture: capture, __function: capturingFunction, __stub: stub })
+        const program = this.wrap(packed, vm.runInContext("this", context))
+        vm.runInContext(program + "(__capture,__function,__capture,__stub)", context, { timeout: EXECUTION_TIMEOUT })
+      } else if (typeof document !== "undefined") {
+        const sandbox = this.getSandbox()
+        const program = sandbox.realm.Function("return " + this.wrap(packed, sandbox.realm))()
+        sandbox.deadline = Date.now() + EXECUTION_TIMEOUT
+        try {
+          program.call(stub, capture, capturingFunction, capture, stub)
+        } finally {
+          sandbox.deadline = Number.POSITIVE_INFINITY
+        }
+      } else {
+        new Function("return " + this.wrap(packed, globalThis))()(capture, capturingFunction, capture, stub)
+      }
+    } catch (error) {
+      if (error === TIMED_OUT) {
+        return { executed, error: "Error: Script execution timed out after " + EXECUTION_TIMEOUT + "ms" }
+      }
+      if (error !== CAPTURED) {
+        // Errors raised in the vm context are not instances of this realm's Error
+        const message = (error as { message?: string })?.message ?? String(error)
+        return { executed, error: ((error as { name?: string })?.name ?? "Error") + ": " + message }
+      }
+    }
+    return { executed }
+  }
+
+  /**
+   * Runs a packed program and compares the code it evaluates with the expected one
+   */
+  public verify(packed: string, expected: string): VerificationResult {
+    const result = this.run(packed)
+    return { ...result, success: result.executed === expected }
+  }
+
+  /**
+   * Runs a packed program and describes the outcome ("passed" or the reason of the failure), for the details of a result
+   */
+  public check(packed: string, expected: string): string {
+    return this.describe(this.verify(packed, expected))
+  }
+
+  /**
+   * Short description of a verification outcome
+   */
+  public describe(result: VerificationResult): string {
+    if (result.success) return "passed"
+    if (result.error) return "failed, " + result.error
+    if (result.executed === null) return "failed, nothing evaluated"
+    return "failed, the evaluated code differs from the input"
+  }
+
+  /**
+   * Wraps the program in a function expression taking eval, Function, setTimeout and the stub,
+   * that declares every name of the program missing from the globals, or leading out of the sandbox,
+   * as a local initialized to the stub.
+   * Names the program declares itself with let or const are left out, declaring them twice is an error.
+   */
+  private wrap(packed: string, globals: object): string {
+    const declared = new Set(Array.from(packed.matchAll(/\b(?:let|const)\s+([A-Za-z_$][\w$]*)/g), (match) => match[1]))
+    const names = new Set<string>()
+    for (const name of packed.match(/[A-Za-z_$][\w$]*/g) || []) {
+      if (!RESERVED_WORDS.has(name) && !declared.has(name) && (!(name in globals) || ESCAPE_NAMES.has(name))) {
+        names.add(name)
+      }
+    }
+    const declarations = names.size > 0 ? "var " + [...names].map((name) => name + "=__stub").join(",") + ";" : ""
+    return "(function(eval,Function,setTimeout,__stub){" + declarations + packed + "\n})"
+  }
+
+  /**
+   * Creates the hidden iframe on first use, and makes the built-ins of its realm check the deadline
+   */
+  private getSandbox(): Sandbox {
+    if (!this.sandbox) {
+      const iframe = document.createElement("iframe")
+      iframe.setAttribute("sandbox", "allow-same-origin allow-scripts")
+      iframe.style.display = "none"
+      document.body.appendChild(iframe)
+      const realm = iframe.contentWindow as Window & typeof globalThis
+      const sandbox: Sandbox = { realm, deadline: Number.POSITIVE_INFINITY }
+      for (const holder of [
+        realm.String.prototype,
+        realm.Array.prototype,
+        realm.RegExp.prototype,
+        realm.String,
+        realm.Math,
+      ]) {
+        for (const key of Object.getOwnPropertyNames(holder)) {
+          const descriptor = Object.getOwnPropertyDescriptor(holder, key)
+          if (key === "constructor" || typeof descriptor?.value !== "function" || !descriptor.writable) continue
+          const method = descriptor.value as (...args: unknown[]) => unknown
+          Object.defineProperty(holder, key, {
+            ...descriptor,
+            value: function (this: unknown, ...args: unknown[]) {
+              if (Date.now() > sandbox.deadline) throw TIMED_OUT
+              return method.apply(this, args)
+            },
+          })
+        }
+      }
+      this.sandbox = sandbox
+    }
+    return this.sandbox
+  }
+
+  /**
+   * Inert value standing for anything the shim provides : every property, call or construction returns the stub
+   */
+  private createStub(): unknown {
+    const stub: unknown = new Proxy(function () {}, {
+      get: (target, key) => (key === Symbol.toPrimitive ? () => 0 : key === Symbol.iterator ? undefined : stub),
+      set: () => true,
+      apply: () => stub,
+      construct: () => stub as object,
+    })
+    return stub
+  }
+}
+
+/**
+ * Returns the shared execution verifier
+ */
+export const getExecutionVerifier = (): ExecutionVerifier => ExecutionVerifier.getInstance()
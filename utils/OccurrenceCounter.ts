@@ -0,0 +1,75 @@
+/**
+ * Occurrences of a pattern that a replacement actually covers
+ */
+export interface Occurrences {
+  // Offsets of the replaced occurrences : the alignment reproduced by split / join in the decoder
+  offsets: number[]
+  // Number of hits when overlapping ones are counted as well, for the logs
+  overlapping: number
+}
+
+/**
+ * OccurrenceCounter - counts the occurrences of a pattern the way they get replaced :
+ * left to right, resuming after the end of each hit, like split and StringHelper.matchAndReplaceAll.
+ * Overlapping hits ("aaa" twice in "aaaaa") cannot all be replaced, counting them inflates the gains.
+ *
+ * For a fixed-length pattern, taking the leftmost hit each time also yields the largest possible
+ * number of non-overlapping occurrences, so the decoder alignment is the best one as well.
+ */
+export class OccurrenceCounter {
+  private static instance: OccurrenceCounter
+
+  private constructor() {}
+
+  public static getInstance(): OccurrenceCounter {
+    if (!OccurrenceCounter.instance) {
+      OccurrenceCounter.instance = new OccurrenceCounter()
+    }
+    return OccurrenceCounter.instance
+  }
+
+  /**
+   * Returns the number of occurrences of the pattern that can be replaced
+   */
+  public count(text: string, pattern: string): number {
+    if (!pattern) return 0
+    let count = 0
+    for (let pos = text.indexOf(pattern); pos !== -1; pos = text.indexOf(pattern, pos + pattern.length)) {
+      ++count
+    }
+    return count
+  }
+
+  /**
+   * Returns the replaced occurrences of the pattern, along with the count of overlapping hits
+   */
+  public find(text: string, pattern: string): Occurrences {
+    const hits: number[] = []
+    if (pattern) {
+      for (let pos = text.indexOf(pattern); pos !== -1; pos = text.indexOf(pattern, pos + 1)) {
+        hits.push(pos)
+      }
+    }
+    return { offsets: this.select(hits, pattern.length), overlapping: hits.length }
+  }
+
+  /**
+   * Keeps, among the sorted offsets of every hit of a pattern, the ones that get replaced
+   */
+  public select(offsets: number[], length: number): number[] {
+    const selected: number[] = []
+    let end = 0
+    for (const offset of offsets) {
+      if (offset >= end) {
+        selected.push(offset)
+        end = offset + length
+      }
+    }
+    return selected
+  }
+}
+
+/**
+ * Returns the shared occurrence counter
+ */
+export const getOccurrenceCounter = (): OccurrenceCounter => OccurrenceCounter.getInstance()
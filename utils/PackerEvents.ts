@@ -0,0 +1,20 @@
+import type { PackerEvent, PackerResult } from "../types"
+import { type VerificationResult, getExecutionVerifier } from "./ExecutionVerifier"
+
+/**
+ * Runs a stage of an engine, and appends its run time to the events of the result
+ */
+export function timeStage(stage: string, run: () => PackerResult): PackerResult {
+  const start = performance.now()
+  const result = run()
+  const duration = Number((performance.now() - start).toFixed(1))
+  result.events = [...(result.events ?? []), { type: "stage-timing", stage, duration }]
+  return result
+}
+
+/**
+ * Event recording the outcome of running a packed program
+ */
+export function verificationEvent(result: VerificationResult): PackerEvent {
+  return { type: "verification", passed: result.success, message: getExecutionVerifier().describe(result) }
+}
@@ -0,0 +1,58 @@
+import type { PackerErrorCode, PackerResult } from "../types"
+import { type VerificationResult, getExecutionVerifier } from "./ExecutionVerifier"
+
+/**
+ * Error thrown by an engine for a known reason, turned into a failed result with its code
+ */
+export class PackerError extends Error {
+  constructor(
+    public readonly code: PackerErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "PackerError"
+  }
+}
+
+/**
+ * Failed result : no output, and a length that can never be mistaken for a size
+ */
+export function failedResult(code: PackerErrorCode, message: string, details = "Error: " + message): PackerResult {
+  return { length: Number.POSITIVE_INFINITY, output: "", details, status: "failure", error: { code, message } }
+}
+
+/**
+ * Failed result for an error caught while running an engine
+ */
+export function caughtFailure(error: unknown): PackerResult {
+  const message = error instanceof Error ? error.message : String(error)
+  return failedResult(error instanceof PackerError ? error.code : "exception", message)
+}
+
+/**
+ * Result whose output went through the execution verifier. A failed verification clears the output
+ * and the length, as in failedResult, so that the status and the size never disagree.
+ */
+export function verifiedResult(
+  result: Omit<PackerResult, "status" | "error">,
+  verification: VerificationResult,
+): PackerResult {
+  if (verification.success) {
+    return { ...result, status: "success" }
+  }
+  return {
+    ...result,
+    length: Number.POSITIVE_INFINITY,
+    output: "",
+    status: "failure",
+    // The reason of the failure, without the leading "failed, "
+    error: { code: "verification-failed", message: getExecutionVerifier().describe(verification).slice(8) },
+  }
+}
+
+/**
+ * Whether a result holds a usable output. Works on plain objects received from a worker too.
+ */
+export function isSuccessful(result: PackerResult | undefined): boolean {
+  return !!result && result.status === "success" && !!result.output
+}
@@ -0,0 +1,282 @@
+import { getOccurrenceCounter } from "./OccurrenceCounter"
+
+/**
+ * Substring found at least twice in the text
+ */
+export interface Repeat {
+  string: string
+  // Offset of the first occurrence
+  offset: number
+  // Non-overlapping occurrences, counted the way they get replaced
+  count: number
+}
+
+/**
+ * Filters applied while enumerating the repeats
+ */
+export interface RepeatOptions {
+  // Shortest repeat to report, 2 by default
+  minLength?: number
+  // Longest repeat to report, unbounded by default
+  maxLength?: number
+  // Minimum number of non-overlapping occurrences, 2 by default
+  minCount?: number
+  // Characters the reported strings may not hold, matched one at a time
+  exclude?: RegExp
+}
+
+/**
+ * RepeatIndex - suffix array and LCP table over a text, for finding the repeated substrings
+ * in near-linear time instead of scanning the text once per candidate.
+ *
+ * The hits of each queried pattern are cached. After a token substitution, the cached hits of the patterns
+ * left untouched by the replaced occurrences are carried over to the index of the new text,
+ * so only the affected patterns are searched again.
+ */
+export class RepeatIndex {
+  private suffixes: Int32Array | null = null
+  private lcp: Int32Array | null = null
+  // Sorted offsets of all the hits, overlapping ones included, of the patterns searched so far
+  private hits = new Map<string, number[]>()
+
+  constructor(public readonly text: string) {}
+
+  /**
+   * Enumerates the maximal repeats : for each class of occurrences that cannot all be extended left,
+   * the longest string, along with the shorter ones that fit more times without overlap.
+   * The lengths in between share the hits of a longer string and fit as many times, they are left out :
+   * they would save fewer characters for the same number of copies.
+   * Sorted by length then by first occurrence (the order in which a scan by increasing length would find them)
+   */
+  public findRepeats(options: RepeatOptions = {}): Repeat[] {
+    const { minLength = 2, maxLength = Number.POSITIVE_INFINITY, minCount = 2, exclude } = options
+    const text = this.text
+    const suffixes = this.getSuffixes()
+    const lcp = this.getLcp()
+    const occurrenceCounter = getOccurrenceCounter()
+    const repeats: Repeat[] = []
+
+    // Offset of the next excluded character, from each offset on
+    const nextExcluded = new Int32Array(text.length + 1)
+    nextExcluded[text.length] = text.length
+    for (let i = text.length - 1; i >= 0; --i) {
+      nextExcluded[i] = exclude?.test(text[i]) ? i : nextExcluded[i + 1]
+    }
+
+    // Each LCP interval [left, right] groups the suffixes sharing a prefix of its depth : the strings longer
+    // than the depth of the enclosing interval, up to its own depth, have these suffixes as their hits
+    const reportInterval = (left: number, right: number, depth: number, parentDepth: number) => {
+      const hits = Array.from(suffixes.subarray(left, right + 1)).sort((a, b) => a - b)
+      const offset = hits[0]
+      // Strings that always follow the same character are part of a longer repeat
+      if (hits.every((hit) => hit > 0 && text[hit - 1] === text[offset - 1])) {
+        return
+      }
+      // Do not split surrogate pairs
+      const beginCode = text.charCodeAt(offset)
+      if (beginCode >= 0xdc00 && beginCode <= 0xdfff) {
+        return
+      }
+      const first = Math.max(parentDepth + 1, minLength)
+      const last = Math.min(depth, maxLength, nextExcluded[offset] - offset)
+      const countAt = (length: number) => occurrenceCounter.select(hits, length).length
+
+      // Longer strings share the same hits, they can only fit fewer times : the count only decreases
+      for (let length = first; length <= last;) {
+        const count = countAt(length)
+        if (count < minCount) break
+        // Longest string fitting as many times
+        let low = length
+        let high = last
+        while (low < high) {
+          const middle = (low + high + 1) >> 1
+          if (countAt(middle) === count) low = middle
+          else high = middle - 1
+        }
+        const endCode = text.charCodeAt(offset + low - 1)
+        const end = endCode >= 0xd800 && endCode <= 0xdbff ? low - 1 : low
+        if (end >= length) {
+          const string = text.substr(offset, end)
+          this.hits.set(string, hits)
+          repeats.push({ string, offset, count })
+        }
+        length = low + 1
+      }
+    }
+
+    // Bottom-up traversal of the LCP intervals
+    const stack: { depth: number; left: number }[] = [{ depth: 0, left: 0 }]
+    for (let i = 1; i <= text.length; ++i) {
+      const depth = i < text.length ? lcp[i] : 0
+      let left = i - 1
+      while (depth < stack[stack.length - 1].depth) {
+        const interval = stack.pop()!
+        reportInterval(interval.left, i - 1, interval.depth, Math.max(depth, stack[stack.length - 1].depth))
+        left = interval.left
+      }
+      if (depth > stack[stack.length - 1].depth) {
+        stack.push({ depth, left })
+      }
+    }
+
+    return repeats.sort((a, b) => a.string.length - b.string.length || a.offset - b.offset)
+  }
+
+  /**
+   * Returns the number of non-overlapping occurrences of a pattern
+   */
+  public count(pattern: string): number {
+    return getOccurrenceCounter().select(this.findHits(pattern), pattern.length).length
+  }
+
+  /**
+   * Returns the index of the text once the non-overlapping occurrences of a pattern are replaced by a token,
+   * optionally followed by a suffix (such as the token and the pattern for the decoder)
+   */
+  public substitute(pattern: string, token: string, suffix = ""): RepeatIndex {
+    const replaced = getOccurrenceCounter().find(this.text, pattern).offsets
+    const body = this.text.split(pattern).join(token)
+    const index = new RepeatIndex(body + suffix)
+    const shift = pattern.length - token.length
+
+    for (const [candidate, hits] of this.hits) {
+      if (token && candidate.includes(token)) continue
+      // Patterns with a hit crossing a replaced occurrence are searched again in the new text
+      const kept: number[] = []
+      let range = 0
+      let affected = false
+      for (const hit of hits) {
+        while (range < replaced.length && replaced[range] + pattern.length <= hit) ++range
+        if (range < replaced.length && replaced[range] < hit + candidate.length) {
+          affected = true
+          break
+        }
+        kept.push(hit - range * shift)
+      }
+      if (affected) continue
+      // The other hits are only moved, apart from the new ones in the suffix or across its start
+      for (
+        let hit = index.text.indexOf(candidate, Math.max(0, body.length - candidate.length + 1));
+        hit !== -1;
+        hit = index.text.indexOf(candidate, hit + 1)
+      ) {
+        kept.push(hit)
+      }
+      index.hits.set(candidate, kept)
+    }
+    return index
+  }
+
+  /**
+   * Returns the sorted offsets of all the hits of a pattern, overlapping ones included
+   */
+  private findHits(pattern: string): number[] {
+    let hits = this.hits.get(pattern)
+    if (!hits) {
+      const suffixes = this.getSuffixes()
+      // Suffixes starting with the pattern form a contiguous range of the suffix array
+      let low = 0
+      let high = suffixes.length
+      while (low < high) {
+        const middle = (low + high) >> 1
+        if (this.compareSuffix(suffixes[middle], pattern) < 0) low = middle + 1
+        else high = middle
+      }
+      let end = low
+      while (end < suffixes.length && this.text.startsWith(pattern, suffixes[end])) ++end
+      hits = Array.from(suffixes.subarray(low, end)).sort((a, b) => a - b)
+      this.hits.set(pattern, hits)
+    }
+    return hits
+  }
+
+  /**
+   * Compares the suffix at an offset, cut to the length of the pattern, with the pattern
+   */
+  private compareSuffix(offset: number, pattern: string): number {
+    for (let i = 0; i < pattern.length; ++i) {
+      if (offset + i >= this.text.length) return -1
+      const difference = this.text.charCodeAt(offset + i) - pattern.charCodeAt(i)
+      if (difference) return difference
+    }
+    return 0
+  }
+
+  /**
+   * Builds the suffix array by prefix doubling, each round being a counting sort on the rank pairs
+   */
+  private getSuffixes(): Int32Array {
+    if (this.suffixes) return this.suffixes
+    const n = this.text.length
+    const suffixes = new Int32Array(n)
+    let rank = new Int32Array(n)
+    let nextRank = new Int32Array(n)
+    const sorted = new Int32Array(n)
+
+    for (let i = 0; i < n; ++i) {
+      suffixes[i] = i
+      rank[i] = this.text.charCodeAt(i)
+    }
+    suffixes.sort((a, b) => rank[a] - rank[b])
+    let classes = 0
+    for (let i = 0; i < n; ++i) {
+      if (i > 0 && rank[suffixes[i]] !== rank[suffixes[i - 1]]) ++classes
+      nextRank[suffixes[i]] = classes
+    }
+    ;[rank, nextRank] = [nextRank, rank]
+
+    const counts = new Int32Array(n + 1)
+    for (let k = 1; classes < n - 1; k *= 2) {
+      // Order by the rank of the second half : suffixes shorter than k come first
+      let position = 0
+      for (let i = Math.max(0, n - k); i < n; ++i) sorted[position++] = i
+      for (let i = 0; i < n; ++i) {
+        if (suffixes[i] >= k) sorted[position++] = suffixes[i] - k
+      }
+      // Stable counting sort on the rank of the first half
+      counts.fill(0)
+      for (let i = 0; i < n; ++i) ++counts[rank[i] + 1]
+      for (let i = 1; i <= n; ++i) counts[i] += counts[i - 1]
+      for (let i = 0; i < n; ++i) suffixes[counts[rank[sorted[i]]]++] = sorted[i]
+
+      classes = 0
+      nextRank[suffixes[0]] = 0
+      for (let i = 1; i < n; ++i) {
+        const a = suffixes[i - 1]
+        const b = suffixes[i]
+        if (rank[a] !== rank[b] || (a + k < n ? rank[a + k] : -1) !== (b + k < n ? rank[b + k] : -1)) ++classes
+        nextRank[b] = classes
+      }
+      ;[rank, nextRank] = [nextRank, rank]
+    }
+
+    this.suffixes = suffixes
+    return suffixes
+  }
+
+  /**
+   * Builds the LCP table with Kasai's algorithm : lcp[i] is the length of the prefix
+   * shared by the suffixes at positions i - 1 and i of the suffix array
+   */
+  private getLcp(): Int32Array {
+    if (this.lcp) return this.lcp
+    const text = this.text
+    const n = text.length
+    const suffixes = this.getSuffixes()
+    const inverse = new Int32Array(n)
+    const lcp = new Int32Array(n)
+    for (let i = 0; i < n; ++i) inverse[suffixes[i]] = i
+    for (let i = 0, h = 0; i < n; ++i) {
+      if (inverse[i] > 0) {
+        const j = suffixes[inverse[i] - 1]
+        while (i + h < n && j + h < n && text.charCodeAt(i + h) === text.charCodeAt(j + h)) ++h
+        lcp[inverse[i]] = h
+        if (h > 0) --h
+      } else {
+        h = 0
+      }
+    }
+    this.lcp = lcp
+    return lcp
+  }
+}
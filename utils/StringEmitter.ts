@@ -0,0 +1,109 @@
+/**
+ * Delimiter of a string literal. Template literals are ES6 only.
+ */
+export type StringDelimiter = "`" | "'" | '"'
+
+export const STRING_DELIMITERS: StringDelimiter[] = ["`", "'", '"']
+export const ES5_STRING_DELIMITERS: StringDelimiter[] = ["'", '"']
+
+// Separators for a list packed in a single string, in order of preference.
+// None of them needs escaping in a template literal.
+const SEPARATORS = "|,; ~^!#%&*+-./:<=>?@_"
+
+/**
+ * StringEmitter - writes strings as literals of the packed code.
+ * Every escape adds a single ASCII character, so the same delimiter is the cheapest for all cost targets.
+ */
+export class StringEmitter {
+  private static instance: StringEmitter
+
+  private constructor() {}
+
+  public static getInstance(): StringEmitter {
+    if (!StringEmitter.instance) {
+      StringEmitter.instance = new StringEmitter()
+    }
+    return StringEmitter.instance
+  }
+
+  /**
+   * Escapes a string for a literal : backslashes, the delimiter, ${ in a template literal,
+   * line feeds in a quoted string. Carriage returns are always escaped, a template literal would turn them into \n.
+   * Without a delimiter, only the backslashes are escaped.
+   */
+  public escape(str: string, delimiter = ""): string {
+    let escaped = str.replace(/\\/g, "\\\\").replace(/\r/g, "\\r")
+    if (delimiter) {
+      escaped = escaped.split(delimiter).join("\\" + delimiter)
+    }
+    if (delimiter === "`") {
+      escaped = escaped.split("${").join("\\${")
+    } else if (delimiter) {
+      escaped = escaped.replace(/\n/g, "\\n")
+    }
+    return escaped
+  }
+
+  /**
+   * Number of characters added when escaping a string for a literal
+   */
+  public escapeCost(str: string, delimiter: string): number {
+    return this.escape(str, delimiter).length - str.length
+  }
+
+  /**
+   * Returns the delimiter needing the fewest escapes for the string, the first of the list on a tie
+   */
+  public chooseDelimiter(str: string, delimiters: StringDelimiter[] = STRING_DELIMITERS): StringDelimiter {
+    let best = delimiters[0]
+    let bestCost = Number.POSITIVE_INFINITY
+    for (const delimiter of delimiters) {
+      const cost = this.escapeCost(str, delimiter)
+      if (cost < bestCost) {
+        best = delimiter
+        bestCost = cost
+      }
+    }
+    return best
+  }
+
+  /**
+   * Writes a string literal with the given delimiter
+   */
+  public quote(str: string, delimiter: StringDelimiter): string {
+    return delimiter + this.escape(str, delimiter) + delimiter
+  }
+
+  /**
+   * Writes a string literal with the cheapest delimiter
+   */
+  public literal(str: string, delimiters: StringDelimiter[] = STRING_DELIMITERS): string {
+    return this.quote(str, this.chooseDelimiter(str, delimiters))
+  }
+
+  /**
+   * Returns a character absent from all the strings, used to join them.
+   * ASCII separators come first, a non-ASCII one is only used when all of them appear in the strings.
+   */
+  public chooseSeparator(parts: string[]): string {
+    const isFree = (separator: string) => !parts.some((part) => part.includes(separator))
+    const separator = Array.from(SEPARATORS).find(isFree)
+    if (separator) return separator
+    for (let code = 0xa1; ; ++code) {
+      if (isFree(String.fromCharCode(code))) return String.fromCharCode(code)
+    }
+  }
+
+  /**
+   * Writes an array of strings as a single literal split on a separator : `a|b|c`.split`|`
+   */
+  public list(parts: string[], delimiters: StringDelimiter[] = STRING_DELIMITERS): string {
+    const separator = this.chooseSeparator(parts)
+    return this.literal(parts.join(separator), delimiters) + ".split`" + separator + "`"
+  }
+}
+
+/**
+ * Returns the shared string emitter
+ */
+export const getStringEmitter = (): StringEmitter => StringEmitter.getInstance()
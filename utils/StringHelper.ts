@@ -1,3 +1,5 @@
+import { getCostModel } from "./CostModel"
+
 export class StringHelper {
   private static instance: StringHelper
 
@@ -10,51 +12,6 @@ export class StringHelper {
     return StringHelper.instance
   }
 
-  public getByteLength(normalVal: string): number {
-    const str = String(normalVal)
-    let byteLen = 0
-
-    for (let i = 0; i < str.length; i++) {
-      const c = str.charCodeAt(i)
-      byteLen +=
-        c < 1 << 7
-          ? 1
-          : c < 1 << 11
-            ? 2
-            : c < 1 << 16
-              ? 3
-              : c < 1 << 21
-                ? 4
-                : c < 1 << 26
-                  ? 5
-                  : c < 1 << 31
-                    ? 6
-                    : Number.NaN
-    }
-
-    return byteLen
-  }
-
-  public getCharacterLength(unicode: number): number {
-    let byteLen =
-      unicode < 1 << 7
-        ? 1
-        : unicode < 1 << 11
-          ? 2
-          : unicode < 1 << 16
-            ? 3
-            : unicode < 1 << 21
-              ? 4
-              : unicode < 1 << 26
-                ? 5
-                : unicode < 1 << 31
-                  ? 6
-                  : Number.NaN
-
-    byteLen += unicode === 92 ? 1 : 0 // Add 1 for backslash which needs escaping
-    return byteLen
-  }
-
   public unicodeToBase64(str: string): string {
     return btoa(
       encodeURIComponent(str).replace(/%([0-9A-F]{2})/g, (match, p1) => {
@@ -183,8 +140,27 @@ export class StringHelper {
   public needsEscapingInCharClass(ascii: number): boolean {
     return ascii === 92 || ascii === 93 || ascii === 96
   }
+
+  // Characters usable as split/join tokens, most preferred first : ASCII from ~ downwards, then,
+  // when characters are counted instead of bytes, the non-ASCII ones below U+1100 (one char each, even on Twitter)
+  public getTokenCandidates(delimiterCode: number, beyondAscii: boolean): string[] {
+    const candidates: string[] = []
+    for (let i = 126; i > 1; --i) {
+      if (i !== 96 && i !== 13 && i !== delimiterCode && i !== 92) {
+        candidates.push(String.fromCharCode(i))
+      }
+    }
+    if (beyondAscii) {
+      for (let i = 0xa1; i < 0x1100; ++i) {
+        if (i !== 0xad) {
+          candidates.push(String.fromCharCode(i))
+        }
+      }
+    }
+    return candidates
+  }
 }
 
 export const getByteCount = (str: string): number => {
-  return new Blob([str]).size
-}
\ No newline at end of file
+  return getCostModel("utf8").measure(str)
+}
@@ -0,0 +1,150 @@
+import { z } from "zod"
+import type { PackerOptions } from "../types"
+import { COST_TARGETS, type CostTarget, getCostModel } from "./CostModel"
+import { getDeflater } from "./Deflate"
+
+/**
+ * Rules of a size-coding platform : what the size is counted in, what the page provides to the code,
+ * which decoders it accepts and how large the entry may be
+ */
+export const TargetPresetSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  // Unit the entry is measured in, also the one the packers minimize
+  objective: z.enum(COST_TARGETS as [CostTarget, ...CostTarget[]]),
+  // The entry is measured once zipped, the objective unit only ranking the replacements of the packers
+  zipped: z.boolean().default(false),
+  // Largest entry accepted, in the objective unit or in zipped bytes. No limit if absent.
+  sizeLimit: z.number().int().positive().optional(),
+  useES6: z.boolean().default(true),
+  strictDecoder: z.boolean().default(false),
+  avoidEval: z.boolean().default(false),
+  // One-letter globals provided by the shim, never renamed
+  globals: z
+    .string()
+    .regex(/^[a-zA-Z]*$/, "one-letter names only")
+    .default(""),
+  // Graphics or audio context provided by the shim
+  context: z.object({ name: z.string().regex(/^[a-zA-Z]$/), type: z.enum(["2d", "webgl", "audio"]) }).optional(),
+  // Code run between the decoder and the unpacked code
+  environment: z.string().default(""),
+  // Call running the unpacked code, held in the variable _. The decoder constraints pick it if absent.
+  interpreterCall: z.string().optional(),
+})
+
+export type TargetPreset = z.infer<typeof TargetPresetSchema>
+
+export const TARGET_PRESETS: TargetPreset[] = z.array(TargetPresetSchema).parse([
+  {
+    id: "js1k",
+    name: "JS1k",
+    description: "1024 bytes, shim providing the canvas a, the body b, the 2D context c and the document d",
+    objective: "utf8",
+    sizeLimit: 1024,
+    globals: "abcd",
+    context: { name: "c", type: "2d" },
+  },
+  {
+    id: "js13k",
+    name: "js13kGames",
+    description: "13312 bytes for the zipped entry, no shim",
+    objective: "utf8",
+    zipped: true,
+    sizeLimit: 13312,
+  },
+  {
+    id: "dwitter",
+    name: "Dwitter",
+    description: "140 characters, body of u(t) called every frame with the canvas c, its 2D context x, S, C, T and R",
+    objective: "codepoints",
+    sizeLimit: 140,
+    globals: "ctuxSCTR",
+    context: { name: "x", type: "2d" },
+  },
+  {
+    id: "tweet",
+    name: "Tweet",
+    description: "280 characters, no shim",
+    objective: "codepoints",
+    sizeLimit: 280,
+  },
+  {
+    id: "golf-horse",
+    name: "Golf.horse",
+    description: "Scored in bytes, no size limit",
+    objective: "utf8",
+  },
+])
+
+/**
+ * Returns the built-in preset with the given id
+ */
+export function getTargetPreset(id: string): TargetPreset {
+  const preset = TARGET_PRESETS.find((candidate) => candidate.id === id)
+  if (!preset) {
+    throw new Error("Unknown target: " + id + " (known: " + TARGET_PRESETS.map((known) => known.id).join(", ") + ")")
+  }
+  return preset
+}
+
+/**
+ * Validates a preset read from a file or typed by the user
+ * @throws Error listing every invalid field
+ */
+export function parseTargetPreset(data: unknown): TargetPreset {
+  const parsed = TargetPresetSchema.safeParse(data)
+  if (!parsed.success) {
+    throw new Error(
+      "Invalid target preset: " +
+        parsed.error.issues.map((issue) => issue.path.join(".") + ": " + issue.message).join(", "),
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * Returns the options with the rules of the target applied : objective, decoder constraints,
+ * globals kept out of the variable renaming, shim context and environment
+ */
+export function applyTargetPreset(options: PackerOptions, preset: TargetPreset): PackerOptions {
+  const applied: PackerOptions = {
+    ...options,
+    target: preset.id,
+    costTarget: preset.objective,
+    objective: preset.zipped ? "zipped" : "raw",
+    useES6: preset.useES6,
+    strictDecoder: preset.strictDecoder,
+    avoidEval: preset.avoidEval,
+    varsNotReassigned: [...new Set([...(options.varsNotReassigned ?? []), ...preset.globals])],
+    environment: preset.environment,
+    interpreterCall: preset.interpreterCall,
+  }
+  if (preset.context) {
+    applied.contextVariableName = preset.context.name
+    applied.contextType = preset.context.type
+  }
+  return applied
+}
+
+/**
+ * Size of an entry against the limit of the target
+ */
+export interface TargetBudget {
+  size: number
+  // Infinite when the target has no limit
+  limit: number
+  // Negative when the entry is over the limit
+  remaining: number
+  unit: string
+}
+
+/**
+ * Measures an entry in the objective unit of the target, or zipped, and what is left of its size limit
+ */
+export function measureBudget(output: string, preset: TargetPreset): TargetBudget {
+  const costModel = getCostModel(preset.objective)
+  const size = preset.zipped ? getDeflater().zipSize(output) : costModel.measure(output)
+  const limit = preset.sizeLimit ?? Number.POSITIVE_INFINITY
+  return { size, limit, remaining: limit - size, unit: preset.zipped ? "zipped bytes" : costModel.unit }
+}
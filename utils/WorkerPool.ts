@@ -0,0 +1,298 @@
+/**
+ * Worker as seen by the pool : a Web Worker or a Node worker thread
+ */
+export interface PoolWorker {
+  postMessage(message: unknown): void
+  terminate(): void
+  // Node only : an idle worker thread must not keep the process alive
+  ref?(): void
+  unref?(): void
+}
+
+/**
+ * Creates a worker forwarding its messages and errors, or returns null where workers are not available
+ */
+export type WorkerFactory = (
+  onMessage: (message: unknown) => void,
+  onError: (error: string) => void,
+) => PoolWorker | null
+
+/**
+ * Message sent to a worker, and its answer
+ */
+interface PoolRequest<T> {
+  id: number
+  task: T
+}
+
+interface PoolResponse<R> {
+  id: number
+  result?: R
+  error?: string
+}
+
+/**
+ * Task waiting for, or running on, a worker
+ */
+interface Job<T, R> {
+  id: number
+  task: T
+  resolve: (result: R) => void
+  reject: (error: Error) => void
+  signal?: AbortSignal
+  onAbort?: () => void
+  worker?: PoolWorker
+}
+
+/**
+ * WorkerPool - runs tasks on a fixed number of workers, in the browser (Web Workers)
+ * as well as under Node (worker_threads). Tasks are queued until a worker is free.
+ * Aborting a task terminates the worker running it, a new one is started for the next tasks.
+ * Where no worker can be created, the tasks run one by one on the calling thread.
+ */
+export class WorkerPool<T, R> {
+  public readonly size: number
+  // Why the tasks run on the calling thread, null while workers are used
+  public fallbackReason: string | null = null
+  private workers: PoolWorker[] = []
+  private idle: PoolWorker[] = []
+  private queue: Job<T, R>[] = []
+  private running = new Map<PoolWorker, Job<T, R>>()
+  private nextId = 0
+  private workersAvailable = true
+
+  constructor(
+    private createWorker: WorkerFactory,
+    private runInline: (task: T) => R,
+    size = getConcurrency(),
+  ) {
+    this.size = Math.max(1, size)
+  }
+
+  /**
+   * Queues a task, the promise settles with its result, or rejects once the signal is aborted
+   */
+  public run(task: T, signal?: AbortSignal): Promise<R> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error("Task aborted"))
+    }
+    return new Promise<R>((resolve, reject) => {
+      const job: Job<T, R> = { id: this.nextId++, task, resolve, reject, signal }
+      if (signal) {
+        job.onAbort = () => this.cancel(job)
+        signal.addEventListener("abort", job.onAbort, { once: true })
+      }
+      this.queue.push(job)
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Stops every worker and rejects the tasks left
+   */
+  public terminate(): void {
+    for (const job of [...this.queue, ...this.running.values()]) {
+      this.finish(job, undefined, new Error("Worker pool terminated"))
+    }
+    for (const worker of this.workers) {
+      worker.terminate()
+    }
+    this.queue = []
+    this.running.clear()
+    this.workers = []
+    this.idle = []
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let worker = this.idle.pop()
+      if (!worker && this.workersAvailable && this.workers.length < this.size) {
+        worker = this.spawn() ?? undefined
+      }
+      if (!worker) {
+        if (!this.workersAvailable && this.running.size === 0) {
+          this.runNextInline()
+        }
+        return
+      }
+      const job = this.queue.shift()!
+      job.worker = worker
+      this.running.set(worker, job)
+      worker.ref?.()
+      const request: PoolRequest<T> = { id: job.id, task: job.task }
+      worker.postMessage(request)
+    }
+  }
+
+  private spawn(): PoolWorker | null {
+    let worker: PoolWorker | null = null
+    try {
+      worker = this.createWorker(
+        (message) => this.settle(worker!, message as PoolResponse<R>),
+        (error) => this.fail(worker!, error),
+      )
+    } catch (error) {
+      this.fallbackReason = error instanceof Error ? error.message : String(error)
+    }
+    if (!worker) {
+      this.fallbackReason ??= "workers are not supported here"
+      this.workersAvailable = false
+      return null
+    }
+    this.workers.push(worker)
+    return worker
+  }
+
+  /**
+   * Runs the next queued task on the calling thread, after yielding so that the page stays responsive
+   */
+  private runNextInline(): void {
+    const job = this.queue.shift()!
+    this.running.set(INLINE_WORKER, job)
+    setTimeout(() => {
+      if (this.running.get(INLINE_WORKER) !== job) return
+      this.running.delete(INLINE_WORKER)
+      try {
+        this.finish(job, this.runInline(job.task))
+      } catch (error) {
+        this.finish(job, undefined, error instanceof Error ? error : new Error(String(error)))
+      }
+      this.dispatch()
+    }, 0)
+  }
+
+  private settle(worker: PoolWorker, response: PoolResponse<R>): void {
+    const job = this.running.get(worker)
+    if (!job || job.id !== response.id) return
+    this.running.delete(worker)
+    worker.unref?.()
+    this.idle.push(worker)
+    if (response.error !== undefined) {
+      this.finish(job, undefined, new Error(response.error))
+    } else {
+      this.finish(job, response.result as R)
+    }
+    this.dispatch()
+  }
+
+  private fail(worker: PoolWorker, error: string): void {
+    const job = this.running.get(worker)
+    this.discard(worker)
+    if (job) {
+      this.finish(job, undefined, new Error(error))
+    }
+    this.dispatch()
+  }
+
+  private cancel(job: Job<T, R>): void {
+    const position = this.queue.indexOf(job)
+    if (position > -1) {
+      this.queue.splice(position, 1)
+    } else if (job.worker && this.running.get(job.worker) === job) {
+      // A running task cannot be interrupted, its worker is replaced
+      this.discard(job.worker)
+    } else if (this.running.get(INLINE_WORKER) === job) {
+      this.running.delete(INLINE_WORKER)
+    } else {
+      return
+    }
+    this.finish(job, undefined, new Error("Task aborted"))
+    this.dispatch()
+  }
+
+  /**
+   * Settles the promise of a job, and stops listening to its signal
+   */
+  private finish(job: Job<T, R>, result?: R, error?: Error): void {
+    if (job.signal && job.onAbort) {
+      job.signal.removeEventListener("abort", job.onAbort)
+    }
+    if (error) {
+      job.reject(error)
+    } else {
+      job.resolve(result as R)
+    }
+  }
+
+  private discard(worker: PoolWorker): void {
+    worker.terminate()
+    this.running.delete(worker)
+    this.workers = this.workers.filter((other) => other !== worker)
+    this.idle = this.idle.filter((other) => other !== worker)
+  }
+}
+
+// Stands for the calling thread when the tasks run inline
+const INLINE_WORKER: PoolWorker = { postMessage: () => {}, terminate: () => {} }
+
+/**
+ * Number of workers worth running : one per core, the calling thread keeping one for itself
+ */
+export function getConcurrency(): number {
+  const os = typeof process !== "undefined" ? process.getBuiltinModule?.("node:os") : undefined
+  const cores = os ? os.availableParallelism() : typeof navigator !== "undefined" ? navigator.hardwareConcurrency : 1
+  return Math.max(1, (cores || 1) - 1)
+}
+
+/**
+ * Starts a worker running a module : a Web Worker from the given factory in the browser
+ * (bundlers need the new Worker(new URL(...)) expression at the call site), a worker thread under Node
+ */
+export function spawnWorker(
+  url: URL,
+  createWebWorker: () => Worker,
+  onMessage: (message: unknown) => void,
+  onError: (error: string) => void,
+): PoolWorker | null {
+  const threads = typeof process !== "undefined" ? process.getBuiltinModule?.("node:worker_threads") : undefined
+  if (threads) {
+    const path = process.getBuiltinModule("node:url").fileURLToPath(url)
+    let worker: InstanceType<typeof threads.Worker>
+    if (path.endsWith(".ts")) {
+      // Sources run through tsx : the thread registers its loader before requiring the TypeScript module.
+      // The loader is resolved from the worker module, the working directory may be anywhere
+      const loader = process.getBuiltinModule("node:module").createRequire(path).resolve("tsx/cjs")
+      worker = new threads.Worker(`require(${JSON.stringify(loader)});require(${JSON.stringify(path)})`, { eval: true })
+    } else {
+      worker = new threads.Worker(path)
+    }
+    worker.on("message", onMessage)
+    worker.on("error", (error) => onError(error.message))
+    worker.unref()
+    return worker
+  }
+  if (typeof Worker === "undefined") {
+    return null
+  }
+  const worker = createWebWorker()
+  worker.onmessage = (event) => onMessage(event.data)
+  worker.onerror = (event) => onError(event.message || "Unknown error")
+  return worker
+}
+
+/**
+ * Worker side : answers the requests of the pool with the results of the handler,
+ * on the parent port of a worker thread or on the global scope of a Web Worker
+ */
+export function serveTasks<T, R>(handler: (task: T) => R): void {
+  const threads = typeof process !== "undefined" ? process.getBuiltinModule?.("node:worker_threads") : undefined
+  const port = threads?.parentPort
+  const answer = (request: PoolRequest<T>) => {
+    let response: PoolResponse<R>
+    try {
+      response = { id: request.id, result: handler(request.task) }
+    } catch (error) {
+      response = { id: request.id, error: error instanceof Error ? error.message : String(error) }
+    }
+    if (port) {
+      port.postMessage(response)
+    } else {
+      self.postMessage(response)
+    }
+  }
+  if (port) {
+    port.on("message", answer)
+  } else {
+    self.onmessage = (event: MessageEvent) => answer(event.data)
+  }
+}
@@ -1,12 +1,20 @@
+import { getOccurrenceCounter } from "../utils/OccurrenceCounter"
+import { RepeatIndex } from "../utils/RepeatIndex"
+import { getCostModel } from "../utils/CostModel"
+import { type DecoderOptions, getDecoderCatalogue } from "../utils/DecoderCatalogue"
+
 // Define message types for worker communication
+// Search options, and the decoder options of the Replacer, so that the sizes match its output
+type WorkerSearchOptions = DecoderOptions & {
+  maxStates: number
+  timeLimit?: number
+  beamWidth?: number // Added beam width parameter
+}
+
 interface WorkerInitMessage {
   type: "init"
   input: string
-  options: {
-    maxStates: number
-    timeLimit?: number
-    beamWidth?: number // Added beam width parameter
-  }
+  options: WorkerSearchOptions
 }
 
 interface WorkerProgressMessage {
@@ -218,14 +226,7 @@ function sendResult(
 }
 
 // Beam search algorithm to find the best replacements
-function findBestReplacementsWithBeamSearch(
-  input: string,
-  options: {
-    maxStates: number
-    timeLimit?: number
-    beamWidth?: number
-  },
-) {
+function findBestReplacementsWithBeamSearch(input: string, options: WorkerSearchOptions) {
   const startTime = Date.now()
   const stringHelper = new StringHelper()
   const MAX_REPLACEMENTS = 10 // Always aim for 10 replacements
@@ -394,7 +395,7 @@ function findBestReplacementsWithBeamSearch(
           id: newState.id,
           text: newState.text,
           replacements: newState.replacements,
-          size: calculateFinalSize(newState.text, newState.replacements),
+          size: calculateFinalSize(newState.text, newState.replacements, options),
           depth: newState.depth,
           totalGain: newState.totalGain,
         })
@@ -504,7 +505,7 @@ function findBestReplacementsWithBeamSearch(
   sendResult(
     finalBestState.text,
     finalBestState.replacements,
-    calculateFinalSize(finalBestState.text, finalBestState.replacements),
+    calculateFinalSize(finalBestState.text, finalBestState.replacements, options),
     finalBestState.totalGain,
     nodesExplored,
     Date.now() - startTime,
@@ -516,47 +517,24 @@ function findBestReplacementsWithBeamSearch(
 // Find all potential patterns in the input
 function findAllPotentialPatterns(s: string): Pattern[] {
   const patterns: Pattern[] = []
-  const patternMap = new Map<string, number>()
-
-  // Find all substrings that appear at least twice
-  for (let length = Math.min(100, Math.floor(s.length / 2)); length >= 2; length--) {
-    // Track positions where each pattern occurs
-    const patternPositions = new Map<string, number[]>()
 
-    for (let i = 0; i <= s.length - length; i++) {
-      const pattern = s.substring(i, i + length)
+  // Find the maximal repeats without digits, appearing at least twice without overlapping, longest first
+  const repeats = new RepeatIndex(s).findRepeats({ exclude: /[0-9]/ })
+  repeats.sort((a, b) => b.string.length - a.string.length || a.offset - b.offset)
 
-      // Skip if already processed or if pattern contains digits
-      if (patternMap.has(pattern) || /[0-9]/.test(pattern)) continue
+  for (const { string: pattern, count: copies } of repeats) {
+    // Calculate raw gain (length * copies)
+    const rawGain = pattern.length * copies
 
-      // Get or initialize positions array
-      if (!patternPositions.has(pattern)) {
-        patternPositions.set(pattern, [])
-      }
+    // Calculate net gain (accounting for decoder overhead)
+    const netGain = (pattern.length - 1) * copies - pattern.length - 1
 
-      // Add this position
-      patternPositions.get(pattern)!.push(i)
-    }
-
-    // Process patterns with at least 2 occurrences
-    for (const [pattern, positions] of patternPositions.entries()) {
-      if (positions.length >= 2) {
-        patternMap.set(pattern, positions.length)
-
-        // Calculate raw gain (length * copies)
-        const rawGain = pattern.length * positions.length
-
-        // Calculate net gain (accounting for decoder overhead)
-        const netGain = (pattern.length - 1) * positions.length - pattern.length - 1
-
-        patterns.push({
-          string: pattern,
-          copies: positions.length,
-          gain: netGain,
-          rawGain: rawGain,
-        })
-      }
-    }
+    patterns.push({
+      string: pattern,
+      copies,
+      gain: netGain,
+      rawGain: rawGain,
+    })
   }
 
   return patterns
@@ -567,33 +545,16 @@ function updatePatternStats(patterns: Pattern[], text: string): void {
   for (let i = 0; i < patterns.length; i++) {
     const pattern = patterns[i]
 
-    // Count non-overlapping occurrences in current text
-    let count = 0
-    let pos = 0
-
-    while ((pos = text.indexOf(pattern.string, pos)) !== -1) {
-      count++
-      pos += pattern.string.length // Move past this occurrence to avoid overlaps
-    }
-
-    // Also count overlapping occurrences with a small weight
-    let overlapCount = 0
-    pos = 0
-    while ((pos = text.indexOf(pattern.string, pos + 1)) !== -1) {
-      overlapCount++
-    }
-
-    // Adjust count to include some overlapping occurrences
-    // but with diminished value
-    const adjustedCount = count + (overlapCount - count) * 0.3
+    // Count non-overlapping occurrences in current text, overlapping ones are not replaced
+    const count = getOccurrenceCounter().count(text, pattern.string)
 
     // Update pattern data
     pattern.copies = Math.max(count, 1) // Ensure at least 1 copy
 
     // Calculate gain: (length-1)*copies - length - 1
     // This accounts for the replacement token (1 byte) and the overhead of storing the pattern
-    pattern.gain = (pattern.string.length - 1) * adjustedCount - pattern.string.length - 1
-    pattern.rawGain = pattern.string.length * adjustedCount // Raw gain as score
+    pattern.gain = (pattern.string.length - 1) * count - pattern.string.length - 1
+    pattern.rawGain = pattern.string.length * count // Raw gain as score
   }
 
   // Remove patterns with fewer than 2 occurrences or negative gain
@@ -630,15 +591,16 @@ function estimateFutureGain(patterns: Pattern[], text: string): number {
   return estimatedGain
 }
 
-// Calculate the final size of a solution including the decoder
-function calculateFinalSize(text: string, replacements: string[]): number {
-  // Generate the actual final output to ensure accurate size calculation
-  const decoderArray = `\`${replacements.join("|")}\`.split\`|\``
-  const decoder = `.replace(/\\d/g,i=>${decoderArray}[i])`
-
-  // The complete output string as it would be in the final result
-  const completeOutput = `\`${text}\`${decoder}`
+// Calculate the final size of a solution including the decoder, in the unit of the cost target
+function calculateFinalSize(text: string, replacements: string[], options: DecoderOptions): number {
+  // Generate the actual final output, with the decoder the Replacer will emit
+  const decoder = getDecoderCatalogue().emit(
+    "digits",
+    replacements.length,
+    { payload: text, patterns: replacements },
+    options,
+  )
 
-  // Return the exact length of the complete output
-  return completeOutput.length
+  // Measure the complete output as the final result is measured
+  return getCostModel(options.costTarget).measure(decoder.code)
 }
@@ -0,0 +1,5 @@
+import { evaluate } from "../models/PackerEvaluation"
+import { serveTasks } from "../utils/WorkerPool"
+
+// Runs the packers for the optimizers, either as a Web Worker or as a Node worker thread
+serveTasks(evaluate)